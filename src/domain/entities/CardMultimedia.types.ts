@@ -3,6 +3,10 @@
  * Multimedia support for flashcard functionality
  */
 
+import type { ImageAnimationInfo, ImageFit, ImageFormat } from "./Media";
+import type { MediaErrorCode } from "./MediaError";
+import type { MediaStorageAdapter } from "./MediaStorageAdapter.types";
+
 export type CardMediaType = "image" | "audio" | "video";
 export type CardMediaPosition = "front" | "back" | "both";
 
@@ -16,12 +20,30 @@ export interface CardMediaAttachment {
   fileSize: number;
   mimeType: string;
   duration?: number; // For audio/video in seconds
-  thumbnailUrl?: string; // For videos
+  thumbnailUrl?: string; // Local poster frame / preview
+  thumbHash?: string; // Base64 ThumbHash placeholder
+  perceptualHash?: string; // dHash of images, for duplicate detection
+  animation?: ImageAnimationInfo; // For animated GIF / WebP stickers
+  /** Resized copies keyed "<format>_<width>", e.g. "webp_480" */
+  variants?: Record<string, CardMediaVariant>;
   caption?: string;
   isDownloaded: boolean;
   createdAt: string;
 }
 
+/**
+ * A resized copy of an image attachment
+ */
+export interface CardMediaVariant {
+  url: string;
+  localPath?: string;
+  width: number; // Pixels
+  height: number;
+  format: ImageFormat;
+  mimeType: string;
+  fileSize: number;
+}
+
 export interface CardMultimediaFlashcard {
   id: string;
   front: string;
@@ -60,14 +82,18 @@ export interface CardMediaGenerationResult {
   creditsUsed: number;
   processingTime: number;
   error?: string;
+  errorCode?: MediaErrorCode;
   requestId: string;
 }
 
 export interface CardMediaUploadProgress {
   fileId: string;
   progress: number; // 0-100
-  status: "uploading" | "processing" | "completed" | "error";
+  status: "uploading" | "processing" | "completed" | "paused" | "error";
+  uploadedBytes?: number;
+  totalBytes?: number;
   error?: string;
+  errorCode?: MediaErrorCode;
   url?: string;
 }
 
@@ -77,6 +103,63 @@ export interface CardMediaCompressionOptions {
   maxHeight?: number;
   maxFileSize?: number; // bytes
   format?: "jpeg" | "png" | "webp";
+  fit?: ImageFit; // Sizing into maxWidth x maxHeight, default inside
+}
+
+export interface CardMediaUploadOptions {
+  stripMetadata?: boolean; // Remove location / device data, keep orientation
+  /** Hashed attachments to reuse when the upload is a near-identical image */
+  existingMedia?: CardMediaAttachment[];
+  duplicateThreshold?: number; // Max differing hash bits, default 10
+  /** Resized copies to generate for still images */
+  variants?: CardMediaVariantOptions;
+  /** Called with the attachment id as `fileId`, which pauseUpload takes */
+  onProgress?: (progress: CardMediaUploadProgress) => void;
+}
+
+/**
+ * A paused or interrupted upload that resumeUpload can continue
+ */
+export interface CardMediaPendingUpload {
+  fileId: string;
+  filename: string;
+  mimeType: string;
+  fileSize: number; // bytes
+  uploadedBytes: number;
+  updatedAt: string;
+}
+
+export interface CardMediaVariantOptions {
+  widths?: number[]; // Pixels, default 160 / 480 / 1080
+  formats?: ImageFormat[]; // Default JPEG
+  quality?: number; // 0.1 - 1.0
+}
+
+export interface CardMediaUrlOptions {
+  width: number; // Display width in points
+  dpr?: number; // Device pixel ratio, default 1
+  formats?: ImageFormat[]; // Preferred formats, best first
+}
+
+export interface CardMediaDuplicateOptions {
+  threshold?: number; // Max differing hash bits, default 10
+}
+
+/**
+ * An image attachment and the card it belongs to
+ */
+export interface CardMediaDuplicate {
+  cardId: string;
+  attachment: CardMediaAttachment;
+}
+
+/**
+ * Near-identical images found across cards
+ */
+export interface CardMediaDuplicateGroup {
+  duplicates: CardMediaDuplicate[];
+  /** Bytes saved by keeping only the first attachment */
+  redundantSize: number;
 }
 
 export interface CardMediaValidation {
@@ -87,9 +170,14 @@ export interface CardMediaValidation {
 }
 
 export interface CardMultimediaFlashcardService {
+  /**
+   * Install the remote storage that uploads, URLs and downloads use
+   */
+  setStorageAdapter(adapter: MediaStorageAdapter): void;
   uploadMedia(
     file: any,
     options?: CardMediaCompressionOptions,
+    uploadOptions?: CardMediaUploadOptions,
   ): Promise<CardMediaAttachment>;
   generateMedia(
     request: CardMediaGenerationRequest,
@@ -99,7 +187,22 @@ export interface CardMultimediaFlashcardService {
     attachment: CardMediaAttachment,
     options: CardMediaCompressionOptions,
   ): Promise<CardMediaAttachment>;
-  deleteMedia(attachmentId: string): Promise<void>;
+  deleteMedia(attachment: string | CardMediaAttachment): Promise<void>;
+  findDuplicateMedia(
+    cards: CardMultimediaFlashcard[],
+    options?: CardMediaDuplicateOptions,
+  ): Promise<CardMediaDuplicateGroup[]>;
   getMediaUrl(attachmentId: string): Promise<string>;
+  getMediaUrl(
+    attachment: CardMediaAttachment,
+    options?: CardMediaUrlOptions,
+  ): Promise<string>;
   downloadMedia(attachmentId: string): Promise<string>; // Returns local path
+  pauseUpload(fileId: string): Promise<void>;
+  resumeUpload(
+    fileId: string,
+    uploadOptions?: CardMediaUploadOptions,
+  ): Promise<CardMediaAttachment>;
+  cancelUpload(fileId: string): Promise<void>;
+  getPendingUploads(): Promise<CardMediaPendingUpload[]>;
 }
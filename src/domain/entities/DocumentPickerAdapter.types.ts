@@ -0,0 +1,40 @@
+/**
+ * Document Picker Adapter Types
+ * Contract for picking files (audio, documents) outside the photo library
+ */
+
+/**
+ * Options handed to a document picker adapter
+ */
+export interface DocumentPickerAdapterOptions {
+  mimeTypes: string[];
+  multiple: boolean;
+  copyToCacheDirectory: boolean;
+}
+
+/**
+ * File returned by a document picker adapter
+ */
+export interface PickedDocument {
+  uri: string;
+  name: string;
+  size?: number;
+  mimeType?: string;
+}
+
+export interface DocumentPickerAdapterResult {
+  canceled: boolean;
+  documents?: PickedDocument[];
+}
+
+/**
+ * Document picker used by MediaPickerService.pickAudio / pickDocument.
+ * The expo-document-picker implementation is installed by default.
+ */
+export interface DocumentPickerAdapter {
+  pickDocuments(
+    options: DocumentPickerAdapterOptions
+  ): Promise<DocumentPickerAdapterResult>;
+  /** Playback duration in milliseconds, when the adapter can read it */
+  getDuration?(uri: string): Promise<number | undefined>;
+}
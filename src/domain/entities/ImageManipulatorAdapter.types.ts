@@ -0,0 +1,42 @@
+/**
+ * Image Manipulator Adapter Types
+ * Contract between MediaManipulationService and the native image pipeline
+ */
+
+import type { ImageManipulationActions, ImageSaveOptions } from "./Media";
+
+/**
+ * Image written by an adapter
+ */
+export interface ManipulatedImage {
+  uri: string;
+  width: number;
+  height: number;
+  base64?: string;
+}
+
+/**
+ * Image pipeline used by MediaManipulationService.
+ * The expo-image-manipulator implementation is installed by default.
+ */
+export interface ImageManipulatorAdapter {
+  /**
+   * Apply single-operation steps in order and write the result.
+   * The source must be decoded upright (EXIF orientation applied) and
+   * the output written without metadata, as expo-image-manipulator does.
+   */
+  manipulate(
+    uri: string,
+    steps: ImageManipulationActions[],
+    options: Required<ImageSaveOptions>
+  ): Promise<ManipulatedImage>;
+  getFileSize(uri: string): Promise<number | undefined>;
+}
+
+/**
+ * Manipulation request accepted by the picker and save services
+ */
+export interface MediaManipulationOptions {
+  actions: ImageManipulationActions[];
+  save?: ImageSaveOptions;
+}
@@ -5,12 +5,24 @@
  * Handles images, videos, and media library interactions.
  */
 
+import type { MediaManipulationOptions } from "./ImageManipulatorAdapter.types";
+import type {
+  MediaAssetConstraints,
+  MediaAssetRejection,
+} from "./MediaConstraints";
+import type { MediaError } from "./MediaError";
+import type { MediaMetadata } from "./MediaMetadata";
+import type { MediaPermissionDetails } from "./MediaPermission";
+import type { MimeCategory } from "./MimeRegistry";
+import { MimeRegistry } from "./MimeRegistry";
+
 /**
  * Media type enumeration
  */
 export enum MediaType {
   IMAGE = "image",
   VIDEO = "video",
+  AUDIO = "audio",
   ALL = "all",
 }
 
@@ -21,6 +33,9 @@ export enum ImageFormat {
   PNG = "png",
   JPEG = "jpeg",
   WEBP = "webp",
+  GIF = "gif",
+  HEIC = "heic",
+  AVIF = "avif",
 }
 
 /**
@@ -32,6 +47,22 @@ export enum MediaQuality {
   HIGH = 1.0,
 }
 
+/**
+ * How an image is sized into a box, as in CSS object-fit and sharp
+ */
+export enum ImageFit {
+  /** Fit inside the box keeping the aspect ratio, may enlarge */
+  CONTAIN = "contain",
+  /** Fill the box keeping the aspect ratio, cropping the overflow */
+  COVER = "cover",
+  /** Stretch to the box exactly */
+  FILL = "fill",
+  /** Like contain, but never enlarge */
+  INSIDE = "inside",
+  /** At least the box size keeping the aspect ratio, without cropping */
+  OUTSIDE = "outside",
+}
+
 /**
  * Media library permissions
  */
@@ -39,6 +70,7 @@ export enum MediaLibraryPermission {
   GRANTED = "granted",
   DENIED = "denied",
   LIMITED = "limited",
+  UNDETERMINED = "undetermined",
 }
 
 /**
@@ -49,17 +81,22 @@ export interface ImageDimensions {
   height: number;
 }
 
+/**
+ * Crop region in pixels
+ */
+export interface ImageCropRegion {
+  originX: number;
+  originY: number;
+  width: number;
+  height: number;
+}
+
 /**
  * Image manipulation actions
  */
 export interface ImageManipulationActions {
   resize?: ImageDimensions;
-  crop?: {
-    originX: number;
-    originY: number;
-    width: number;
-    height: number;
-  };
+  crop?: ImageCropRegion;
   rotate?: number;
   flip?: {
     horizontal?: boolean;
@@ -67,6 +104,36 @@ export interface ImageManipulationActions {
   };
 }
 
+/**
+ * Options of MediaUtils.getScaledDimensions
+ */
+export interface ImageScaleOptions {
+  fit?: ImageFit; // default INSIDE
+  /** Box sizes are in points and multiplied by this (default 1) */
+  pixelRatio?: number;
+  /** Cap contain / cover / fill / outside at the source size */
+  withoutEnlargement?: boolean;
+  /** Longest side in pixels, default MediaUtils.getMaxImageDimension() */
+  maxDimension?: number;
+}
+
+/**
+ * Scaled size in pixels
+ */
+export interface ScaledDimensions extends ImageDimensions {
+  /** Cover only: the box-sized region to keep, after resizing */
+  crop?: ImageCropRegion;
+}
+
+/**
+ * Animation metadata of an animated GIF / WebP
+ */
+export interface ImageAnimationInfo {
+  frameCount: number;
+  duration: number; // milliseconds, one loop
+  loopCount: number; // times played, 0 = forever
+}
+
 /**
  * Image save options
  */
@@ -87,6 +154,29 @@ export interface MediaPickerOptions {
   quality?: MediaQuality;
   selectionLimit?: number;
   base64?: boolean;
+  constraints?: MediaAssetConstraints;
+  /** Applied to picked images before constraints are checked */
+  manipulation?: MediaManipulationOptions;
+  /** Formats the caller can handle; other still images become JPEG */
+  imageFormats?: ImageFormat[];
+  /** Bake EXIF orientation into the pixels (default true) */
+  normalizeOrientation?: boolean;
+  /** Read EXIF / XMP into `asset.metadata` */
+  includeMetadata?: boolean;
+  /** Remove location and device identifiers, keeping orientation */
+  stripMetadata?: boolean;
+  /** Compute `asset.thumbHash` for images and videos */
+  includePlaceholder?: boolean;
+}
+
+/**
+ * Audio / document picker options
+ */
+export interface DocumentPickerOptions {
+  allowsMultipleSelection?: boolean;
+  mimeTypes?: string[];
+  copyToCacheDirectory?: boolean;
+  constraints?: MediaAssetConstraints;
 }
 
 /**
@@ -94,24 +184,87 @@ export interface MediaPickerOptions {
  */
 export interface MediaAsset {
   uri: string;
+  assetId?: string; // device media library id, when known
   width: number;
   height: number;
   type: MediaType;
   fileSize?: number;
   fileName?: string;
-  duration?: number;
+  duration?: number; // milliseconds
   base64?: string;
   mimeType?: string;
+  animation?: ImageAnimationInfo; // animated GIF / WebP only
+  metadata?: MediaMetadata; // EXIF / XMP, when requested
+  thumbHash?: string; // base64 ThumbHash placeholder, when requested
+}
+
+/**
+ * Device gallery album
+ */
+export interface MediaAlbum {
+  id: string;
+  title: string;
+  assetCount: number;
+}
+
+/**
+ * Media picker result status
+ */
+export type MediaPickerStatus =
+  "success" | "canceled" | "permission_denied" | "error";
+
+/**
+ * Assets were picked
+ */
+export interface MediaPickerSuccessResult {
+  status: "success";
+  canceled: false;
+  assets: MediaAsset[];
+  /** Assets dropped by `constraints` in "filter" mode */
+  rejected?: MediaAssetRejection[];
+}
+
+/**
+ * User dismissed the picker
+ */
+export interface MediaPickerCanceledResult {
+  status: "canceled";
+  canceled: true;
+  assets?: undefined;
+}
+
+/**
+ * Permission was not granted, picker was never shown
+ */
+export interface MediaPickerPermissionDeniedResult {
+  status: "permission_denied";
+  canceled: true;
+  assets?: undefined;
+  permission: MediaPermissionDetails;
+  error: MediaError;
 }
 
 /**
- * Media picker result
+ * Picker failed (native crash, unavailable module, constraint violation ...)
  */
-export interface MediaPickerResult {
-  canceled: boolean;
-  assets?: MediaAsset[];
+export interface MediaPickerErrorResult {
+  status: "error";
+  canceled: true;
+  assets?: undefined;
+  error: MediaError;
+  rejected?: MediaAssetRejection[];
 }
 
+/**
+ * Media picker result.
+ * `canceled` stays true for every non-success status.
+ */
+export type MediaPickerResult =
+  | MediaPickerSuccessResult
+  | MediaPickerCanceledResult
+  | MediaPickerPermissionDeniedResult
+  | MediaPickerErrorResult;
+
 /**
  * Camera options
  */
@@ -121,6 +274,19 @@ export interface CameraOptions {
   aspect?: [number, number];
   base64?: boolean;
   videoMaxDuration?: number;
+  constraints?: MediaAssetConstraints;
+  /** Applied to captured images before constraints are checked */
+  manipulation?: MediaManipulationOptions;
+  /** Formats the caller can handle; other still images become JPEG */
+  imageFormats?: ImageFormat[];
+  /** Bake EXIF orientation into the pixels (default true) */
+  normalizeOrientation?: boolean;
+  /** Read EXIF / XMP into `asset.metadata` */
+  includeMetadata?: boolean;
+  /** Remove location and device identifiers, keeping orientation */
+  stripMetadata?: boolean;
+  /** Compute `asset.thumbHash` for images and videos */
+  includePlaceholder?: boolean;
 }
 
 /**
@@ -129,90 +295,241 @@ export interface CameraOptions {
 export const MEDIA_CONSTANTS = {
   MAX_IMAGE_SIZE: 10 * 1024 * 1024,
   MAX_VIDEO_SIZE: 100 * 1024 * 1024,
+  MAX_AUDIO_SIZE: 50 * 1024 * 1024,
   DEFAULT_QUALITY: MediaQuality.HIGH,
   DEFAULT_FORMAT: ImageFormat.JPEG,
   DEFAULT_ASPECT_RATIO: [4, 3] as [number, number],
   DEFAULT_SELECTION_LIMIT: 10,
-  SUPPORTED_IMAGE_FORMATS: [".jpg", ".jpeg", ".png", ".gif", ".webp"],
-  SUPPORTED_VIDEO_FORMATS: [".mp4", ".mov"],
+  // Default longest image side, see MediaUtils.setMaxImageDimension
+  MAX_IMAGE_DIMENSION: 8192,
+  // Longest side of generated thumbnails, in pixels
+  THUMBNAIL_MAX_DIMENSION: 320,
+  THUMBNAIL_QUALITY: MediaQuality.MEDIUM,
+  THUMBNAIL_CACHE_SIZE: 20 * 1024 * 1024,
+  // Assets per gallery page, about five screens of a 3-column grid
+  LIBRARY_PAGE_SIZE: 60,
+  // Gallery changes arrive in bursts while syncing; apply them once quiet
+  LIBRARY_CHANGE_DELAY: 300, // ms
+  // Responsive variant widths: list thumbnail, card, full screen
+  VARIANT_WIDTHS: [160, 480, 1080] as number[],
+  VARIANT_QUALITY: MediaQuality.MEDIUM,
+  // Bytes per resumable upload request, small enough to retry on mobile
+  UPLOAD_CHUNK_SIZE: 5 * 1024 * 1024,
+  // Formats the image manipulator can write
+  ENCODABLE_IMAGE_FORMATS: [
+    ImageFormat.JPEG,
+    ImageFormat.PNG,
+    ImageFormat.WEBP,
+  ] as ImageFormat[],
+  // Derived from MIME_REGISTRY
+  SUPPORTED_IMAGE_FORMATS: MimeRegistry.getExtensions("image").map(
+    (extension) => `.${extension}`
+  ),
+  SUPPORTED_VIDEO_FORMATS: MimeRegistry.getExtensions("video").map(
+    (extension) => `.${extension}`
+  ),
+  SUPPORTED_AUDIO_FORMATS: MimeRegistry.getExtensions("audio").map(
+    (extension) => `.${extension}`
+  ),
 } as const;
 
 /**
- * MIME type mappings for images
+ * MIME type mappings for images, derived from MIME_REGISTRY
  */
-export const IMAGE_MIME_TYPES = {
-  [ImageFormat.PNG]: "image/png",
-  [ImageFormat.JPEG]: "image/jpeg",
-  [ImageFormat.WEBP]: "image/webp",
-} as const;
+export const IMAGE_MIME_TYPES = Object.fromEntries(
+  Object.values(ImageFormat).map((format) => [
+    format,
+    MimeRegistry.fromExtension(format)?.mimeType ?? `image/${format}`,
+  ])
+) as Readonly<Record<ImageFormat, string>>;
 
 /**
  * Media utilities
  */
 export class MediaUtils {
+  private static maxImageDimension: number =
+    MEDIA_CONSTANTS.MAX_IMAGE_DIMENSION;
+
+  /**
+   * Longest image side accepted by isValidDimensions and produced by
+   * getScaledDimensions
+   */
+  static getMaxImageDimension(): number {
+    return MediaUtils.maxImageDimension;
+  }
+
+  static setMaxImageDimension(maxDimension: number): void {
+    MediaUtils.maxImageDimension = maxDimension;
+  }
+
+  /**
+   * Lower-case file extension, ignoring query strings and fragments
+   */
+  static getExtension(uri: string): string | undefined {
+    const path = uri.split(/[?#]/)[0];
+    const fileName = path.substring(path.lastIndexOf("/") + 1);
+    const dotIndex = fileName.lastIndexOf(".");
+    return dotIndex > 0
+      ? fileName.slice(dotIndex + 1).toLowerCase()
+      : undefined;
+  }
+
+  static getMimeTypeFromUri(uri: string): string | undefined {
+    const extension = MediaUtils.getExtension(uri);
+    return extension
+      ? MimeRegistry.fromExtension(extension)?.mimeType
+      : undefined;
+  }
+
+  /**
+   * Extension-based check; use MimeDetectionService for content sniffing
+   */
   static isImage(uri: string): boolean {
-    const extension = uri.split(".").pop()?.toLowerCase();
-    return MEDIA_CONSTANTS.SUPPORTED_IMAGE_FORMATS.some(
-      (format) => format.replace(".", "") === extension
-    );
+    return MediaUtils.getUriCategory(uri) === "image";
   }
 
   static isVideo(uri: string): boolean {
-    const extension = uri.split(".").pop()?.toLowerCase();
-    return MEDIA_CONSTANTS.SUPPORTED_VIDEO_FORMATS.some(
-      (format) => format.replace(".", "") === extension
-    );
+    return MediaUtils.getUriCategory(uri) === "video";
+  }
+
+  static isAudio(uri: string): boolean {
+    return MediaUtils.getUriCategory(uri) === "audio";
   }
 
   static getImageMimeType(format: ImageFormat): string {
     return IMAGE_MIME_TYPES[format];
   }
 
+  /**
+   * Image format of a MIME type; HEIF maps to HEIC
+   */
+  static getImageFormat(mimeType: string): ImageFormat | undefined {
+    const normalized = MimeRegistry.normalize(mimeType);
+    if (normalized === "image/heif") {
+      return ImageFormat.HEIC;
+    }
+    return Object.values(ImageFormat).find(
+      (format) => IMAGE_MIME_TYPES[format] === normalized
+    );
+  }
+
+  static isEncodableFormat(format: ImageFormat): boolean {
+    return MEDIA_CONSTANTS.ENCODABLE_IMAGE_FORMATS.includes(format);
+  }
+
+  static getFileNameForFormat(fileName: string, format: ImageFormat): string {
+    const extension = format === ImageFormat.JPEG ? "jpg" : format;
+    const dotIndex = fileName.lastIndexOf(".");
+    const baseName = dotIndex > 0 ? fileName.slice(0, dotIndex) : fileName;
+    return `${baseName}.${extension}`;
+  }
+
   static calculateAspectRatio(width: number, height: number): number {
     return width / height;
   }
 
+  /**
+   * Size an image into a `maxWidth` x `maxHeight` box.
+   * The default INSIDE fit only shrinks, keeping the aspect ratio.
+   * Results never exceed the max dimension on either side.
+   */
   static getScaledDimensions(
     originalWidth: number,
     originalHeight: number,
     maxWidth: number,
-    maxHeight: number
-  ): ImageDimensions {
-    const aspectRatio = MediaUtils.calculateAspectRatio(
-      originalWidth,
-      originalHeight
-    );
+    maxHeight: number,
+    options?: ImageScaleOptions
+  ): ScaledDimensions {
+    const fit = options?.fit ?? ImageFit.INSIDE;
+    const pixelRatio = options?.pixelRatio ?? 1;
+    const boxWidth = maxWidth * pixelRatio;
+    const boxHeight = maxHeight * pixelRatio;
+    const scaleX = boxWidth / originalWidth;
+    const scaleY = boxHeight / originalHeight;
 
-    let width = originalWidth;
-    let height = originalHeight;
-
-    if (width > maxWidth) {
-      width = maxWidth;
-      height = width / aspectRatio;
+    let xScale: number;
+    let yScale: number;
+    switch (fit) {
+      case ImageFit.FILL:
+        xScale = scaleX;
+        yScale = scaleY;
+        break;
+      case ImageFit.COVER:
+      case ImageFit.OUTSIDE:
+        xScale = yScale = Math.max(scaleX, scaleY);
+        break;
+      case ImageFit.CONTAIN:
+        xScale = yScale = Math.min(scaleX, scaleY);
+        break;
+      default:
+        xScale = yScale = Math.min(1, scaleX, scaleY);
+    }
+    if (options?.withoutEnlargement) {
+      xScale = Math.min(1, xScale);
+      yScale = Math.min(1, yScale);
     }
 
-    if (height > maxHeight) {
-      height = maxHeight;
-      width = height * aspectRatio;
+    // Shrink uniformly, box included, to honour the max dimension
+    const limit = options?.maxDimension ?? MediaUtils.maxImageDimension;
+    const clamp = Math.min(
+      1,
+      limit / Math.max(originalWidth * xScale, originalHeight * yScale)
+    );
+    const width = Math.max(1, Math.round(originalWidth * xScale * clamp));
+    const height = Math.max(1, Math.round(originalHeight * yScale * clamp));
+
+    if (fit !== ImageFit.COVER) {
+      return { width, height };
     }
 
+    const cropWidth = Math.min(width, Math.round(boxWidth * clamp));
+    const cropHeight = Math.min(height, Math.round(boxHeight * clamp));
     return {
-      width: Math.round(width),
-      height: Math.round(height),
+      width,
+      height,
+      crop: {
+        originX: Math.floor((width - cropWidth) / 2),
+        originY: Math.floor((height - cropHeight) / 2),
+        width: cropWidth,
+        height: cropHeight,
+      },
     };
   }
 
   static isValidDimensions(width: number, height: number): boolean {
-    return width > 0 && height > 0 && width <= 8192 && height <= 8192;
+    const limit = MediaUtils.maxImageDimension;
+    return width > 0 && height > 0 && width <= limit && height <= limit;
   }
 
   static getQualityValue(quality: MediaQuality): number {
     return quality;
   }
 
+  /**
+   * Clamp a 0-1 encoder quality; invalid values use the default
+   */
+  static toQuality(value: number): MediaQuality {
+    if (!Number.isFinite(value)) {
+      return MEDIA_CONSTANTS.DEFAULT_QUALITY;
+    }
+    return Math.min(Math.max(value, 0), 1) as MediaQuality;
+  }
+
   static parseMediaType(mimeType: string): MediaType {
-    if (mimeType.startsWith("image/")) return MediaType.IMAGE;
-    if (mimeType.startsWith("video/")) return MediaType.VIDEO;
-    return MediaType.ALL;
+    switch (MimeRegistry.getCategory(mimeType)) {
+      case "image":
+        return MediaType.IMAGE;
+      case "video":
+        return MediaType.VIDEO;
+      case "audio":
+        return MediaType.AUDIO;
+      default:
+        return MediaType.ALL;
+    }
+  }
+
+  private static getUriCategory(uri: string): MimeCategory | undefined {
+    const mimeType = MediaUtils.getMimeTypeFromUri(uri);
+    return mimeType ? MimeRegistry.getCategory(mimeType) : undefined;
   }
 }
@@ -0,0 +1,181 @@
+/**
+ * Media Constraints Domain
+ *
+ * Declarative rules checked against picked assets.
+ */
+
+import type { MediaAsset } from "./Media";
+import { MediaType, MEDIA_CONSTANTS } from "./Media";
+import { MimeRegistry } from "./MimeRegistry";
+
+/**
+ * Constraints applied to picked assets.
+ * When constraints are given without `maxFileSize`, MEDIA_CONSTANTS
+ * MAX_IMAGE_SIZE / MAX_VIDEO_SIZE / MAX_AUDIO_SIZE apply.
+ */
+export interface MediaAssetConstraints {
+  maxFileSize?: number; // bytes
+  minWidth?: number;
+  minHeight?: number;
+  maxWidth?: number;
+  maxHeight?: number;
+  allowedMimeTypes?: string[]; // e.g. "image/png" or "image/*"
+  maxDuration?: number; // seconds
+  maxCount?: number;
+  /** "filter" drops offending assets, "reject" fails the whole pick */
+  mode?: "filter" | "reject";
+}
+
+export type MediaConstraintViolationCode =
+  | "file_too_large"
+  | "dimensions_too_small"
+  | "dimensions_too_large"
+  | "mime_type_not_allowed"
+  | "duration_too_long"
+  | "max_count_exceeded";
+
+export interface MediaConstraintViolation {
+  code: MediaConstraintViolationCode;
+  message: string;
+}
+
+export interface MediaAssetRejection {
+  asset: MediaAsset;
+  reasons: MediaConstraintViolation[];
+}
+
+export interface MediaConstraintResult {
+  accepted: MediaAsset[];
+  rejected: MediaAssetRejection[];
+}
+
+/**
+ * Constraint utilities
+ */
+export class MediaConstraintUtils {
+  static check(
+    asset: MediaAsset,
+    constraints: MediaAssetConstraints
+  ): MediaConstraintViolation[] {
+    const violations: MediaConstraintViolation[] = [];
+
+    const maxFileSize =
+      constraints.maxFileSize ?? MediaConstraintUtils.getDefaultMaxSize(asset);
+    if (asset.fileSize !== undefined && asset.fileSize > maxFileSize) {
+      violations.push({
+        code: "file_too_large",
+        message: `File size ${asset.fileSize} exceeds ${maxFileSize} bytes`,
+      });
+    }
+
+    if (
+      (constraints.minWidth !== undefined &&
+        asset.width < constraints.minWidth) ||
+      (constraints.minHeight !== undefined &&
+        asset.height < constraints.minHeight)
+    ) {
+      violations.push({
+        code: "dimensions_too_small",
+        message: `Dimensions ${asset.width}x${asset.height} are below the minimum`,
+      });
+    }
+
+    if (
+      (constraints.maxWidth !== undefined &&
+        asset.width > constraints.maxWidth) ||
+      (constraints.maxHeight !== undefined &&
+        asset.height > constraints.maxHeight)
+    ) {
+      violations.push({
+        code: "dimensions_too_large",
+        message: `Dimensions ${asset.width}x${asset.height} exceed the maximum`,
+      });
+    }
+
+    if (
+      constraints.allowedMimeTypes &&
+      !MediaConstraintUtils.isMimeTypeAllowed(
+        asset.mimeType,
+        constraints.allowedMimeTypes
+      )
+    ) {
+      violations.push({
+        code: "mime_type_not_allowed",
+        message: `MIME type ${asset.mimeType ?? "unknown"} is not allowed`,
+      });
+    }
+
+    // MediaAsset.duration is reported in milliseconds
+    if (
+      constraints.maxDuration !== undefined &&
+      asset.duration !== undefined &&
+      asset.duration / 1000 > constraints.maxDuration
+    ) {
+      violations.push({
+        code: "duration_too_long",
+        message: `Duration exceeds ${constraints.maxDuration} seconds`,
+      });
+    }
+
+    return violations;
+  }
+
+  static apply(
+    assets: MediaAsset[],
+    constraints: MediaAssetConstraints
+  ): MediaConstraintResult {
+    const accepted: MediaAsset[] = [];
+    const rejected: MediaAssetRejection[] = [];
+
+    for (const asset of assets) {
+      const reasons = MediaConstraintUtils.check(asset, constraints);
+      if (reasons.length > 0) {
+        rejected.push({ asset, reasons });
+      } else if (
+        constraints.maxCount !== undefined &&
+        accepted.length >= constraints.maxCount
+      ) {
+        rejected.push({
+          asset,
+          reasons: [
+            {
+              code: "max_count_exceeded",
+              message: `At most ${constraints.maxCount} assets can be picked`,
+            },
+          ],
+        });
+      } else {
+        accepted.push(asset);
+      }
+    }
+
+    return { accepted, rejected };
+  }
+
+  static isMimeTypeAllowed(
+    mimeType: string | undefined,
+    allowedMimeTypes: string[]
+  ): boolean {
+    if (!mimeType) return false;
+    // Aliases on either side (audio/mp3, video/mov) match their canonical type
+    const normalized = MimeRegistry.normalize(mimeType);
+    return allowedMimeTypes.some((allowed) => {
+      const pattern = MimeRegistry.normalize(allowed);
+      if (pattern.endsWith("/*")) {
+        return normalized.startsWith(pattern.slice(0, -1));
+      }
+      return normalized === pattern;
+    });
+  }
+
+  private static getDefaultMaxSize(asset: MediaAsset): number {
+    switch (asset.type) {
+      case MediaType.VIDEO:
+        return MEDIA_CONSTANTS.MAX_VIDEO_SIZE;
+      case MediaType.AUDIO:
+        return MEDIA_CONSTANTS.MAX_AUDIO_SIZE;
+      default:
+        return MEDIA_CONSTANTS.MAX_IMAGE_SIZE;
+    }
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Media Error Domain
+ *
+ * Shared error taxonomy for picking, saving and card media operations.
+ */
+
+/**
+ * Media error codes
+ */
+export enum MediaErrorCode {
+  PERMISSION_DENIED = "permission_denied",
+  PICKER_FAILED = "picker_failed",
+  INVALID_FILE = "invalid_file",
+  UNSUPPORTED_TYPE = "unsupported_type",
+  FILE_TOO_LARGE = "file_too_large",
+  CONSTRAINT_VIOLATION = "constraint_violation",
+  MANIPULATION_FAILED = "manipulation_failed",
+  METADATA_FAILED = "metadata_failed",
+  THUMBNAIL_FAILED = "thumbnail_failed",
+  SAVE_FAILED = "save_failed",
+  ALBUM_FAILED = "album_failed",
+  DELETE_FAILED = "delete_failed",
+  LIBRARY_FAILED = "library_failed",
+  UPLOAD_FAILED = "upload_failed",
+  STORAGE_FAILED = "storage_failed",
+  GENERATION_FAILED = "generation_failed",
+  VALIDATION_FAILED = "validation_failed",
+  CANCELED = "canceled",
+  UNKNOWN = "unknown",
+}
+
+/**
+ * Error carrying a MediaErrorCode and the original cause
+ */
+export class MediaError extends Error {
+  readonly code: MediaErrorCode;
+  readonly cause?: unknown;
+
+  constructor(code: MediaErrorCode, message: string, cause?: unknown) {
+    super(message);
+    this.name = "MediaError";
+    this.code = code;
+    this.cause = cause;
+  }
+
+  /**
+   * Wrap an unknown thrown value, keeping existing MediaErrors as-is
+   */
+  static from(
+    error: unknown,
+    code: MediaErrorCode = MediaErrorCode.UNKNOWN,
+    message?: string
+  ): MediaError {
+    if (error instanceof MediaError) {
+      return error;
+    }
+    const detail = error instanceof Error ? error.message : String(error);
+    return new MediaError(
+      code,
+      message ? `${message}: ${detail}` : detail,
+      error
+    );
+  }
+
+  static isMediaError(error: unknown): error is MediaError {
+    return error instanceof MediaError;
+  }
+}
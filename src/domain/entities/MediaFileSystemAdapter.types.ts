@@ -0,0 +1,84 @@
+/**
+ * Media File System Adapter Types
+ * Byte-level file access used for content sniffing, header parsing,
+ * lossless metadata rewriting and local media caches
+ */
+
+/**
+ * A file streamed from disk as the request body ("binary") or as the
+ * file field of a multipart/form-data body
+ */
+export interface FileUploadRequest {
+  url: string;
+  uri: string;
+  method: "POST" | "PUT" | "PATCH";
+  uploadType: "binary" | "multipart";
+  headers?: Record<string, string>;
+  /** Multipart file field */
+  fieldName?: string;
+  mimeType?: string;
+  /** Multipart text fields, sent before the file */
+  parameters?: Record<string, string>;
+  onProgress?: (sentBytes: number, totalBytes: number) => void;
+}
+
+export interface FileUploadResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+/**
+ * File system used by MediaFileService.
+ * The expo-file-system implementation is installed by default.
+ */
+export interface MediaFileSystemAdapter {
+  /**
+   * Read `length` bytes starting at `position` (local or http(s) URIs)
+   */
+  readBytes(uri: string, position: number, length: number): Promise<Uint8Array>;
+  getFileSize(uri: string): Promise<number | undefined>;
+  /**
+   * Write bytes to a new cache file and return its URI
+   */
+  writeBytes(bytes: Uint8Array, extension: string): Promise<string>;
+  /**
+   * Download an http(s) URL to a new cache file and return its URI.
+   * Non-2xx responses reject and leave no file behind.
+   */
+  downloadFile(
+    url: string,
+    extension: string,
+    headers?: Record<string, string>
+  ): Promise<string>;
+  /**
+   * Lowercase hex MD5 digest of a local file
+   */
+  getMd5(uri: string): Promise<string | undefined>;
+  /**
+   * Send a local file without loading it into memory. Any HTTP status
+   * resolves; only transport failures reject.
+   */
+  uploadFile(request: FileUploadRequest): Promise<FileUploadResponse>;
+  /**
+   * URI of a named directory in the app cache (trailing slash),
+   * created when missing
+   */
+  getCacheDirectory(name: string): Promise<string>;
+  /**
+   * URI of a named directory in the app documents (trailing slash),
+   * created when missing. Unlike the cache, the OS never purges it.
+   */
+  getDocumentDirectory(name: string): Promise<string>;
+  moveFile(from: string, to: string): Promise<void>;
+  copyFile(from: string, to: string): Promise<void>;
+  /**
+   * Delete a file; missing files are ignored
+   */
+  deleteFile(uri: string): Promise<void>;
+  /**
+   * Read a UTF-8 text file, null when it does not exist
+   */
+  readText(uri: string): Promise<string | null>;
+  writeText(uri: string, text: string): Promise<void>;
+}
@@ -0,0 +1,78 @@
+/**
+ * Media Library Adapter Types
+ * Contract between MediaLibraryService and the device gallery
+ */
+
+import type { MediaAsset, MediaType } from "./Media";
+import type { MediaPermissionDetails } from "./MediaPermission";
+
+export type MediaLibrarySortField =
+  "creationTime" | "modificationTime" | "duration";
+
+/**
+ * Gallery page request; every field is optional
+ */
+export interface MediaLibraryQuery {
+  /** Default MEDIA_CONSTANTS.LIBRARY_PAGE_SIZE */
+  pageSize?: number;
+  /** `endCursor` of the previous page */
+  after?: string;
+  /** ALL (the default) lists images and videos */
+  mediaType?: MediaType;
+  albumId?: string;
+  createdAfter?: Date | number;
+  createdBefore?: Date | number;
+  /** Default creationTime, newest first */
+  sortBy?: MediaLibrarySortField;
+  ascending?: boolean;
+}
+
+/**
+ * Normalised page request handed to an adapter.
+ * MediaLibraryService resolves defaults before calling the adapter.
+ */
+export interface MediaLibraryPageRequest {
+  first: number;
+  after?: string;
+  mediaTypes: MediaType[]; // IMAGE / VIDEO / AUDIO, never ALL
+  albumId?: string;
+  createdAfter?: number; // epoch milliseconds
+  createdBefore?: number;
+  sortBy: MediaLibrarySortField;
+  ascending: boolean;
+}
+
+/**
+ * One page of gallery assets; every asset carries its `assetId`
+ */
+export interface MediaLibraryPage {
+  assets: MediaAsset[];
+  endCursor?: string;
+  hasNextPage: boolean;
+  totalCount: number;
+}
+
+/**
+ * Library change notification. Ids are empty when not incremental.
+ */
+export interface MediaLibraryChange {
+  /** False when the change is too broad to describe; reload everything */
+  incremental: boolean;
+  insertedAssetIds: string[];
+  deletedAssetIds: string[];
+  updatedAssetIds: string[];
+}
+
+/**
+ * Gallery access used by MediaLibraryService.
+ * The expo-media-library implementation is installed by default.
+ */
+export interface MediaLibraryAdapter {
+  requestPermission(): Promise<MediaPermissionDetails>;
+  getPermission(): Promise<MediaPermissionDetails>;
+  getAssets(request: MediaLibraryPageRequest): Promise<MediaLibraryPage>;
+  /**
+   * Call `listener` whenever the library changes; returns the unsubscribe
+   */
+  addChangeListener(listener: (change: MediaLibraryChange) => void): () => void;
+}
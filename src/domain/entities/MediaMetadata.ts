@@ -0,0 +1,76 @@
+/**
+ * Media Metadata
+ *
+ * Capture details read from EXIF and XMP.
+ */
+
+import type { ImageDimensions } from "./Media";
+
+/**
+ * EXIF orientation (tag 0x0112).
+ * Describes how the stored pixels must be transformed to display upright.
+ */
+export enum ExifOrientation {
+  NORMAL = 1,
+  FLIP_HORIZONTAL = 2,
+  ROTATE_180 = 3,
+  FLIP_VERTICAL = 4,
+  TRANSPOSE = 5,
+  ROTATE_90 = 6,
+  TRANSVERSE = 7,
+  ROTATE_270 = 8,
+}
+
+/**
+ * GPS position, decimal degrees (south / west negative)
+ */
+export interface MediaLocation {
+  latitude: number;
+  longitude: number;
+  altitude?: number; // meters, negative below sea level
+}
+
+/**
+ * Device that captured the media
+ */
+export interface MediaCameraInfo {
+  make?: string;
+  model?: string;
+  lensModel?: string;
+  software?: string;
+}
+
+/**
+ * Metadata embedded in an image file
+ */
+export interface MediaMetadata {
+  /** ISO 8601; without a UTC offset when the file has none */
+  capturedAt?: string;
+  orientation?: ExifOrientation;
+  camera?: MediaCameraInfo;
+  location?: MediaLocation;
+}
+
+/**
+ * EXIF orientation utilities
+ */
+export class ExifOrientationUtils {
+  /**
+   * Orientations 5-8 rotate by 90 degrees, swapping width and height
+   */
+  static swapsDimensions(orientation: ExifOrientation): boolean {
+    return orientation >= ExifOrientation.TRANSPOSE;
+  }
+
+  /**
+   * Upright dimensions of an image stored with the given orientation
+   */
+  static getDisplayDimensions(
+    stored: ImageDimensions,
+    orientation: ExifOrientation
+  ): ImageDimensions {
+    return ExifOrientationUtils.swapsDimensions(orientation)
+      ? { width: stored.height, height: stored.width }
+      : stored;
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Media Permission Domain
+ *
+ * Detailed permission state shared by the picker and save services.
+ * Lets the UI tell "ask for the first time", "limited selection" and
+ * "permanently denied" apart.
+ */
+
+import { MediaLibraryPermission } from "./Media";
+
+/**
+ * Photo library access granted by the OS (iOS 14+ limited selection)
+ */
+export type MediaAccessPrivileges = "all" | "limited" | "none";
+
+/**
+ * Detailed permission result
+ */
+export interface MediaPermissionDetails {
+  status: MediaLibraryPermission;
+  /** True for GRANTED and LIMITED - media can be accessed */
+  granted: boolean;
+  canAskAgain: boolean;
+  /** Denied and the OS will not show the prompt again - send to settings */
+  blocked: boolean;
+  accessPrivileges?: MediaAccessPrivileges;
+  expires: "never" | number;
+}
+
+/**
+ * Native permission response shape shared by expo modules
+ */
+export interface NativePermissionResponse {
+  status: string;
+  canAskAgain: boolean;
+  expires: "never" | number;
+  accessPrivileges?: MediaAccessPrivileges;
+}
+
+/**
+ * Permission utilities
+ */
+export class MediaPermissionUtils {
+  static fromNativeResponse(
+    response: NativePermissionResponse
+  ): MediaPermissionDetails {
+    const status = MediaPermissionUtils.mapNativeStatus(
+      response.status,
+      response.accessPrivileges
+    );
+
+    return {
+      status,
+      granted: MediaPermissionUtils.isGranted(status),
+      canAskAgain: response.canAskAgain,
+      blocked:
+        status === MediaLibraryPermission.DENIED && !response.canAskAgain,
+      accessPrivileges: response.accessPrivileges,
+      expires: response.expires,
+    };
+  }
+
+  static fromStatus(
+    status: MediaLibraryPermission,
+    canAskAgain: boolean = true
+  ): MediaPermissionDetails {
+    return {
+      status,
+      granted: MediaPermissionUtils.isGranted(status),
+      canAskAgain,
+      blocked: status === MediaLibraryPermission.DENIED && !canAskAgain,
+      accessPrivileges:
+        status === MediaLibraryPermission.GRANTED
+          ? "all"
+          : status === MediaLibraryPermission.LIMITED
+            ? "limited"
+            : "none",
+      expires: "never",
+    };
+  }
+
+  static isGranted(status: MediaLibraryPermission): boolean {
+    return (
+      status === MediaLibraryPermission.GRANTED ||
+      status === MediaLibraryPermission.LIMITED
+    );
+  }
+
+  private static mapNativeStatus(
+    status: string,
+    accessPrivileges?: MediaAccessPrivileges
+  ): MediaLibraryPermission {
+    switch (status) {
+      case "granted":
+        return accessPrivileges === "limited"
+          ? MediaLibraryPermission.LIMITED
+          : MediaLibraryPermission.GRANTED;
+      case "undetermined":
+        return MediaLibraryPermission.UNDETERMINED;
+      case "denied":
+        return MediaLibraryPermission.DENIED;
+      default:
+        return MediaLibraryPermission.DENIED;
+    }
+  }
+}
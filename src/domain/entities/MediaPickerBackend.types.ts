@@ -0,0 +1,43 @@
+/**
+ * Media Picker Backend Types
+ * Contract between MediaPickerService and the native (or fake) picker
+ */
+
+import type { MediaAsset, MediaQuality, MediaType } from "./Media";
+import type { MediaPermissionDetails } from "./MediaPermission";
+
+/**
+ * Normalised launch options handed to a backend.
+ * MediaPickerService resolves defaults before calling the backend.
+ */
+export interface MediaLaunchOptions {
+  mediaTypes: MediaType;
+  allowsEditing: boolean;
+  allowsMultipleSelection: boolean;
+  aspect?: [number, number];
+  quality: MediaQuality;
+  selectionLimit?: number;
+  base64: boolean;
+  videoMaxDuration?: number;
+}
+
+/**
+ * Raw result returned by a backend before post-processing
+ */
+export interface MediaBackendResult {
+  canceled: boolean;
+  assets?: MediaAsset[];
+}
+
+/**
+ * Picker backend used by MediaPickerService.
+ * The expo-image-picker implementation is installed by default.
+ */
+export interface MediaPickerBackend {
+  requestCameraPermission(): Promise<MediaPermissionDetails>;
+  requestMediaLibraryPermission(): Promise<MediaPermissionDetails>;
+  getCameraPermission(): Promise<MediaPermissionDetails>;
+  getMediaLibraryPermission(): Promise<MediaPermissionDetails>;
+  launchCamera(options: MediaLaunchOptions): Promise<MediaBackendResult>;
+  launchLibrary(options: MediaLaunchOptions): Promise<MediaBackendResult>;
+}
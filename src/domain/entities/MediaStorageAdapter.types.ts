@@ -0,0 +1,83 @@
+/**
+ * Media Storage Adapter Types
+ * Contract between CardMultimediaFlashcardService and remote storage
+ */
+
+/**
+ * A local file to store under `key`
+ */
+export interface StorageUploadRequest {
+  key: string;
+  uri: string;
+  filename: string;
+  mimeType: string;
+  fileSize?: number;
+}
+
+/**
+ * An object held by the storage backend
+ */
+export interface StoredMedia {
+  key: string;
+  url: string;
+  size?: number;
+}
+
+export interface StorageUploadOptions {
+  /** Called as bytes are confirmed by the backend */
+  onProgress?: (uploadedBytes: number, totalBytes: number) => void;
+}
+
+/**
+ * An unfinished resumable upload, persisted across app restarts
+ */
+export interface ResumableUploadSession {
+  key: string;
+  uri: string;
+  filename: string;
+  mimeType: string;
+  size: number; // bytes
+  offset: number; // bytes confirmed by the server
+  uploadUrl: string;
+  updatedAt: number; // epoch ms
+}
+
+/**
+ * Remote storage used by CardMultimediaFlashcardService.
+ * Objects are keyed by attachment id; no adapter is installed by default.
+ */
+export interface MediaStorageAdapter {
+  upload(
+    request: StorageUploadRequest,
+    options?: StorageUploadOptions,
+  ): Promise<StoredMedia>;
+  /**
+   * Delete an object; missing objects are ignored
+   */
+  delete(key: string): Promise<void>;
+  /**
+   * URL the object can be fetched from, possibly short-lived
+   */
+  getUrl(key: string): Promise<string>;
+  /**
+   * Download an object to a local cache file and return its URI
+   */
+  download(key: string): Promise<string>;
+}
+
+/**
+ * Storage that uploads in chunks and can continue where it stopped.
+ * Uploading a key with an unfinished session for the same file resumes it.
+ */
+export interface ResumableMediaStorageAdapter extends MediaStorageAdapter {
+  /**
+   * Stop a running upload after its current chunk; it rejects with
+   * MediaErrorCode.CANCELED and its session is kept
+   */
+  pause(key: string): Promise<void>;
+  /**
+   * Stop an upload and drop its session and partial server data
+   */
+  discard(key: string): Promise<void>;
+  getPendingUploads(): Promise<ResumableUploadSession[]>;
+}
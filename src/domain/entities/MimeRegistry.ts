@@ -0,0 +1,188 @@
+/**
+ * MIME Registry
+ *
+ * Canonical MIME types supported by the library, with their category
+ * and file extensions. The first extension is the preferred one.
+ */
+
+/**
+ * Media category of a MIME type.
+ * Same values as CardMediaType and the matching MediaType members.
+ */
+export type MimeCategory = "image" | "video" | "audio";
+
+export interface MimeTypeEntry {
+  mimeType: string;
+  category: MimeCategory;
+  extensions: readonly string[];
+  /** Non-standard names reported by pickers and browsers */
+  aliases: readonly string[];
+}
+
+export const MIME_REGISTRY: readonly MimeTypeEntry[] = [
+  {
+    mimeType: "image/jpeg",
+    category: "image",
+    extensions: ["jpg", "jpeg", "jpe", "jfif"],
+    aliases: ["image/jpg", "image/pjpeg"],
+  },
+  {
+    mimeType: "image/png",
+    category: "image",
+    extensions: ["png"],
+    aliases: ["image/x-png"],
+  },
+  {
+    mimeType: "image/gif",
+    category: "image",
+    extensions: ["gif"],
+    aliases: [],
+  },
+  {
+    mimeType: "image/webp",
+    category: "image",
+    extensions: ["webp"],
+    aliases: ["image/x-webp"],
+  },
+  {
+    mimeType: "image/heic",
+    category: "image",
+    extensions: ["heic"],
+    aliases: ["image/heic-sequence"],
+  },
+  {
+    mimeType: "image/heif",
+    category: "image",
+    extensions: ["heif"],
+    aliases: ["image/heif-sequence"],
+  },
+  {
+    mimeType: "image/avif",
+    category: "image",
+    extensions: ["avif"],
+    aliases: ["image/avif-sequence"],
+  },
+  {
+    mimeType: "video/mp4",
+    category: "video",
+    extensions: ["mp4", "m4v"],
+    aliases: ["video/x-m4v", "video/mpeg4"],
+  },
+  {
+    mimeType: "video/quicktime",
+    category: "video",
+    extensions: ["mov", "qt"],
+    aliases: ["video/mov", "video/x-quicktime"],
+  },
+  {
+    mimeType: "video/3gpp",
+    category: "video",
+    extensions: ["3gp"],
+    aliases: ["video/3gp"],
+  },
+  {
+    mimeType: "audio/mpeg",
+    category: "audio",
+    extensions: ["mp3"],
+    aliases: ["audio/mp3", "audio/mpeg3", "audio/x-mp3", "audio/x-mpeg"],
+  },
+  {
+    mimeType: "audio/wav",
+    category: "audio",
+    extensions: ["wav"],
+    aliases: ["audio/x-wav", "audio/wave", "audio/vnd.wave"],
+  },
+  {
+    mimeType: "audio/mp4",
+    category: "audio",
+    extensions: ["m4a"],
+    aliases: ["audio/m4a", "audio/x-m4a", "audio/mp4a-latm"],
+  },
+  {
+    mimeType: "audio/ogg",
+    category: "audio",
+    extensions: ["ogg", "oga", "opus"],
+    aliases: ["audio/x-ogg", "audio/opus"],
+  },
+  {
+    mimeType: "audio/aac",
+    category: "audio",
+    extensions: ["aac"],
+    aliases: ["audio/x-aac", "audio/aacp"],
+  },
+];
+
+/**
+ * MIME registry lookups
+ */
+export class MimeRegistry {
+  /**
+   * Canonical form: lower-case, no parameters, aliases resolved
+   * ("Audio/MP3; codecs=mp3" -> "audio/mpeg").
+   * Unknown types are returned lower-cased.
+   */
+  static normalize(mimeType: string): string {
+    const cleaned = mimeType.split(";")[0].trim().toLowerCase();
+    const entry = MIME_REGISTRY.find(
+      (candidate) =>
+        candidate.mimeType === cleaned || candidate.aliases.includes(cleaned)
+    );
+    return entry ? entry.mimeType : cleaned;
+  }
+
+  static get(mimeType: string): MimeTypeEntry | undefined {
+    const normalized = MimeRegistry.normalize(mimeType);
+    return MIME_REGISTRY.find((entry) => entry.mimeType === normalized);
+  }
+
+  /**
+   * Canonical MIME types, optionally limited to one category
+   */
+  static getMimeTypes(category?: MimeCategory): string[] {
+    return MIME_REGISTRY.filter(
+      (entry) => !category || entry.category === category
+    ).map((entry) => entry.mimeType);
+  }
+
+  /**
+   * Known extensions (without dot), optionally limited to one category
+   */
+  static getExtensions(category?: MimeCategory): string[] {
+    return MIME_REGISTRY.filter(
+      (entry) => !category || entry.category === category
+    ).flatMap((entry) => entry.extensions);
+  }
+
+  /**
+   * Same MIME type once aliases are resolved
+   */
+  static isSame(first: string, second: string): boolean {
+    return MimeRegistry.normalize(first) === MimeRegistry.normalize(second);
+  }
+
+  static fromExtension(extension: string): MimeTypeEntry | undefined {
+    const normalized = extension.replace(/^\./, "").toLowerCase();
+    return MIME_REGISTRY.find((entry) => entry.extensions.includes(normalized));
+  }
+
+  static isSupported(mimeType: string): boolean {
+    return MimeRegistry.get(mimeType) !== undefined;
+  }
+
+  /**
+   * Category from the registry, falling back to the MIME prefix
+   */
+  static getCategory(mimeType: string): MimeCategory | undefined {
+    const entry = MimeRegistry.get(mimeType);
+    if (entry) return entry.category;
+
+    const prefix = MimeRegistry.normalize(mimeType).split("/")[0];
+    return prefix === "image" || prefix === "video" || prefix === "audio"
+      ? prefix
+      : undefined;
+  }
+
+  static getExtension(mimeType: string): string | undefined {
+    return MimeRegistry.get(mimeType)?.extensions[0];
+  }
+}
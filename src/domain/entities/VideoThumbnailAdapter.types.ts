@@ -0,0 +1,29 @@
+/**
+ * Video Thumbnail Adapter Types
+ * Contract between MediaThumbnailService and the native frame extractor
+ */
+
+/**
+ * Frame written by an adapter
+ */
+export interface VideoFrame {
+  uri: string;
+  width: number;
+  height: number;
+}
+
+export interface VideoFrameOptions {
+  time: number; // milliseconds from the start
+  quality: number; // 0-1
+}
+
+/**
+ * Frame extractor used by MediaThumbnailService.
+ * The expo-video-thumbnails implementation is installed by default.
+ */
+export interface VideoThumbnailAdapter {
+  /**
+   * Write the frame at `options.time` as an image file
+   */
+  getFrame(uri: string, options: VideoFrameOptions): Promise<VideoFrame>;
+}
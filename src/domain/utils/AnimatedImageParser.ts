@@ -0,0 +1,257 @@
+/**
+ * Animated Image Parser
+ * Reads frame count, loop duration and loop count from GIF and WebP files
+ */
+
+import type { ImageAnimationInfo } from "../entities/Media";
+
+/**
+ * Browsers play GIF frames with a 0 or 1 centisecond delay at 100ms
+ */
+const GIF_MIN_FRAME_DELAY_MS = 20;
+const GIF_DEFAULT_FRAME_DELAY_MS = 100;
+
+const WEBP_VP8X_ANIMATION_FLAG = 0x02;
+
+/**
+ * Bytes at [position, position + length); shorter past the end
+ */
+export type ByteReader = (
+  position: number,
+  length: number
+) => Promise<Uint8Array>;
+
+/**
+ * Bytes fetched per read; GIF sub-blocks are at most 256 bytes apart
+ */
+const READ_WINDOW_SIZE = 64 * 1024;
+
+/**
+ * Serves the parser's small reads from one cached window of the source
+ */
+class WindowedReader {
+  private window: Uint8Array = new Uint8Array(0);
+  private start = 0;
+
+  constructor(
+    private readonly read: ByteReader,
+    readonly length: number
+  ) {}
+
+  async bytes(offset: number, length: number): Promise<Uint8Array> {
+    const end = Math.min(offset + length, this.length);
+    if (end <= offset) {
+      return new Uint8Array(0);
+    }
+    if (offset < this.start || end > this.start + this.window.length) {
+      this.start = offset;
+      this.window = await this.read(
+        offset,
+        Math.min(Math.max(length, READ_WINDOW_SIZE), this.length - offset)
+      );
+    }
+    return this.window.subarray(offset - this.start, end - this.start);
+  }
+
+  async byte(offset: number): Promise<number | undefined> {
+    return (await this.bytes(offset, 1))[0];
+  }
+}
+
+export class AnimatedImageParser {
+  /**
+   * Parse animation metadata from a whole file in memory.
+   * Returns null for static images and for unsupported formats.
+   * Truncated input is parsed up to its last complete frame.
+   */
+  static async parse(bytes: Uint8Array): Promise<ImageAnimationInfo | null> {
+    return AnimatedImageParser.scan(
+      async (position, length) => bytes.subarray(position, position + length),
+      bytes.length
+    );
+  }
+
+  /**
+   * Parse animation metadata from the first `length` bytes of a source,
+   * reading it in windows rather than all at once
+   */
+  static async scan(
+    read: ByteReader,
+    length: number
+  ): Promise<ImageAnimationInfo | null> {
+    const source = new WindowedReader(read, length);
+    const header = await source.bytes(0, 12);
+    const signature = AnimatedImageParser.ascii(header, 0, 6);
+    if (signature === "GIF87a" || signature === "GIF89a") {
+      return AnimatedImageParser.parseGif(source);
+    }
+    if (
+      AnimatedImageParser.ascii(header, 0, 4) === "RIFF" &&
+      AnimatedImageParser.ascii(header, 8, 4) === "WEBP"
+    ) {
+      return AnimatedImageParser.parseWebp(source);
+    }
+    return null;
+  }
+
+  /**
+   * Walk GIF blocks: graphic control extensions carry frame delays,
+   * image descriptors mark frames, NETSCAPE2.0 carries the loop count.
+   */
+  private static async parseGif(
+    source: WindowedReader
+  ): Promise<ImageAnimationInfo | null> {
+    let offset = 13;
+    const screenFlags = (await source.byte(10)) ?? 0;
+    if (screenFlags & 0x80) {
+      offset += 3 * (1 << ((screenFlags & 0x07) + 1));
+    }
+
+    let frameCount = 0;
+    let duration = 0;
+    let pendingDelay: number | null = null;
+    let loopCount = 1;
+
+    while (offset < source.length) {
+      const introducer = await source.byte(offset);
+
+      if (introducer === 0x3b) {
+        break;
+      }
+
+      if (introducer === 0x21) {
+        // Label, then the first sub-block of the extension
+        const block = await source.bytes(offset + 1, 17);
+        const label = block[0];
+
+        if (label === 0xf9 && block.length > 5) {
+          // Delay is little-endian, in hundredths of a second
+          pendingDelay = (block[3] | (block[4] << 8)) * 10;
+        } else if (
+          label === 0xff &&
+          AnimatedImageParser.ascii(block, 2, 11) === "NETSCAPE2.0" &&
+          block[14] === 0x01
+        ) {
+          const repeat = block[15] | (block[16] << 8);
+          loopCount = repeat === 0 ? 0 : repeat + 1;
+        }
+
+        offset = await AnimatedImageParser.skipGifSubBlocks(source, offset + 2);
+        continue;
+      }
+
+      if (introducer === 0x2c) {
+        const imageFlags = (await source.byte(offset + 9)) ?? 0;
+        offset += 10;
+        if (imageFlags & 0x80) {
+          offset += 3 * (1 << ((imageFlags & 0x07) + 1));
+        }
+        // LZW minimum code size, then the image data sub-blocks
+        offset = await AnimatedImageParser.skipGifSubBlocks(source, offset + 1);
+        if (offset > source.length) {
+          break;
+        }
+
+        frameCount++;
+        duration +=
+          pendingDelay === null || pendingDelay < GIF_MIN_FRAME_DELAY_MS
+            ? GIF_DEFAULT_FRAME_DELAY_MS
+            : pendingDelay;
+        pendingDelay = null;
+        continue;
+      }
+
+      // Unknown block - the rest of the file cannot be trusted
+      break;
+    }
+
+    return frameCount > 1 ? { frameCount, duration, loopCount } : null;
+  }
+
+  /**
+   * Returns the offset just past the block terminator
+   */
+  private static async skipGifSubBlocks(
+    source: WindowedReader,
+    offset: number
+  ): Promise<number> {
+    while (offset < source.length) {
+      const size = await source.byte(offset);
+      if (size === undefined) {
+        break;
+      }
+      offset += 1;
+      if (size === 0) {
+        return offset;
+      }
+      offset += size;
+    }
+    return source.length + 1;
+  }
+
+  /**
+   * Walk RIFF chunks: VP8X flags the animation, ANIM carries the loop
+   * count and every ANMF chunk is one frame with its own duration.
+   * Only chunk headers are read; frame data is skipped.
+   */
+  private static async parseWebp(
+    source: WindowedReader
+  ): Promise<ImageAnimationInfo | null> {
+    let offset = 12;
+    let animated = false;
+    let frameCount = 0;
+    let duration = 0;
+    let loopCount = 0;
+
+    while (offset + 8 <= source.length) {
+      // Chunk header, then the fields read from its data
+      const chunk = await source.bytes(offset, 8 + 15);
+      if (chunk.length < 8) {
+        break;
+      }
+      const fourCC = AnimatedImageParser.ascii(chunk, 0, 4);
+      const size = AnimatedImageParser.readUint32LE(chunk, 4);
+
+      if (fourCC === "VP8X") {
+        animated = (chunk[8] & WEBP_VP8X_ANIMATION_FLAG) !== 0;
+        if (!animated) {
+          return null;
+        }
+      } else if (fourCC === "ANIM" && chunk.length >= 8 + 6) {
+        loopCount = chunk[12] | (chunk[13] << 8);
+      } else if (fourCC === "ANMF" && chunk.length >= 8 + 15) {
+        frameCount++;
+        duration += chunk[20] | (chunk[21] << 8) | (chunk[22] << 16);
+      } else if (fourCC === "VP8 " || fourCC === "VP8L") {
+        // Simple (lossy / lossless) WebP: a single still frame
+        return null;
+      }
+
+      // Chunks are padded to an even size
+      offset += 8 + size + (size & 1);
+    }
+
+    return animated && frameCount > 1
+      ? { frameCount, duration, loopCount }
+      : null;
+  }
+
+  private static ascii(
+    bytes: Uint8Array,
+    offset: number,
+    length: number
+  ): string {
+    if (bytes.length < offset + length) return "";
+    return String.fromCharCode(...bytes.subarray(offset, offset + length));
+  }
+
+  private static readUint32LE(bytes: Uint8Array, offset: number): number {
+    return (
+      (bytes[offset] |
+        (bytes[offset + 1] << 8) |
+        (bytes[offset + 2] << 16) |
+        (bytes[offset + 3] << 24)) >>>
+      0
+    );
+  }
+}
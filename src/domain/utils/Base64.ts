@@ -0,0 +1,69 @@
+/**
+ * Base64 Utilities
+ * Dependency-free base64 <-> bytes conversion (Hermes has no Buffer)
+ */
+
+const ALPHABET =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+const LOOKUP = (() => {
+  const table = new Int16Array(128).fill(-1);
+  for (let i = 0; i < ALPHABET.length; i++) {
+    table[ALPHABET.charCodeAt(i)] = i;
+  }
+  // URL-safe variants
+  table["-".charCodeAt(0)] = 62;
+  table["_".charCodeAt(0)] = 63;
+  return table;
+})();
+
+export class Base64 {
+  static decode(input: string): Uint8Array {
+    const clean = input.replace(/[^A-Za-z0-9+/\-_]/g, "");
+    const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+    let buffer = 0;
+    let bits = 0;
+    let offset = 0;
+
+    for (let i = 0; i < clean.length; i++) {
+      buffer = (buffer << 6) | LOOKUP[clean.charCodeAt(i)];
+      bits += 6;
+      if (bits >= 8) {
+        bits -= 8;
+        bytes[offset++] = (buffer >> bits) & 0xff;
+      }
+    }
+
+    return offset === bytes.length ? bytes : bytes.subarray(0, offset);
+  }
+
+  static encode(bytes: Uint8Array): string {
+    let output = "";
+    let i = 0;
+
+    for (; i + 2 < bytes.length; i += 3) {
+      const chunk = (bytes[i] << 16) | (bytes[i + 1] << 8) | bytes[i + 2];
+      output +=
+        ALPHABET[(chunk >> 18) & 63] +
+        ALPHABET[(chunk >> 12) & 63] +
+        ALPHABET[(chunk >> 6) & 63] +
+        ALPHABET[chunk & 63];
+    }
+
+    const remaining = bytes.length - i;
+    if (remaining === 1) {
+      const chunk = bytes[i] << 16;
+      output +=
+        ALPHABET[(chunk >> 18) & 63] + ALPHABET[(chunk >> 12) & 63] + "==";
+    } else if (remaining === 2) {
+      const chunk = (bytes[i] << 16) | (bytes[i + 1] << 8);
+      output +=
+        ALPHABET[(chunk >> 18) & 63] +
+        ALPHABET[(chunk >> 12) & 63] +
+        ALPHABET[(chunk >> 6) & 63] +
+        "=";
+    }
+
+    return output;
+  }
+}
@@ -0,0 +1,484 @@
+/**
+ * EXIF Reader
+ * Reads capture date, orientation, camera and location from EXIF and XMP
+ * in JPEG, PNG and WebP files
+ */
+
+import type {
+  ExifOrientation,
+  MediaCameraInfo,
+  MediaLocation,
+  MediaMetadata,
+} from "../entities/MediaMetadata";
+
+/**
+ * Raw metadata blocks found in a file
+ */
+export interface ImageMetadataBlocks {
+  /** TIFF structure (byte order header + IFDs) */
+  exif?: Uint8Array;
+  xmp?: string;
+}
+
+const EXIF_HEADER = "Exif\0\0";
+const XMP_HEADER = "http://ns.adobe.com/xap/1.0/\0";
+const PNG_XMP_KEYWORD = "XML:com.adobe.xmp";
+
+const TAG = {
+  MAKE: 0x010f,
+  MODEL: 0x0110,
+  ORIENTATION: 0x0112,
+  SOFTWARE: 0x0131,
+  DATE_TIME: 0x0132,
+  EXIF_IFD: 0x8769,
+  GPS_IFD: 0x8825,
+  DATE_TIME_ORIGINAL: 0x9003,
+  DATE_TIME_DIGITIZED: 0x9004,
+  OFFSET_TIME_ORIGINAL: 0x9011,
+  LENS_MODEL: 0xa434,
+  GPS_LATITUDE_REF: 0x0001,
+  GPS_LATITUDE: 0x0002,
+  GPS_LONGITUDE_REF: 0x0003,
+  GPS_LONGITUDE: 0x0004,
+  GPS_ALTITUDE_REF: 0x0005,
+  GPS_ALTITUDE: 0x0006,
+} as const;
+
+/**
+ * Byte size of each TIFF field type
+ */
+const TYPE_SIZES: Record<number, number> = {
+  1: 1,
+  2: 1,
+  3: 2,
+  4: 4,
+  5: 8,
+  7: 1,
+  9: 4,
+  10: 8,
+};
+
+export class ExifReader {
+  /**
+   * Read metadata from a whole file (or its leading bytes for JPEG).
+   * EXIF wins over XMP; XMP only fills the gaps.
+   */
+  static read(bytes: Uint8Array): MediaMetadata | null {
+    const blocks = ExifReader.findBlocks(bytes);
+    const fromExif = blocks.exif ? ExifReader.readTiff(blocks.exif) : {};
+    const fromXmp = blocks.xmp ? ExifReader.readXmp(blocks.xmp) : {};
+
+    const camera: MediaCameraInfo = { ...fromXmp.camera, ...fromExif.camera };
+    const metadata: MediaMetadata = {
+      capturedAt: fromExif.capturedAt ?? fromXmp.capturedAt,
+      orientation: fromExif.orientation ?? fromXmp.orientation,
+      camera: Object.keys(camera).length > 0 ? camera : undefined,
+      location: fromExif.location ?? fromXmp.location,
+    };
+
+    return ExifReader.compact(metadata) ?? null;
+  }
+
+  /**
+   * Locate the EXIF and XMP blocks of a JPEG, PNG or WebP file
+   */
+  static findBlocks(bytes: Uint8Array): ImageMetadataBlocks {
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+      return ExifReader.findJpegBlocks(bytes);
+    }
+    if (ExifReader.ascii(bytes, 1, 3) === "PNG") {
+      return ExifReader.findPngBlocks(bytes);
+    }
+    if (
+      ExifReader.ascii(bytes, 0, 4) === "RIFF" &&
+      ExifReader.ascii(bytes, 8, 4) === "WEBP"
+    ) {
+      return ExifReader.findWebpBlocks(bytes);
+    }
+    return {};
+  }
+
+  /**
+   * Orientation from a TIFF block, used when rewriting metadata
+   */
+  static readOrientation(tiff: Uint8Array): ExifOrientation | undefined {
+    return ExifReader.readTiff(tiff).orientation;
+  }
+
+  private static findJpegBlocks(bytes: Uint8Array): ImageMetadataBlocks {
+    const blocks: ImageMetadataBlocks = {};
+    let offset = 2;
+
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+      const marker = bytes[offset + 1];
+      // Start of scan: metadata segments always come before image data
+      if (marker === 0xda || marker === 0xd9) {
+        break;
+      }
+
+      const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+      const start = offset + 4;
+      const end = Math.min(offset + 2 + length, bytes.length);
+
+      if (marker === 0xe1) {
+        if (
+          !blocks.exif &&
+          ExifReader.ascii(bytes, start, EXIF_HEADER.length) === EXIF_HEADER
+        ) {
+          blocks.exif = bytes.subarray(start + EXIF_HEADER.length, end);
+        } else if (
+          !blocks.xmp &&
+          ExifReader.ascii(bytes, start, XMP_HEADER.length) === XMP_HEADER
+        ) {
+          blocks.xmp = ExifReader.text(
+            bytes.subarray(start + XMP_HEADER.length, end)
+          );
+        }
+      }
+
+      offset += 2 + length;
+    }
+
+    return blocks;
+  }
+
+  private static findPngBlocks(bytes: Uint8Array): ImageMetadataBlocks {
+    const blocks: ImageMetadataBlocks = {};
+    let offset = 8;
+
+    while (offset + 8 <= bytes.length) {
+      const length = ExifReader.readUint32(bytes, offset, false);
+      const type = ExifReader.ascii(bytes, offset + 4, 4);
+      const data = bytes.subarray(
+        offset + 8,
+        Math.min(offset + 8 + length, bytes.length)
+      );
+
+      if (type === "eXIf") {
+        blocks.exif = data;
+      } else if (
+        type === "iTXt" &&
+        ExifReader.ascii(data, 0, PNG_XMP_KEYWORD.length) === PNG_XMP_KEYWORD
+      ) {
+        // keyword \0 compression flag, method, language \0, translated \0
+        let textStart = PNG_XMP_KEYWORD.length + 3;
+        for (let nulls = 0; textStart < data.length && nulls < 2;) {
+          if (data[textStart++] === 0) nulls++;
+        }
+        if (data[PNG_XMP_KEYWORD.length + 1] === 0) {
+          blocks.xmp = ExifReader.text(data.subarray(textStart));
+        }
+      } else if (type === "IEND") {
+        break;
+      }
+
+      offset += 12 + length;
+    }
+
+    return blocks;
+  }
+
+  private static findWebpBlocks(bytes: Uint8Array): ImageMetadataBlocks {
+    const blocks: ImageMetadataBlocks = {};
+    let offset = 12;
+
+    while (offset + 8 <= bytes.length) {
+      const fourCC = ExifReader.ascii(bytes, offset, 4);
+      const size = ExifReader.readUint32(bytes, offset + 4, true);
+      const data = bytes.subarray(
+        offset + 8,
+        Math.min(offset + 8 + size, bytes.length)
+      );
+
+      if (fourCC === "EXIF") {
+        // Some encoders keep the JPEG "Exif\0\0" prefix
+        blocks.exif =
+          ExifReader.ascii(data, 0, EXIF_HEADER.length) === EXIF_HEADER
+            ? data.subarray(EXIF_HEADER.length)
+            : data;
+      } else if (fourCC === "XMP ") {
+        blocks.xmp = ExifReader.text(data);
+      }
+
+      offset += 8 + size + (size & 1);
+    }
+
+    return blocks;
+  }
+
+  private static readTiff(tiff: Uint8Array): MediaMetadata {
+    const order = ExifReader.ascii(tiff, 0, 2);
+    if (order !== "II" && order !== "MM") {
+      return {};
+    }
+
+    const reader = new TiffReader(tiff, order === "II");
+    const ifd0 = reader.readIfd(reader.uint32(4));
+    const exifOffset = reader.getNumber(ifd0, TAG.EXIF_IFD);
+    const gpsOffset = reader.getNumber(ifd0, TAG.GPS_IFD);
+    const exif = exifOffset ? reader.readIfd(exifOffset) : new Map();
+    const gps = gpsOffset ? reader.readIfd(gpsOffset) : new Map();
+
+    const dateTime =
+      reader.getString(exif, TAG.DATE_TIME_ORIGINAL) ??
+      reader.getString(exif, TAG.DATE_TIME_DIGITIZED) ??
+      reader.getString(ifd0, TAG.DATE_TIME);
+    const orientation = reader.getNumber(ifd0, TAG.ORIENTATION);
+
+    return {
+      capturedAt: dateTime
+        ? ExifReader.toIsoDate(
+            dateTime,
+            reader.getString(exif, TAG.OFFSET_TIME_ORIGINAL)
+          )
+        : undefined,
+      orientation:
+        orientation && orientation >= 1 && orientation <= 8
+          ? (orientation as ExifOrientation)
+          : undefined,
+      camera: ExifReader.compact({
+        make: reader.getString(ifd0, TAG.MAKE),
+        model: reader.getString(ifd0, TAG.MODEL),
+        lensModel: reader.getString(exif, TAG.LENS_MODEL),
+        software: reader.getString(ifd0, TAG.SOFTWARE),
+      }),
+      location: ExifReader.readGps(reader, gps),
+    };
+  }
+
+  private static readGps(
+    reader: TiffReader,
+    gps: Map<number, number>
+  ): MediaLocation | undefined {
+    const latitude = reader.getRationals(gps, TAG.GPS_LATITUDE);
+    const longitude = reader.getRationals(gps, TAG.GPS_LONGITUDE);
+    if (latitude.length < 3 || longitude.length < 3) {
+      return undefined;
+    }
+
+    const toDegrees = ([degrees, minutes, seconds]: number[]) =>
+      degrees + minutes / 60 + seconds / 3600;
+    const latitudeSign =
+      reader.getString(gps, TAG.GPS_LATITUDE_REF) === "S" ? -1 : 1;
+    const longitudeSign =
+      reader.getString(gps, TAG.GPS_LONGITUDE_REF) === "W" ? -1 : 1;
+    const [altitude] = reader.getRationals(gps, TAG.GPS_ALTITUDE);
+    const belowSeaLevel = reader.getNumber(gps, TAG.GPS_ALTITUDE_REF) === 1;
+
+    return ExifReader.compact({
+      latitude: latitudeSign * toDegrees(latitude),
+      longitude: longitudeSign * toDegrees(longitude),
+      altitude:
+        altitude === undefined
+          ? undefined
+          : belowSeaLevel
+            ? -altitude
+            : altitude,
+    });
+  }
+
+  private static readXmp(xmp: string): MediaMetadata {
+    const value = (name: string): string | undefined => {
+      const match =
+        xmp.match(new RegExp(`${name}="([^"]*)"`)) ??
+        xmp.match(new RegExp(`<${name}>([^<]*)</${name}>`));
+      return match?.[1].trim() || undefined;
+    };
+
+    const orientation = Number(value("tiff:Orientation"));
+    const latitude = ExifReader.parseXmpCoordinate(value("exif:GPSLatitude"));
+    const longitude = ExifReader.parseXmpCoordinate(value("exif:GPSLongitude"));
+
+    return {
+      capturedAt:
+        value("exif:DateTimeOriginal") ??
+        value("photoshop:DateCreated") ??
+        value("xmp:CreateDate"),
+      orientation:
+        orientation >= 1 && orientation <= 8
+          ? (orientation as ExifOrientation)
+          : undefined,
+      camera: ExifReader.compact({
+        make: value("tiff:Make"),
+        model: value("tiff:Model"),
+        lensModel: value("exifEX:LensModel") ?? value("aux:Lens"),
+        software: value("xmp:CreatorTool"),
+      }),
+      location:
+        latitude !== undefined && longitude !== undefined
+          ? { latitude, longitude }
+          : undefined,
+    };
+  }
+
+  /**
+   * XMP GPS coordinates look like "51,30.123N" or "51,30,7.38N"
+   */
+  private static parseXmpCoordinate(value?: string): number | undefined {
+    const match = value?.match(
+      /^(\d+),(\d+(?:\.\d+)?)(?:,(\d+(?:\.\d+)?))?([NSEW])$/
+    );
+    if (!match) {
+      return undefined;
+    }
+    const degrees =
+      Number(match[1]) + Number(match[2]) / 60 + Number(match[3] ?? 0) / 3600;
+    return match[4] === "S" || match[4] === "W" ? -degrees : degrees;
+  }
+
+  /**
+   * "2024:03:01 14:22:05" + "+01:00" -> "2024-03-01T14:22:05+01:00"
+   */
+  private static toIsoDate(
+    dateTime: string,
+    offset?: string
+  ): string | undefined {
+    const match = dateTime.match(
+      /^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/
+    );
+    if (!match || match[1] === "0000") {
+      return undefined;
+    }
+    const [, year, month, day, hour, minute, second] = match;
+    const zone = offset && /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : "";
+    return `${year}-${month}-${day}T${hour}:${minute}:${second}${zone}`;
+  }
+
+  /**
+   * Drop undefined fields; undefined when nothing is left
+   */
+  private static compact<T extends object>(value: T): T | undefined {
+    const entries = Object.entries(value).filter(
+      ([, field]) => field !== undefined
+    );
+    return entries.length > 0 ? (Object.fromEntries(entries) as T) : undefined;
+  }
+
+  /**
+   * Latin-1 decode; the XMP fields we read are ASCII
+   */
+  private static text(bytes: Uint8Array): string {
+    let output = "";
+    for (let i = 0; i < bytes.length; i += 8192) {
+      output += String.fromCharCode(...bytes.subarray(i, i + 8192));
+    }
+    return output;
+  }
+
+  private static ascii(
+    bytes: Uint8Array,
+    offset: number,
+    length: number
+  ): string {
+    if (bytes.length < offset + length) return "";
+    return String.fromCharCode(...bytes.subarray(offset, offset + length));
+  }
+
+  private static readUint32(
+    bytes: Uint8Array,
+    offset: number,
+    littleEndian: boolean
+  ): number {
+    if (bytes.length < offset + 4) return 0;
+    return new DataView(bytes.buffer, bytes.byteOffset + offset, 4).getUint32(
+      0,
+      littleEndian
+    );
+  }
+}
+
+/**
+ * Minimal TIFF IFD reader.
+ * IFDs map a tag to the offset of its 12-byte entry.
+ */
+class TiffReader {
+  private readonly view: DataView;
+
+  constructor(
+    private readonly bytes: Uint8Array,
+    private readonly littleEndian: boolean
+  ) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.length);
+  }
+
+  uint16(offset: number): number {
+    return offset + 2 <= this.bytes.length
+      ? this.view.getUint16(offset, this.littleEndian)
+      : 0;
+  }
+
+  uint32(offset: number): number {
+    return offset + 4 <= this.bytes.length
+      ? this.view.getUint32(offset, this.littleEndian)
+      : 0;
+  }
+
+  readIfd(offset: number): Map<number, number> {
+    const entries = new Map<number, number>();
+    const count = this.uint16(offset);
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12;
+      if (entry + 12 > this.bytes.length) break;
+      entries.set(this.uint16(entry), entry);
+    }
+    return entries;
+  }
+
+  getString(ifd: Map<number, number>, tag: number): string | undefined {
+    const field = this.getField(ifd, tag);
+    if (!field || field.type !== 2) return undefined;
+    const end = Math.min(field.offset + field.count, this.bytes.length);
+    let value = "";
+    for (let i = field.offset; i < end && this.bytes[i] !== 0; i++) {
+      value += String.fromCharCode(this.bytes[i]);
+    }
+    return value.trim() || undefined;
+  }
+
+  getNumber(ifd: Map<number, number>, tag: number): number | undefined {
+    const field = this.getField(ifd, tag);
+    if (!field) return undefined;
+    switch (field.type) {
+      case 1:
+      case 7:
+        return this.bytes[field.offset];
+      case 3:
+        return this.uint16(field.offset);
+      case 4:
+        return this.uint32(field.offset);
+      default:
+        return undefined;
+    }
+  }
+
+  getRationals(ifd: Map<number, number>, tag: number): number[] {
+    const field = this.getField(ifd, tag);
+    if (!field || field.type !== 5) return [];
+    const values: number[] = [];
+    for (let i = 0; i < field.count; i++) {
+      const numerator = this.uint32(field.offset + i * 8);
+      const denominator = this.uint32(field.offset + i * 8 + 4);
+      values.push(denominator === 0 ? 0 : numerator / denominator);
+    }
+    return values;
+  }
+
+  /**
+   * Values of 4 bytes or less are stored inline in the entry
+   */
+  private getField(
+    ifd: Map<number, number>,
+    tag: number
+  ): { type: number; count: number; offset: number } | undefined {
+    const entry = ifd.get(tag);
+    if (entry === undefined) return undefined;
+    const type = this.uint16(entry + 2);
+    const count = this.uint32(entry + 4);
+    const size = (TYPE_SIZES[type] ?? 0) * count;
+    if (size === 0) return undefined;
+    const offset = size <= 4 ? entry + 8 : this.uint32(entry + 8);
+    return offset + size <= this.bytes.length
+      ? { type, count, offset }
+      : undefined;
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * Image Header Parser
+ * Reads stored pixel dimensions from JPEG, PNG, GIF and WebP headers
+ */
+
+import type { ImageDimensions } from "../entities/Media";
+
+/**
+ * JPEG frame headers sit after the APP segments (64KB max each)
+ */
+export const IMAGE_HEADER_SCAN_LENGTH = 256 * 1024;
+
+/**
+ * SOF markers that carry frame dimensions (C4, C8 and CC are not frames)
+ */
+const JPEG_SOF_MARKERS = [
+  0xc0, 0xc1, 0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf,
+];
+
+export class ImageHeaderParser {
+  /**
+   * Dimensions as stored, before any EXIF orientation is applied.
+   * Returns null for unsupported or truncated headers.
+   */
+  static readDimensions(bytes: Uint8Array): ImageDimensions | null {
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+      return ImageHeaderParser.readJpeg(bytes);
+    }
+    if (
+      ImageHeaderParser.ascii(bytes, 1, 3) === "PNG" &&
+      ImageHeaderParser.ascii(bytes, 12, 4) === "IHDR"
+    ) {
+      return ImageHeaderParser.valid(
+        ImageHeaderParser.readUint32BE(bytes, 16),
+        ImageHeaderParser.readUint32BE(bytes, 20)
+      );
+    }
+    if (ImageHeaderParser.ascii(bytes, 0, 3) === "GIF" && bytes.length >= 10) {
+      return ImageHeaderParser.valid(
+        bytes[6] | (bytes[7] << 8),
+        bytes[8] | (bytes[9] << 8)
+      );
+    }
+    if (
+      ImageHeaderParser.ascii(bytes, 0, 4) === "RIFF" &&
+      ImageHeaderParser.ascii(bytes, 8, 4) === "WEBP"
+    ) {
+      return ImageHeaderParser.readWebp(bytes);
+    }
+    return null;
+  }
+
+  private static readJpeg(bytes: Uint8Array): ImageDimensions | null {
+    let offset = 2;
+
+    while (offset + 9 <= bytes.length && bytes[offset] === 0xff) {
+      const marker = bytes[offset + 1];
+      if (marker === 0xda || marker === 0xd9) {
+        return null;
+      }
+      if (JPEG_SOF_MARKERS.includes(marker)) {
+        return ImageHeaderParser.valid(
+          (bytes[offset + 7] << 8) | bytes[offset + 8],
+          (bytes[offset + 5] << 8) | bytes[offset + 6]
+        );
+      }
+      offset += 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+    }
+
+    return null;
+  }
+
+  private static readWebp(bytes: Uint8Array): ImageDimensions | null {
+    const chunk = ImageHeaderParser.ascii(bytes, 12, 4);
+
+    if (chunk === "VP8X" && bytes.length >= 30) {
+      // 24-bit canvas width - 1 and height - 1
+      return ImageHeaderParser.valid(
+        (bytes[24] | (bytes[25] << 8) | (bytes[26] << 16)) + 1,
+        (bytes[27] | (bytes[28] << 8) | (bytes[29] << 16)) + 1
+      );
+    }
+    if (chunk === "VP8 " && bytes.length >= 30) {
+      // Key frame: 3-byte tag, start code 9d 01 2a, then 14-bit sizes
+      return ImageHeaderParser.valid(
+        (bytes[26] | (bytes[27] << 8)) & 0x3fff,
+        (bytes[28] | (bytes[29] << 8)) & 0x3fff
+      );
+    }
+    if (chunk === "VP8L" && bytes.length >= 25 && bytes[20] === 0x2f) {
+      // 14-bit width - 1 and height - 1, packed little-endian
+      const bits =
+        bytes[21] | (bytes[22] << 8) | (bytes[23] << 16) | (bytes[24] << 24);
+      return ImageHeaderParser.valid(
+        (bits & 0x3fff) + 1,
+        ((bits >> 14) & 0x3fff) + 1
+      );
+    }
+    return null;
+  }
+
+  private static valid(width: number, height: number): ImageDimensions | null {
+    return width > 0 && height > 0 ? { width, height } : null;
+  }
+
+  private static ascii(
+    bytes: Uint8Array,
+    offset: number,
+    length: number
+  ): string {
+    if (bytes.length < offset + length) return "";
+    return String.fromCharCode(...bytes.subarray(offset, offset + length));
+  }
+
+  private static readUint32BE(bytes: Uint8Array, offset: number): number {
+    if (bytes.length < offset + 4) return 0;
+    return (
+      ((bytes[offset] << 24) >>> 0) +
+      (bytes[offset + 1] << 16) +
+      (bytes[offset + 2] << 8) +
+      bytes[offset + 3]
+    );
+  }
+}
@@ -0,0 +1,321 @@
+/**
+ * Inflate
+ * Dependency-free DEFLATE (RFC 1951) decompression for zlib streams
+ */
+
+// prettier-ignore
+const LENGTH_BASE = [
+  3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59,
+  67, 83, 99, 115, 131, 163, 195, 227, 258,
+];
+// prettier-ignore
+const LENGTH_EXTRA = [
+  0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4,
+  5, 5, 5, 5, 0,
+];
+// prettier-ignore
+const DISTANCE_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513,
+  769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577,
+];
+// prettier-ignore
+const DISTANCE_EXTRA = [
+  0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10,
+  11, 11, 12, 12, 13, 13,
+];
+/**
+ * Order in which code length code lengths are stored
+ */
+// prettier-ignore
+const CODE_LENGTH_ORDER = [
+  16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15,
+];
+
+const MAX_BITS = 15;
+
+/**
+ * Canonical Huffman table: symbol counts per code length, and symbols
+ * sorted by code
+ */
+interface HuffmanTable {
+  counts: Uint16Array;
+  symbols: Uint16Array;
+}
+
+interface HuffmanTables {
+  literals: HuffmanTable;
+  distances: HuffmanTable;
+}
+
+function buildTable(lengths: ArrayLike<number>): HuffmanTable {
+  const counts = new Uint16Array(MAX_BITS + 1);
+  for (let i = 0; i < lengths.length; i++) {
+    counts[lengths[i]]++;
+  }
+  counts[0] = 0;
+
+  const offsets = new Uint16Array(MAX_BITS + 2);
+  for (let length = 1; length <= MAX_BITS; length++) {
+    offsets[length + 1] = offsets[length] + counts[length];
+  }
+
+  const symbols = new Uint16Array(lengths.length);
+  for (let i = 0; i < lengths.length; i++) {
+    if (lengths[i]) {
+      symbols[offsets[lengths[i]]++] = i;
+    }
+  }
+  return { counts, symbols };
+}
+
+/**
+ * Tables of fixed Huffman blocks (type 1)
+ */
+const FIXED_TABLES: HuffmanTables = (() => {
+  const literals = new Uint8Array(288);
+  literals.fill(8, 0, 144);
+  literals.fill(9, 144, 256);
+  literals.fill(7, 256, 280);
+  literals.fill(8, 280, 288);
+  return {
+    literals: buildTable(literals),
+    distances: buildTable(new Uint8Array(30).fill(5)),
+  };
+})();
+
+/**
+ * LSB-first bit reader over a DEFLATE stream
+ */
+class BitReader {
+  private position: number;
+  private buffer = 0;
+  private count = 0;
+
+  constructor(
+    private readonly bytes: Uint8Array,
+    offset: number
+  ) {
+    this.position = offset;
+  }
+
+  bits(n: number): number {
+    while (this.count < n) {
+      if (this.position >= this.bytes.length) {
+        throw new Error("Unexpected end of compressed data");
+      }
+      this.buffer |= this.bytes[this.position++] << this.count;
+      this.count += 8;
+    }
+    const value = this.buffer & ((1 << n) - 1);
+    this.buffer >>>= n;
+    this.count -= n;
+    return value;
+  }
+
+  /**
+   * Skip to the next byte boundary and return the byte offset
+   */
+  align(): number {
+    this.buffer = 0;
+    this.count = 0;
+    return this.position;
+  }
+
+  seek(position: number): void {
+    this.position = position;
+  }
+
+  decode(table: HuffmanTable): number {
+    let code = 0;
+    let first = 0;
+    let index = 0;
+
+    for (let length = 1; length <= MAX_BITS; length++) {
+      code |= this.bits(1);
+      const count = table.counts[length];
+      if (code - first < count) {
+        return table.symbols[index + code - first];
+      }
+      index += count;
+      first = (first + count) << 1;
+      code <<= 1;
+    }
+    throw new Error("Invalid Huffman code");
+  }
+}
+
+/**
+ * Growable output buffer
+ */
+class OutputBuffer {
+  private data: Uint8Array;
+  length = 0;
+
+  constructor(capacity: number) {
+    this.data = new Uint8Array(Math.max(capacity, 1024));
+  }
+
+  push(byte: number): void {
+    if (this.length === this.data.length) {
+      const grown = new Uint8Array(this.data.length * 2);
+      grown.set(this.data);
+      this.data = grown;
+    }
+    this.data[this.length++] = byte;
+  }
+
+  copy(distance: number, length: number): void {
+    if (distance > this.length) {
+      throw new Error("Invalid back-reference distance");
+    }
+    for (let i = 0; i < length; i++) {
+      this.push(this.data[this.length - distance]);
+    }
+  }
+
+  toBytes(): Uint8Array {
+    return this.data.slice(0, this.length);
+  }
+}
+
+export class Inflate {
+  /**
+   * Decompress a zlib stream (2-byte header, DEFLATE data, Adler-32).
+   * The checksum is not verified.
+   */
+  static zlib(bytes: Uint8Array, expectedSize = 0): Uint8Array {
+    if (bytes.length < 2 || (bytes[0] & 0x0f) !== 8) {
+      throw new Error("Unsupported zlib compression method");
+    }
+    if (bytes[1] & 0x20) {
+      throw new Error("Preset zlib dictionaries are not supported");
+    }
+    return Inflate.raw(bytes, 2, expectedSize);
+  }
+
+  /**
+   * Decompress raw DEFLATE data starting at `offset`
+   */
+  static raw(bytes: Uint8Array, offset = 0, expectedSize = 0): Uint8Array {
+    const reader = new BitReader(bytes, offset);
+    const output = new OutputBuffer(expectedSize || bytes.length * 4);
+    let final = 0;
+
+    while (!final) {
+      final = reader.bits(1);
+      const type = reader.bits(2);
+
+      if (type === 0) {
+        Inflate.storedBlock(bytes, reader, output);
+      } else if (type === 1) {
+        Inflate.huffmanBlock(reader, output, FIXED_TABLES);
+      } else if (type === 2) {
+        Inflate.huffmanBlock(reader, output, Inflate.readDynamicTables(reader));
+      } else {
+        throw new Error("Invalid DEFLATE block type");
+      }
+    }
+
+    return output.toBytes();
+  }
+
+  private static storedBlock(
+    bytes: Uint8Array,
+    reader: BitReader,
+    output: OutputBuffer
+  ): void {
+    const start = reader.align();
+    if (start + 4 > bytes.length) {
+      throw new Error("Unexpected end of compressed data");
+    }
+    const length = bytes[start] | (bytes[start + 1] << 8);
+    const end = start + 4 + length;
+    if (end > bytes.length) {
+      throw new Error("Unexpected end of compressed data");
+    }
+    for (let i = start + 4; i < end; i++) {
+      output.push(bytes[i]);
+    }
+    reader.seek(end);
+  }
+
+  private static huffmanBlock(
+    reader: BitReader,
+    output: OutputBuffer,
+    tables: HuffmanTables
+  ): void {
+    for (;;) {
+      const symbol = reader.decode(tables.literals);
+      if (symbol < 256) {
+        output.push(symbol);
+        continue;
+      }
+      if (symbol === 256) {
+        return;
+      }
+
+      const lengthIndex = symbol - 257;
+      if (lengthIndex >= LENGTH_BASE.length) {
+        throw new Error("Invalid length symbol");
+      }
+      const length =
+        LENGTH_BASE[lengthIndex] + reader.bits(LENGTH_EXTRA[lengthIndex]);
+
+      const distanceIndex = reader.decode(tables.distances);
+      if (distanceIndex >= DISTANCE_BASE.length) {
+        throw new Error("Invalid distance symbol");
+      }
+      const distance =
+        DISTANCE_BASE[distanceIndex] +
+        reader.bits(DISTANCE_EXTRA[distanceIndex]);
+
+      output.copy(distance, length);
+    }
+  }
+
+  private static readDynamicTables(reader: BitReader): HuffmanTables {
+    const literalCount = reader.bits(5) + 257;
+    const distanceCount = reader.bits(5) + 1;
+    const codeLengthCount = reader.bits(4) + 4;
+
+    const codeLengthLengths = new Uint8Array(19);
+    for (let i = 0; i < codeLengthCount; i++) {
+      codeLengthLengths[CODE_LENGTH_ORDER[i]] = reader.bits(3);
+    }
+    const codeLengthTable = buildTable(codeLengthLengths);
+
+    const lengths = new Uint8Array(literalCount + distanceCount);
+    let index = 0;
+    while (index < lengths.length) {
+      const symbol = reader.decode(codeLengthTable);
+      if (symbol < 16) {
+        lengths[index++] = symbol;
+        continue;
+      }
+
+      let repeat: number;
+      let value = 0;
+      if (symbol === 16) {
+        if (index === 0) {
+          throw new Error("Repeat with no previous code length");
+        }
+        value = lengths[index - 1];
+        repeat = 3 + reader.bits(2);
+      } else if (symbol === 17) {
+        repeat = 3 + reader.bits(3);
+      } else {
+        repeat = 11 + reader.bits(7);
+      }
+      if (index + repeat > lengths.length) {
+        throw new Error("Too many code lengths");
+      }
+      lengths.fill(value, index, index + repeat);
+      index += repeat;
+    }
+
+    return {
+      literals: buildTable(lengths.subarray(0, literalCount)),
+      distances: buildTable(lengths.subarray(literalCount)),
+    };
+  }
+}
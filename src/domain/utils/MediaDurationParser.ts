@@ -0,0 +1,295 @@
+/**
+ * Media Duration Parser
+ * Reads durations from MP4 / MOV / M4A, WAV and MP3 headers.
+ * All durations are in milliseconds.
+ */
+
+/**
+ * ISO base media box header
+ */
+export interface IsoBoxHeader {
+  type: string;
+  /** Whole box size including the header; 0 means "to end of file" */
+  size: number;
+  headerSize: number;
+}
+
+/**
+ * First MPEG audio frame found in a buffer
+ */
+export interface MpegFrameInfo {
+  /** Offset of the frame within the buffer */
+  offset: number;
+  bitrate: number; // bits per second
+  sampleRate: number;
+  samplesPerFrame: number;
+  /** Frame count from a Xing / Info / VBRI header (VBR files) */
+  frameCount?: number;
+}
+
+/**
+ * Bytes to read at the first MPEG frame to see its VBR header
+ */
+export const MPEG_FRAME_SCAN_LENGTH = 4096;
+
+// prettier-ignore
+const MPEG_BITRATES: Record<string, number[]> = {
+  "1-1": [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+  "1-2": [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+  "1-3": [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  "2-1": [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+  "2-2": [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  "2-3": [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+};
+
+/**
+ * Sample rates by version bits (00 = MPEG 2.5, 10 = MPEG 2, 11 = MPEG 1)
+ */
+const MPEG_SAMPLE_RATES: Record<number, number[]> = {
+  0: [11025, 12000, 8000],
+  2: [22050, 24000, 16000],
+  3: [44100, 48000, 32000],
+};
+
+export class MediaDurationParser {
+  /**
+   * Read a box header at `offset`; null when the bytes are too short
+   */
+  static readBoxHeader(bytes: Uint8Array, offset = 0): IsoBoxHeader | null {
+    if (bytes.length < offset + 8) return null;
+    const size = MediaDurationParser.readUint32BE(bytes, offset);
+    const type = MediaDurationParser.ascii(bytes, offset + 4, 4);
+
+    if (size === 1) {
+      if (bytes.length < offset + 16) return null;
+      return {
+        type,
+        size: MediaDurationParser.readUint64BE(bytes, offset + 8),
+        headerSize: 16,
+      };
+    }
+    return { type, size, headerSize: 8 };
+  }
+
+  /**
+   * Duration from the mvhd box of a moov payload
+   */
+  static parseMoov(moov: Uint8Array): number | null {
+    let offset = 0;
+
+    while (offset < moov.length) {
+      const box = MediaDurationParser.readBoxHeader(moov, offset);
+      if (!box) return null;
+      // Size 0: the last box, running to the end of the moov payload
+      const size = box.size === 0 ? moov.length - offset : box.size;
+      if (size < box.headerSize) return null;
+
+      if (box.type === "mvhd") {
+        return MediaDurationParser.parseMvhd(
+          moov.subarray(offset + box.headerSize, offset + size)
+        );
+      }
+      offset += size;
+    }
+
+    return null;
+  }
+
+  /**
+   * mvhd payload: version 1 uses 64-bit times and duration
+   */
+  static parseMvhd(mvhd: Uint8Array): number | null {
+    const version = mvhd[0];
+    const timescale =
+      version === 1
+        ? MediaDurationParser.readUint32BE(mvhd, 20)
+        : MediaDurationParser.readUint32BE(mvhd, 12);
+    const duration =
+      version === 1
+        ? MediaDurationParser.readUint64BE(mvhd, 24)
+        : MediaDurationParser.readUint32BE(mvhd, 16);
+
+    if (!timescale || !duration || duration === 0xffffffff) {
+      return null;
+    }
+    return Math.round((duration / timescale) * 1000);
+  }
+
+  /**
+   * WAV duration from the fmt byte rate and the data chunk size.
+   * `fileSize` covers streamed files whose data size was never written.
+   */
+  static parseWav(bytes: Uint8Array, fileSize?: number): number | null {
+    if (
+      MediaDurationParser.ascii(bytes, 0, 4) !== "RIFF" ||
+      MediaDurationParser.ascii(bytes, 8, 4) !== "WAVE"
+    ) {
+      return null;
+    }
+
+    let byteRate = 0;
+    let offset = 12;
+
+    while (offset + 8 <= bytes.length) {
+      const id = MediaDurationParser.ascii(bytes, offset, 4);
+      const size = MediaDurationParser.readUint32LE(bytes, offset + 4);
+
+      if (id === "fmt ") {
+        byteRate = MediaDurationParser.readUint32LE(bytes, offset + 16);
+      } else if (id === "data") {
+        const available =
+          fileSize !== undefined ? fileSize - (offset + 8) : size;
+        const dataSize = size === 0 || size === 0xffffffff ? available : size;
+        return byteRate > 0 && dataSize > 0
+          ? Math.round((dataSize / byteRate) * 1000)
+          : null;
+      }
+
+      offset += 8 + size + (size & 1);
+    }
+
+    return null;
+  }
+
+  /**
+   * Size of a leading ID3v2 tag (0 when there is none)
+   */
+  static getId3Size(bytes: Uint8Array): number {
+    if (MediaDurationParser.ascii(bytes, 0, 3) !== "ID3" || bytes.length < 10) {
+      return 0;
+    }
+    // Syncsafe integer: 7 bits per byte
+    const size =
+      ((bytes[6] & 0x7f) << 21) |
+      ((bytes[7] & 0x7f) << 14) |
+      ((bytes[8] & 0x7f) << 7) |
+      (bytes[9] & 0x7f);
+    const hasFooter = (bytes[5] & 0x10) !== 0;
+    return 10 + size + (hasFooter ? 10 : 0);
+  }
+
+  /**
+   * Find the first valid MPEG audio frame and its VBR header, if any
+   */
+  static findMpegFrame(bytes: Uint8Array): MpegFrameInfo | null {
+    for (let offset = 0; offset + 4 <= bytes.length; offset++) {
+      if (bytes[offset] !== 0xff || (bytes[offset + 1] & 0xe0) !== 0xe0) {
+        continue;
+      }
+
+      const versionBits = (bytes[offset + 1] >> 3) & 0x03;
+      const layerBits = (bytes[offset + 1] >> 1) & 0x03;
+      const bitrateIndex = bytes[offset + 2] >> 4;
+      const sampleRateIndex = (bytes[offset + 2] >> 2) & 0x03;
+      if (
+        versionBits === 1 ||
+        layerBits === 0 ||
+        bitrateIndex === 0 ||
+        bitrateIndex === 15 ||
+        sampleRateIndex === 3
+      ) {
+        continue;
+      }
+
+      const isMpeg1 = versionBits === 3;
+      const layer = 4 - layerBits;
+      const bitrate =
+        MPEG_BITRATES[`${isMpeg1 ? 1 : 2}-${layer}`][bitrateIndex] * 1000;
+      const sampleRate = MPEG_SAMPLE_RATES[versionBits][sampleRateIndex];
+      const samplesPerFrame =
+        layer === 1 ? 384 : layer === 3 && !isMpeg1 ? 576 : 1152;
+      const mono = bytes[offset + 3] >> 6 === 3;
+
+      return {
+        offset,
+        bitrate,
+        sampleRate,
+        samplesPerFrame,
+        frameCount: MediaDurationParser.readVbrFrameCount(
+          bytes,
+          offset,
+          isMpeg1,
+          mono
+        ),
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * MP3 duration: exact for VBR files with a Xing / VBRI header,
+   * estimated from the bitrate otherwise
+   */
+  static parseMpegAudio(frame: MpegFrameInfo, audioSize: number): number {
+    if (frame.frameCount) {
+      return Math.round(
+        ((frame.frameCount * frame.samplesPerFrame) / frame.sampleRate) * 1000
+      );
+    }
+    return Math.round(((audioSize * 8) / frame.bitrate) * 1000);
+  }
+
+  private static readVbrFrameCount(
+    bytes: Uint8Array,
+    frameOffset: number,
+    isMpeg1: boolean,
+    mono: boolean
+  ): number | undefined {
+    // Xing / Info sits right after the side information
+    const sideInfo = isMpeg1 ? (mono ? 17 : 32) : mono ? 9 : 17;
+    const xing = frameOffset + 4 + sideInfo;
+    const tag = MediaDurationParser.ascii(bytes, xing, 4);
+    if (tag === "Xing" || tag === "Info") {
+      const flags = MediaDurationParser.readUint32BE(bytes, xing + 4);
+      return flags & 0x01
+        ? MediaDurationParser.readUint32BE(bytes, xing + 8) || undefined
+        : undefined;
+    }
+
+    // VBRI always sits 32 bytes after the frame header
+    const vbri = frameOffset + 36;
+    if (MediaDurationParser.ascii(bytes, vbri, 4) === "VBRI") {
+      return MediaDurationParser.readUint32BE(bytes, vbri + 14) || undefined;
+    }
+
+    return undefined;
+  }
+
+  private static ascii(
+    bytes: Uint8Array,
+    offset: number,
+    length: number
+  ): string {
+    if (bytes.length < offset + length) return "";
+    return String.fromCharCode(...bytes.subarray(offset, offset + length));
+  }
+
+  private static readUint32BE(bytes: Uint8Array, offset: number): number {
+    if (bytes.length < offset + 4) return 0;
+    return (
+      ((bytes[offset] << 24) >>> 0) +
+      (bytes[offset + 1] << 16) +
+      (bytes[offset + 2] << 8) +
+      bytes[offset + 3]
+    );
+  }
+
+  private static readUint64BE(bytes: Uint8Array, offset: number): number {
+    return (
+      MediaDurationParser.readUint32BE(bytes, offset) * 0x100000000 +
+      MediaDurationParser.readUint32BE(bytes, offset + 4)
+    );
+  }
+
+  private static readUint32LE(bytes: Uint8Array, offset: number): number {
+    if (bytes.length < offset + 4) return 0;
+    return (
+      (bytes[offset] |
+        (bytes[offset + 1] << 8) |
+        (bytes[offset + 2] << 16) |
+        (bytes[offset + 3] << 24)) >>>
+      0
+    );
+  }
+}
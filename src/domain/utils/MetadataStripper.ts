@@ -0,0 +1,237 @@
+/**
+ * Metadata Stripper
+ * Removes EXIF, XMP and text metadata from JPEG, PNG and WebP files
+ * without re-encoding, keeping only the EXIF orientation
+ */
+
+import { ExifOrientation } from "../entities/MediaMetadata";
+import { Crc32 } from "./Crc32";
+import { ExifReader } from "./ExifReader";
+
+const EXIF_HEADER = "Exif\0\0";
+
+/**
+ * JPEG segments that can carry location, device or author data:
+ * APP1 (EXIF / XMP), APP13 (Photoshop / IPTC) and comments
+ */
+const JPEG_METADATA_MARKERS = [0xe1, 0xed, 0xfe];
+const PNG_METADATA_CHUNKS = ["eXIf", "tEXt", "zTXt", "iTXt", "tIME"];
+const WEBP_METADATA_CHUNKS = ["EXIF", "XMP "];
+const WEBP_VP8X_EXIF_FLAG = 0x08;
+const WEBP_VP8X_XMP_FLAG = 0x04;
+
+export class MetadataStripper {
+  /**
+   * Strip metadata from a whole file.
+   * Returns null when the container is not JPEG, PNG or WebP.
+   */
+  static strip(bytes: Uint8Array): Uint8Array | null {
+    const blocks = ExifReader.findBlocks(bytes);
+    const orientation = blocks.exif
+      ? ExifReader.readOrientation(blocks.exif)
+      : undefined;
+    const exif =
+      orientation && orientation !== ExifOrientation.NORMAL
+        ? MetadataStripper.buildOrientationExif(orientation)
+        : null;
+
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+      return MetadataStripper.stripJpeg(bytes, exif);
+    }
+    if (MetadataStripper.ascii(bytes, 1, 3) === "PNG") {
+      return MetadataStripper.stripPng(bytes, exif);
+    }
+    if (
+      MetadataStripper.ascii(bytes, 0, 4) === "RIFF" &&
+      MetadataStripper.ascii(bytes, 8, 4) === "WEBP"
+    ) {
+      return MetadataStripper.stripWebp(bytes, exif);
+    }
+    return null;
+  }
+
+  /**
+   * Big-endian TIFF with a single IFD0 entry: the orientation
+   */
+  private static buildOrientationExif(
+    orientation: ExifOrientation
+  ): Uint8Array {
+    // prettier-ignore
+    return new Uint8Array([
+      0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08, // "MM", 42, IFD0 at 8
+      0x00, 0x01, // one entry
+      0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01, // orientation, SHORT x1
+      0x00, orientation, 0x00, 0x00,
+      0x00, 0x00, 0x00, 0x00, // no next IFD
+    ]);
+  }
+
+  private static stripJpeg(
+    bytes: Uint8Array,
+    exif: Uint8Array | null
+  ): Uint8Array {
+    const parts: Uint8Array[] = [bytes.subarray(0, 2)];
+    let offset = 2;
+    let exifWritten = !exif;
+
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+      const marker = bytes[offset + 1];
+      if (marker === 0xda || marker === 0xd9) {
+        break;
+      }
+
+      const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+      const segment = bytes.subarray(offset, offset + 2 + length);
+
+      // EXIF goes first, after the JFIF APP0 header when there is one
+      if (!exifWritten && marker !== 0xe0) {
+        parts.push(MetadataStripper.jpegExifSegment(exif!));
+        exifWritten = true;
+      }
+      if (!JPEG_METADATA_MARKERS.includes(marker)) {
+        parts.push(segment);
+      }
+
+      offset += 2 + length;
+    }
+
+    if (!exifWritten) {
+      parts.push(MetadataStripper.jpegExifSegment(exif!));
+    }
+    parts.push(bytes.subarray(offset));
+    return MetadataStripper.concat(parts);
+  }
+
+  private static jpegExifSegment(exif: Uint8Array): Uint8Array {
+    const length = 2 + EXIF_HEADER.length + exif.length;
+    return MetadataStripper.concat([
+      new Uint8Array([0xff, 0xe1, length >> 8, length & 0xff]),
+      MetadataStripper.fromAscii(EXIF_HEADER),
+      exif,
+    ]);
+  }
+
+  private static stripPng(
+    bytes: Uint8Array,
+    exif: Uint8Array | null
+  ): Uint8Array {
+    const parts: Uint8Array[] = [bytes.subarray(0, 8)];
+    let offset = 8;
+
+    while (offset + 8 <= bytes.length) {
+      const length = MetadataStripper.readUint32(bytes, offset, false);
+      const type = MetadataStripper.ascii(bytes, offset + 4, 4);
+      const chunk = bytes.subarray(offset, offset + 12 + length);
+
+      if (type === "IDAT" && exif) {
+        parts.push(MetadataStripper.pngChunk("eXIf", exif));
+        exif = null;
+      }
+      if (!PNG_METADATA_CHUNKS.includes(type)) {
+        parts.push(chunk);
+      }
+
+      offset += 12 + length;
+    }
+
+    return MetadataStripper.concat(parts);
+  }
+
+  private static pngChunk(type: string, data: Uint8Array): Uint8Array {
+    const body = MetadataStripper.concat([
+      MetadataStripper.fromAscii(type),
+      data,
+    ]);
+    const chunk = new Uint8Array(12 + data.length);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, data.length);
+    chunk.set(body, 4);
+    view.setUint32(8 + data.length, Crc32.compute(body));
+    return chunk;
+  }
+
+  private static stripWebp(
+    bytes: Uint8Array,
+    exif: Uint8Array | null
+  ): Uint8Array {
+    const parts: Uint8Array[] = [];
+    let offset = 12;
+    let extended = false;
+
+    while (offset + 8 <= bytes.length) {
+      const fourCC = MetadataStripper.ascii(bytes, offset, 4);
+      const size = MetadataStripper.readUint32(bytes, offset + 4, true);
+      const end = Math.min(offset + 8 + size + (size & 1), bytes.length);
+
+      if (fourCC === "VP8X") {
+        extended = true;
+        const chunk = bytes.slice(offset, end);
+        chunk[8] &= ~(WEBP_VP8X_EXIF_FLAG | WEBP_VP8X_XMP_FLAG);
+        if (exif) {
+          chunk[8] |= WEBP_VP8X_EXIF_FLAG;
+        }
+        parts.push(chunk);
+      } else if (!WEBP_METADATA_CHUNKS.includes(fourCC)) {
+        parts.push(bytes.subarray(offset, end));
+      }
+
+      offset = end;
+    }
+
+    // Simple WebP (no VP8X) cannot hold metadata chunks at all
+    if (exif && extended) {
+      parts.push(MetadataStripper.webpChunk("EXIF", exif));
+    }
+
+    const body = MetadataStripper.concat(parts);
+    const header = new Uint8Array(12);
+    header.set(bytes.subarray(0, 12));
+    new DataView(header.buffer).setUint32(4, body.length + 4, true);
+    return MetadataStripper.concat([header, body]);
+  }
+
+  private static webpChunk(fourCC: string, data: Uint8Array): Uint8Array {
+    const chunk = new Uint8Array(8 + data.length + (data.length & 1));
+    chunk.set(MetadataStripper.fromAscii(fourCC));
+    new DataView(chunk.buffer).setUint32(4, data.length, true);
+    chunk.set(data, 8);
+    return chunk;
+  }
+
+  private static concat(parts: Uint8Array[]): Uint8Array {
+    const output = new Uint8Array(
+      parts.reduce((total, part) => total + part.length, 0)
+    );
+    let offset = 0;
+    for (const part of parts) {
+      output.set(part, offset);
+      offset += part.length;
+    }
+    return output;
+  }
+
+  private static fromAscii(value: string): Uint8Array {
+    return Uint8Array.from(value, (char) => char.charCodeAt(0));
+  }
+
+  private static ascii(
+    bytes: Uint8Array,
+    offset: number,
+    length: number
+  ): string {
+    if (bytes.length < offset + length) return "";
+    return String.fromCharCode(...bytes.subarray(offset, offset + length));
+  }
+
+  private static readUint32(
+    bytes: Uint8Array,
+    offset: number,
+    littleEndian: boolean
+  ): number {
+    if (bytes.length < offset + 4) return 0;
+    return new DataView(bytes.buffer, bytes.byteOffset + offset, 4).getUint32(
+      0,
+      littleEndian
+    );
+  }
+}
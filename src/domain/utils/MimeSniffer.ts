@@ -0,0 +1,147 @@
+/**
+ * MIME Sniffer
+ * Detects media MIME types from file header bytes (magic numbers)
+ */
+
+/**
+ * Bytes needed to recognise every supported signature
+ */
+export const MIME_SNIFF_LENGTH = 64;
+
+const HEIC_BRANDS = ["heic", "heix", "hevc", "hevx", "heim", "heis"];
+const HEIF_BRANDS = ["mif1", "msf1"];
+const AVIF_BRANDS = ["avif", "avis"];
+const M4A_BRANDS = ["M4A ", "M4B ", "M4P "];
+const GPP_BRANDS = ["3gp4", "3gp5", "3gp6", "3g2a"];
+const MP4_BRANDS = [
+  "isom",
+  "iso2",
+  "iso4",
+  "iso5",
+  "iso6",
+  "mp41",
+  "mp42",
+  "avc1",
+  "dash",
+  "M4V ",
+  "M4VH",
+  "M4VP",
+  "MSNV",
+  "XAVC",
+  "f4v ",
+  "mmp4",
+];
+
+export class MimeSniffer {
+  /**
+   * Detect a MIME type from the first bytes of a file
+   */
+  static sniff(bytes: Uint8Array): string | null {
+    if (MimeSniffer.startsWith(bytes, [0xff, 0xd8, 0xff])) {
+      return "image/jpeg";
+    }
+    if (
+      MimeSniffer.startsWith(
+        bytes,
+        [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]
+      )
+    ) {
+      return "image/png";
+    }
+    if (
+      MimeSniffer.ascii(bytes, 0, 6) === "GIF87a" ||
+      MimeSniffer.ascii(bytes, 0, 6) === "GIF89a"
+    ) {
+      return "image/gif";
+    }
+    if (MimeSniffer.ascii(bytes, 0, 4) === "RIFF") {
+      const format = MimeSniffer.ascii(bytes, 8, 4);
+      if (format === "WEBP") return "image/webp";
+      if (format === "WAVE") return "audio/wav";
+      return null;
+    }
+    if (MimeSniffer.ascii(bytes, 0, 4) === "OggS") {
+      return "audio/ogg";
+    }
+    if (MimeSniffer.ascii(bytes, 4, 4) === "ftyp") {
+      return MimeSniffer.sniffIsoBmff(bytes);
+    }
+    if (MimeSniffer.ascii(bytes, 0, 3) === "ID3") {
+      return "audio/mpeg";
+    }
+    if (MimeSniffer.isMpegAudioFrame(bytes)) {
+      return "audio/mpeg";
+    }
+    if (
+      MimeSniffer.startsWith(bytes, [0xff, 0xf1]) ||
+      MimeSniffer.startsWith(bytes, [0xff, 0xf9])
+    ) {
+      return "audio/aac";
+    }
+    return null;
+  }
+
+  /**
+   * ISO base media files (MP4, MOV, M4A, HEIC, AVIF) share the ftyp box;
+   * the major and compatible brands tell them apart. Unknown brands
+   * return null so the declared type wins.
+   */
+  private static sniffIsoBmff(bytes: Uint8Array): string | null {
+    const boxSize = MimeSniffer.readUint32(bytes, 0);
+    const majorBrand = MimeSniffer.ascii(bytes, 8, 4);
+    const brands = [majorBrand];
+
+    const end = Math.min(boxSize, bytes.length);
+    for (let offset = 16; offset + 4 <= end; offset += 4) {
+      brands.push(MimeSniffer.ascii(bytes, offset, 4));
+    }
+
+    if (AVIF_BRANDS.includes(majorBrand)) return "image/avif";
+    if (HEIC_BRANDS.includes(majorBrand)) return "image/heic";
+    if (HEIF_BRANDS.includes(majorBrand)) {
+      if (brands.some((brand) => AVIF_BRANDS.includes(brand)))
+        return "image/avif";
+      if (brands.some((brand) => HEIC_BRANDS.includes(brand)))
+        return "image/heic";
+      return "image/heif";
+    }
+    if (majorBrand === "qt  ") return "video/quicktime";
+    if (M4A_BRANDS.includes(majorBrand)) return "audio/mp4";
+    if (GPP_BRANDS.includes(majorBrand)) return "video/3gpp";
+    if (brands.some((brand) => MP4_BRANDS.includes(brand))) return "video/mp4";
+    return null;
+  }
+
+  private static isMpegAudioFrame(bytes: Uint8Array): boolean {
+    if (bytes.length < 2 || bytes[0] !== 0xff || (bytes[1] & 0xe0) !== 0xe0) {
+      return false;
+    }
+    const layer = (bytes[1] >> 1) & 0x03;
+    // Layer III (MP3); layer bits 00 belong to ADTS AAC
+    return layer === 0x01;
+  }
+
+  private static startsWith(bytes: Uint8Array, signature: number[]): boolean {
+    if (bytes.length < signature.length) return false;
+    return signature.every((byte, index) => bytes[index] === byte);
+  }
+
+  private static ascii(
+    bytes: Uint8Array,
+    offset: number,
+    length: number
+  ): string {
+    if (bytes.length < offset + length) return "";
+    return String.fromCharCode(...bytes.subarray(offset, offset + length));
+  }
+
+  private static readUint32(bytes: Uint8Array, offset: number): number {
+    if (bytes.length < offset + 4) return 0;
+    return (
+      ((bytes[offset] << 24) >>> 0) +
+      (bytes[offset + 1] << 16) +
+      (bytes[offset + 2] << 8) +
+      bytes[offset + 3]
+    );
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Perceptual Hash
+ * 64-bit difference hashes (dHash) that survive resizing, re-encoding
+ * and small edits, compared by Hamming distance
+ */
+
+import type { RgbaImage } from "./PngCodec";
+
+/**
+ * dHash compares 9 columns pairwise across 8 rows
+ */
+export const DHASH_WIDTH = 9;
+export const DHASH_HEIGHT = 8;
+
+/**
+ * Hashes at most this many bits apart are treated as the same picture
+ */
+export const DEFAULT_DUPLICATE_THRESHOLD = 10;
+
+export class PerceptualHash {
+  /**
+   * 16-character hex dHash. Images of other sizes are area-averaged
+   * down to 9x8 first; transparent pixels count as white.
+   */
+  static dHash(image: RgbaImage): string {
+    const gray = PerceptualHash.toGrayGrid(image);
+    let hex = "";
+
+    for (let y = 0; y < DHASH_HEIGHT; y++) {
+      let byte = 0;
+      for (let x = 0; x < DHASH_WIDTH - 1; x++) {
+        const left = gray[y * DHASH_WIDTH + x];
+        const right = gray[y * DHASH_WIDTH + x + 1];
+        byte = (byte << 1) | (left > right ? 1 : 0);
+      }
+      hex += byte.toString(16).padStart(2, "0");
+    }
+    return hex;
+  }
+
+  /**
+   * Number of differing bits between two hashes of equal length
+   */
+  static distance(a: string, b: string): number {
+    if (a.length !== b.length) {
+      throw new Error("Cannot compare hashes of different lengths");
+    }
+
+    let distance = 0;
+    for (let i = 0; i < a.length; i++) {
+      let bits = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+      while (bits) {
+        distance += bits & 1;
+        bits >>= 1;
+      }
+    }
+    return distance;
+  }
+
+  static isSimilar(
+    a: string,
+    b: string,
+    threshold = DEFAULT_DUPLICATE_THRESHOLD
+  ): boolean {
+    return a.length === b.length && PerceptualHash.distance(a, b) <= threshold;
+  }
+
+  /**
+   * Luma (BT.601) averaged over each cell of a 9x8 grid
+   */
+  private static toGrayGrid(image: RgbaImage): Float64Array {
+    const { width, height, data } = image;
+    const sums = new Float64Array(DHASH_WIDTH * DHASH_HEIGHT);
+    const counts = new Uint32Array(DHASH_WIDTH * DHASH_HEIGHT);
+
+    for (let y = 0; y < height; y++) {
+      const cellY = Math.min(
+        DHASH_HEIGHT - 1,
+        Math.floor((y * DHASH_HEIGHT) / height)
+      );
+      for (let x = 0; x < width; x++) {
+        const cellX = Math.min(
+          DHASH_WIDTH - 1,
+          Math.floor((x * DHASH_WIDTH) / width)
+        );
+        const i = (y * width + x) * 4;
+        const alpha = data[i + 3] / 255;
+        const luma =
+          0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+        const cell = cellY * DHASH_WIDTH + cellX;
+        sums[cell] += luma * alpha + 255 * (1 - alpha);
+        counts[cell]++;
+      }
+    }
+
+    for (let cell = 0; cell < sums.length; cell++) {
+      sums[cell] = counts[cell] ? sums[cell] / counts[cell] : 0;
+    }
+    return sums;
+  }
+}
@@ -0,0 +1,322 @@
+/**
+ * PNG Codec
+ * Decodes small PNGs to RGBA pixels and encodes RGBA pixels as
+ * uncompressed PNGs
+ */
+
+import { Crc32 } from "./Crc32";
+import { Inflate } from "./Inflate";
+
+/**
+ * 8-bit RGBA pixels, row by row
+ */
+export interface RgbaImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+/**
+ * Channels per color type: grayscale, RGB, palette, gray + alpha, RGBA
+ */
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+/**
+ * Largest payload of a stored DEFLATE block
+ */
+const MAX_STORED_BLOCK = 65535;
+
+interface PngHeader {
+  width: number;
+  height: number;
+  bitDepth: number;
+  colorType: number;
+  interlaced: boolean;
+}
+
+export class PngCodec {
+  /**
+   * Decode a non-interlaced PNG. Returns null for other files and for
+   * grayscale images below 8 bits per sample.
+   */
+  static decode(bytes: Uint8Array): RgbaImage | null {
+    if (!PNG_SIGNATURE.every((byte, i) => bytes[i] === byte)) {
+      return null;
+    }
+
+    let header: PngHeader | null = null;
+    let palette: Uint8Array | null = null;
+    let transparency: Uint8Array | null = null;
+    const idat: Uint8Array[] = [];
+    let offset = 8;
+
+    while (offset + 8 <= bytes.length) {
+      const length = PngCodec.readUint32BE(bytes, offset);
+      const type = String.fromCharCode(
+        ...bytes.subarray(offset + 4, offset + 8)
+      );
+      const data = bytes.subarray(offset + 8, offset + 8 + length);
+
+      if (type === "IHDR") {
+        header = {
+          width: PngCodec.readUint32BE(data, 0),
+          height: PngCodec.readUint32BE(data, 4),
+          bitDepth: data[8],
+          colorType: data[9],
+          interlaced: data[12] === 1,
+        };
+      } else if (type === "PLTE") {
+        palette = data;
+      } else if (type === "tRNS") {
+        transparency = data;
+      } else if (type === "IDAT") {
+        idat.push(data);
+      } else if (type === "IEND") {
+        break;
+      }
+      offset += 12 + length;
+    }
+
+    if (
+      !header ||
+      header.interlaced ||
+      !(header.colorType in CHANNELS) ||
+      (header.colorType === 3 && !palette) ||
+      (header.colorType !== 3 && header.bitDepth < 8)
+    ) {
+      return null;
+    }
+
+    const bitsPerPixel = CHANNELS[header.colorType] * header.bitDepth;
+    const stride = Math.ceil((header.width * bitsPerPixel) / 8);
+    const pixels = PngCodec.unfilter(
+      Inflate.zlib(PngCodec.concat(idat), (stride + 1) * header.height),
+      header,
+      stride,
+      Math.max(1, bitsPerPixel >> 3)
+    );
+    return PngCodec.toRgba(pixels, header, stride, palette, transparency);
+  }
+
+  /**
+   * Encode RGBA pixels as a PNG with stored (uncompressed) DEFLATE blocks.
+   * Meant for tiny images such as decoded placeholders.
+   */
+  static encode(image: RgbaImage): Uint8Array {
+    const { width, height, data } = image;
+    const stride = width * 4;
+
+    const raw = new Uint8Array((stride + 1) * height);
+    for (let y = 0; y < height; y++) {
+      // Filter type 0 (none) before every row
+      raw.set(
+        data.subarray(y * stride, (y + 1) * stride),
+        y * (stride + 1) + 1
+      );
+    }
+
+    const ihdr = new Uint8Array(13);
+    const view = new DataView(ihdr.buffer);
+    view.setUint32(0, width);
+    view.setUint32(4, height);
+    ihdr[8] = 8; // bit depth
+    ihdr[9] = 6; // RGBA
+
+    return PngCodec.concat([
+      new Uint8Array(PNG_SIGNATURE),
+      PngCodec.chunk("IHDR", ihdr),
+      PngCodec.chunk("IDAT", PngCodec.zlibStored(raw)),
+      PngCodec.chunk("IEND", new Uint8Array(0)),
+    ]);
+  }
+
+  /**
+   * Reverse the per-row filters, dropping the filter bytes
+   */
+  private static unfilter(
+    filtered: Uint8Array,
+    header: PngHeader,
+    stride: number,
+    bytesPerPixel: number
+  ): Uint8Array {
+    if (filtered.length < (stride + 1) * header.height) {
+      throw new Error("Truncated PNG image data");
+    }
+
+    const pixels = new Uint8Array(stride * header.height);
+    for (let y = 0; y < header.height; y++) {
+      const filter = filtered[y * (stride + 1)];
+      const row = y * stride;
+      const source = y * (stride + 1) + 1;
+
+      for (let x = 0; x < stride; x++) {
+        const left = x >= bytesPerPixel ? pixels[row + x - bytesPerPixel] : 0;
+        const up = y > 0 ? pixels[row - stride + x] : 0;
+        const upLeft =
+          y > 0 && x >= bytesPerPixel
+            ? pixels[row - stride + x - bytesPerPixel]
+            : 0;
+
+        let predictor = 0;
+        if (filter === 1) predictor = left;
+        else if (filter === 2) predictor = up;
+        else if (filter === 3) predictor = (left + up) >> 1;
+        else if (filter === 4) predictor = PngCodec.paeth(left, up, upLeft);
+
+        pixels[row + x] = (filtered[source + x] + predictor) & 0xff;
+      }
+    }
+    return pixels;
+  }
+
+  private static toRgba(
+    pixels: Uint8Array,
+    header: PngHeader,
+    stride: number,
+    palette: Uint8Array | null,
+    transparency: Uint8Array | null
+  ): RgbaImage {
+    const { width, height, bitDepth, colorType } = header;
+    const data = new Uint8Array(width * height * 4);
+    // 16-bit samples keep their high byte
+    const sampleBytes = bitDepth === 16 ? 2 : 1;
+    const channels = CHANNELS[colorType];
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const out = (y * width + x) * 4;
+
+        if (colorType === 3) {
+          const index = PngCodec.readPackedSample(
+            pixels,
+            y * stride,
+            x,
+            bitDepth
+          );
+          data[out] = palette![index * 3];
+          data[out + 1] = palette![index * 3 + 1];
+          data[out + 2] = palette![index * 3 + 2];
+          data[out + 3] =
+            transparency && index < transparency.length
+              ? transparency[index]
+              : 255;
+          continue;
+        }
+
+        const start = y * stride + x * channels * sampleBytes;
+        const sample = (channel: number) =>
+          pixels[start + channel * sampleBytes];
+
+        if (colorType === 0 || colorType === 4) {
+          const gray = sample(0);
+          data[out] = data[out + 1] = data[out + 2] = gray;
+          data[out + 3] = colorType === 4 ? sample(1) : 255;
+        } else {
+          data[out] = sample(0);
+          data[out + 1] = sample(1);
+          data[out + 2] = sample(2);
+          data[out + 3] = colorType === 6 ? sample(3) : 255;
+        }
+      }
+    }
+
+    return { width, height, data };
+  }
+
+  /**
+   * Palette index of pixel `x`; 1, 2 and 4-bit indices are packed MSB first
+   */
+  private static readPackedSample(
+    pixels: Uint8Array,
+    rowStart: number,
+    x: number,
+    bitDepth: number
+  ): number {
+    if (bitDepth === 8) {
+      return pixels[rowStart + x];
+    }
+    const bit = x * bitDepth;
+    const byte = pixels[rowStart + (bit >> 3)];
+    return (byte >> (8 - bitDepth - (bit & 7))) & ((1 << bitDepth) - 1);
+  }
+
+  private static paeth(left: number, up: number, upLeft: number): number {
+    const estimate = left + up - upLeft;
+    const toLeft = Math.abs(estimate - left);
+    const toUp = Math.abs(estimate - up);
+    const toUpLeft = Math.abs(estimate - upLeft);
+    if (toLeft <= toUp && toLeft <= toUpLeft) return left;
+    return toUp <= toUpLeft ? up : upLeft;
+  }
+
+  /**
+   * zlib stream made of stored blocks, with its Adler-32 trailer
+   */
+  private static zlibStored(raw: Uint8Array): Uint8Array {
+    const blockCount = Math.max(1, Math.ceil(raw.length / MAX_STORED_BLOCK));
+    const output = new Uint8Array(2 + raw.length + blockCount * 5 + 4);
+    output[0] = 0x78;
+    output[1] = 0x01;
+
+    let offset = 2;
+    for (let i = 0; i < blockCount; i++) {
+      const start = i * MAX_STORED_BLOCK;
+      const length = Math.min(MAX_STORED_BLOCK, raw.length - start);
+      output[offset] = i === blockCount - 1 ? 1 : 0;
+      output[offset + 1] = length & 0xff;
+      output[offset + 2] = length >> 8;
+      output[offset + 3] = ~length & 0xff;
+      output[offset + 4] = (~length >> 8) & 0xff;
+      output.set(raw.subarray(start, start + length), offset + 5);
+      offset += 5 + length;
+    }
+
+    let a = 1;
+    let b = 0;
+    for (let i = 0; i < raw.length; i++) {
+      a = (a + raw[i]) % 65521;
+      b = (b + a) % 65521;
+    }
+    new DataView(output.buffer).setUint32(offset, ((b << 16) | a) >>> 0);
+    return output;
+  }
+
+  private static chunk(type: string, data: Uint8Array): Uint8Array {
+    const chunk = new Uint8Array(12 + data.length);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, data.length);
+    for (let i = 0; i < 4; i++) {
+      chunk[4 + i] = type.charCodeAt(i);
+    }
+    chunk.set(data, 8);
+    view.setUint32(
+      8 + data.length,
+      Crc32.compute(chunk.subarray(4, 8 + data.length))
+    );
+    return chunk;
+  }
+
+  private static concat(parts: Uint8Array[]): Uint8Array {
+    const output = new Uint8Array(
+      parts.reduce((sum, part) => sum + part.length, 0)
+    );
+    let offset = 0;
+    for (const part of parts) {
+      output.set(part, offset);
+      offset += part.length;
+    }
+    return output;
+  }
+
+  private static readUint32BE(bytes: Uint8Array, offset: number): number {
+    if (bytes.length < offset + 4) return 0;
+    return (
+      ((bytes[offset] << 24) >>> 0) +
+      (bytes[offset + 1] << 16) +
+      (bytes[offset + 2] << 8) +
+      bytes[offset + 3]
+    );
+  }
+}
@@ -0,0 +1,319 @@
+/**
+ * ThumbHash
+ * Compact image placeholders: a DCT of luminance, chroma and alpha in
+ * about 25 bytes (https://evanw.github.io/thumbhash/)
+ */
+
+import type { RgbaImage } from "./PngCodec";
+
+/**
+ * Largest input side accepted by the encoder
+ */
+export const THUMBHASH_MAX_DIMENSION = 100;
+
+/**
+ * Longest side of decoded placeholders
+ */
+const DECODED_SIZE = 32;
+
+/**
+ * Average color, each channel 0-1
+ */
+export interface ThumbHashColor {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+interface EncodedChannel {
+  dc: number;
+  ac: number[];
+  scale: number;
+}
+
+export class ThumbHash {
+  /**
+   * Encode an image of at most 100x100 pixels
+   */
+  static encode(image: RgbaImage): Uint8Array {
+    const { width: w, height: h, data: rgba } = image;
+    if (w > THUMBHASH_MAX_DIMENSION || h > THUMBHASH_MAX_DIMENSION) {
+      throw new Error(`${w}x${h} does not fit in 100x100`);
+    }
+
+    // Average color, weighted by alpha
+    let avgR = 0;
+    let avgG = 0;
+    let avgB = 0;
+    let avgA = 0;
+    for (let i = 0, j = 0; i < w * h; i++, j += 4) {
+      const alpha = rgba[j + 3] / 255;
+      avgR += (alpha / 255) * rgba[j];
+      avgG += (alpha / 255) * rgba[j + 1];
+      avgB += (alpha / 255) * rgba[j + 2];
+      avgA += alpha;
+    }
+    if (avgA) {
+      avgR /= avgA;
+      avgG /= avgA;
+      avgB /= avgA;
+    }
+
+    const hasAlpha = avgA < w * h;
+    // Fewer luminance terms leave room for alpha
+    const lLimit = hasAlpha ? 5 : 7;
+    const lx = Math.max(1, Math.round((lLimit * w) / Math.max(w, h)));
+    const ly = Math.max(1, Math.round((lLimit * h) / Math.max(w, h)));
+
+    // Luminance, yellow-blue, red-green and alpha, composited over the average
+    const l: number[] = [];
+    const p: number[] = [];
+    const q: number[] = [];
+    const a: number[] = [];
+    for (let i = 0, j = 0; i < w * h; i++, j += 4) {
+      const alpha = rgba[j + 3] / 255;
+      const r = avgR * (1 - alpha) + (alpha / 255) * rgba[j];
+      const g = avgG * (1 - alpha) + (alpha / 255) * rgba[j + 1];
+      const b = avgB * (1 - alpha) + (alpha / 255) * rgba[j + 2];
+      l[i] = (r + g + b) / 3;
+      p[i] = (r + g) / 2 - b;
+      q[i] = r - g;
+      a[i] = alpha;
+    }
+
+    const lChannel = ThumbHash.encodeChannel(
+      l,
+      w,
+      h,
+      Math.max(3, lx),
+      Math.max(3, ly)
+    );
+    const pChannel = ThumbHash.encodeChannel(p, w, h, 3, 3);
+    const qChannel = ThumbHash.encodeChannel(q, w, h, 3, 3);
+    const aChannel = hasAlpha ? ThumbHash.encodeChannel(a, w, h, 5, 5) : null;
+
+    const isLandscape = w > h;
+    const header24 =
+      Math.round(63 * lChannel.dc) |
+      (Math.round(31.5 + 31.5 * pChannel.dc) << 6) |
+      (Math.round(31.5 + 31.5 * qChannel.dc) << 12) |
+      (Math.round(31 * lChannel.scale) << 18) |
+      ((hasAlpha ? 1 : 0) << 23);
+    const header16 =
+      (isLandscape ? ly : lx) |
+      (Math.round(63 * pChannel.scale) << 3) |
+      (Math.round(63 * qChannel.scale) << 9) |
+      ((isLandscape ? 1 : 0) << 15);
+
+    const channels = aChannel
+      ? [lChannel, pChannel, qChannel, aChannel]
+      : [lChannel, pChannel, qChannel];
+    const acStart = aChannel ? 6 : 5;
+    const acCount = channels.reduce((sum, c) => sum + c.ac.length, 0);
+
+    const hash = new Uint8Array(acStart + Math.ceil(acCount / 2));
+    hash[0] = header24 & 0xff;
+    hash[1] = (header24 >> 8) & 0xff;
+    hash[2] = header24 >> 16;
+    hash[3] = header16 & 0xff;
+    hash[4] = header16 >> 8;
+    if (aChannel) {
+      hash[5] =
+        Math.round(15 * aChannel.dc) | (Math.round(15 * aChannel.scale) << 4);
+    }
+
+    // AC terms as 4-bit nibbles, low nibble first
+    let acIndex = 0;
+    for (const channel of channels) {
+      for (const f of channel.ac) {
+        hash[acStart + (acIndex >> 1)] |=
+          Math.round(15 * f) << ((acIndex & 1) << 2);
+        acIndex++;
+      }
+    }
+    return hash;
+  }
+
+  /**
+   * Decode to a placeholder image, at most 32 pixels on its longest side
+   */
+  static decode(hash: Uint8Array): RgbaImage {
+    const header24 = hash[0] | (hash[1] << 8) | (hash[2] << 16);
+    const header16 = hash[3] | (hash[4] << 8);
+    const lDc = (header24 & 63) / 63;
+    const pDc = ((header24 >> 6) & 63) / 31.5 - 1;
+    const qDc = ((header24 >> 12) & 63) / 31.5 - 1;
+    const lScale = ((header24 >> 18) & 31) / 31;
+    const hasAlpha = header24 >> 23 !== 0;
+    const pScale = ((header16 >> 3) & 63) / 63;
+    const qScale = ((header16 >> 9) & 63) / 63;
+    const isLandscape = header16 >> 15 !== 0;
+    const lx = Math.max(3, isLandscape ? (hasAlpha ? 5 : 7) : header16 & 7);
+    const ly = Math.max(3, isLandscape ? header16 & 7 : hasAlpha ? 5 : 7);
+    const aDc = hasAlpha ? (hash[5] & 15) / 15 : 1;
+    const aScale = (hash[5] >> 4) / 15;
+
+    // Saturation is boosted 1.25x to make up for quantization
+    const acStart = hasAlpha ? 6 : 5;
+    let acIndex = 0;
+    const decodeChannel = (nx: number, ny: number, scale: number) => {
+      const ac: number[] = [];
+      for (let cy = 0; cy < ny; cy++) {
+        for (let cx = cy ? 0 : 1; cx * ny < nx * (ny - cy); cx++) {
+          const nibble =
+            (hash[acStart + (acIndex >> 1)] >> ((acIndex & 1) << 2)) & 15;
+          ac.push((nibble / 7.5 - 1) * scale);
+          acIndex++;
+        }
+      }
+      return ac;
+    };
+    const lAc = decodeChannel(lx, ly, lScale);
+    const pAc = decodeChannel(3, 3, pScale * 1.25);
+    const qAc = decodeChannel(3, 3, qScale * 1.25);
+    const aAc = hasAlpha ? decodeChannel(5, 5, aScale) : [];
+
+    const ratio = ThumbHash.getAspectRatio(hash);
+    const w = Math.round(ratio > 1 ? DECODED_SIZE : DECODED_SIZE * ratio);
+    const h = Math.round(ratio > 1 ? DECODED_SIZE / ratio : DECODED_SIZE);
+    const data = new Uint8Array(w * h * 4);
+    const fx: number[] = [];
+    const fy: number[] = [];
+
+    for (let y = 0, i = 0; y < h; y++) {
+      for (let x = 0; x < w; x++, i += 4) {
+        let l = lDc;
+        let p = pDc;
+        let q = qDc;
+        let a = aDc;
+
+        for (let cx = 0, n = Math.max(lx, hasAlpha ? 5 : 3); cx < n; cx++) {
+          fx[cx] = Math.cos((Math.PI / w) * (x + 0.5) * cx);
+        }
+        for (let cy = 0, n = Math.max(ly, hasAlpha ? 5 : 3); cy < n; cy++) {
+          fy[cy] = Math.cos((Math.PI / h) * (y + 0.5) * cy);
+        }
+
+        for (let cy = 0, j = 0; cy < ly; cy++) {
+          const fy2 = fy[cy] * 2;
+          for (let cx = cy ? 0 : 1; cx * ly < lx * (ly - cy); cx++, j++) {
+            l += lAc[j] * fx[cx] * fy2;
+          }
+        }
+        for (let cy = 0, j = 0; cy < 3; cy++) {
+          const fy2 = fy[cy] * 2;
+          for (let cx = cy ? 0 : 1; cx < 3 - cy; cx++, j++) {
+            const f = fx[cx] * fy2;
+            p += pAc[j] * f;
+            q += qAc[j] * f;
+          }
+        }
+        if (hasAlpha) {
+          for (let cy = 0, j = 0; cy < 5; cy++) {
+            const fy2 = fy[cy] * 2;
+            for (let cx = cy ? 0 : 1; cx < 5 - cy; cx++, j++) {
+              a += aAc[j] * fx[cx] * fy2;
+            }
+          }
+        }
+
+        const b = l - (2 / 3) * p;
+        const r = (3 * l - b + q) / 2;
+        const g = r - q;
+        data[i] = ThumbHash.toByte(r);
+        data[i + 1] = ThumbHash.toByte(g);
+        data[i + 2] = ThumbHash.toByte(b);
+        data[i + 3] = ThumbHash.toByte(a);
+      }
+    }
+
+    return { width: w, height: h, data };
+  }
+
+  /**
+   * Average color without decoding the image
+   */
+  static getAverageColor(hash: Uint8Array): ThumbHashColor {
+    const header = hash[0] | (hash[1] << 8) | (hash[2] << 16);
+    const l = (header & 63) / 63;
+    const p = ((header >> 6) & 63) / 31.5 - 1;
+    const q = ((header >> 12) & 63) / 31.5 - 1;
+    const hasAlpha = header >> 23 !== 0;
+    const b = l - (2 / 3) * p;
+    const r = (3 * l - b + q) / 2;
+    const g = r - q;
+    return {
+      r: ThumbHash.clamp(r),
+      g: ThumbHash.clamp(g),
+      b: ThumbHash.clamp(b),
+      a: hasAlpha ? (hash[5] & 15) / 15 : 1,
+    };
+  }
+
+  /**
+   * Approximate width / height of the original image
+   */
+  static getAspectRatio(hash: Uint8Array): number {
+    const header = hash[3];
+    const hasAlpha = (hash[2] & 0x80) !== 0;
+    const isLandscape = (hash[4] & 0x80) !== 0;
+    const lx = isLandscape ? (hasAlpha ? 5 : 7) : header & 7;
+    const ly = isLandscape ? header & 7 : hasAlpha ? 5 : 7;
+    return lx / ly;
+  }
+
+  /**
+   * DCT of one channel: the DC term, and AC terms normalised to 0-1
+   */
+  private static encodeChannel(
+    channel: number[],
+    w: number,
+    h: number,
+    nx: number,
+    ny: number
+  ): EncodedChannel {
+    let dc = 0;
+    let scale = 0;
+    const ac: number[] = [];
+    const fx: number[] = [];
+
+    for (let cy = 0; cy < ny; cy++) {
+      for (let cx = 0; cx * ny < nx * (ny - cy); cx++) {
+        let f = 0;
+        for (let x = 0; x < w; x++) {
+          fx[x] = Math.cos((Math.PI / w) * cx * (x + 0.5));
+        }
+        for (let y = 0; y < h; y++) {
+          const fy = Math.cos((Math.PI / h) * cy * (y + 0.5));
+          for (let x = 0; x < w; x++) {
+            f += channel[x + y * w] * fx[x] * fy;
+          }
+        }
+        f /= w * h;
+
+        if (cx || cy) {
+          ac.push(f);
+          scale = Math.max(scale, Math.abs(f));
+        } else {
+          dc = f;
+        }
+      }
+    }
+
+    if (scale) {
+      for (let i = 0; i < ac.length; i++) {
+        ac[i] = 0.5 + (0.5 / scale) * ac[i];
+      }
+    }
+    return { dc, ac, scale };
+  }
+
+  private static clamp(value: number): number {
+    return Math.max(0, Math.min(1, value));
+  }
+
+  private static toByte(value: number): number {
+    return Math.round(255 * ThumbHash.clamp(value));
+  }
+}
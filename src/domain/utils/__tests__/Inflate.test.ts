@@ -0,0 +1,61 @@
+/**
+ * Inflate against streams written by Node's zlib
+ */
+
+import zlib from "node:zlib";
+import { Inflate } from "../Inflate";
+
+const TEXT = Buffer.from(
+  "The quick brown fox jumps over the lazy dog. ".repeat(40) +
+    "Pack my box with five dozen liquor jugs.",
+);
+
+/**
+ * Deterministic bytes that barely compress, longer than the 32 KB window
+ */
+const NOISE = (() => {
+  const bytes = Buffer.alloc(100_000);
+  let seed = 7;
+  for (let i = 0; i < bytes.length; i++) {
+    seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+    // Repeat earlier runs now and then to get far back-references
+    bytes[i] = i > 40_000 && i % 1000 < 50 ? bytes[i - 32_000] : seed >> 16;
+  }
+  return bytes;
+})();
+
+describe("Inflate", () => {
+  it.each([
+    ["stored", { level: 0 }],
+    ["fixed Huffman", { strategy: zlib.constants.Z_FIXED }],
+    ["dynamic Huffman", { level: 9 }],
+  ])("decodes %s blocks", (_, options) => {
+    const compressed = zlib.deflateSync(TEXT, options);
+    expect(Buffer.from(Inflate.zlib(compressed))).toEqual(TEXT);
+  });
+
+  it("decodes multi-block streams with distant back-references", () => {
+    const compressed = zlib.deflateSync(NOISE, { level: 6 });
+    expect(Buffer.from(Inflate.zlib(compressed, NOISE.length))).toEqual(NOISE);
+  });
+
+  it("decodes raw DEFLATE data at an offset", () => {
+    const raw = zlib.deflateRawSync(TEXT);
+    const padded = Buffer.concat([Buffer.from([1, 2, 3]), raw]);
+    expect(Buffer.from(Inflate.raw(padded, 3))).toEqual(TEXT);
+  });
+
+  it("decodes an empty stream", () => {
+    expect(Inflate.zlib(zlib.deflateSync(Buffer.alloc(0)))).toHaveLength(0);
+  });
+
+  it("rejects other compression methods and truncated data", () => {
+    expect(() => Inflate.zlib(new Uint8Array([0x79, 0x9c]))).toThrow(
+      "Unsupported zlib compression method",
+    );
+    const compressed = zlib.deflateSync(TEXT);
+    expect(() => Inflate.zlib(compressed.subarray(0, 20))).toThrow(
+      "Unexpected end of compressed data",
+    );
+  });
+});
@@ -0,0 +1,268 @@
+/**
+ * MediaDurationParser against hand-built MP4, WAV and MP3 headers
+ */
+
+import { MediaDurationParser } from "../MediaDurationParser";
+
+const ascii = (text: string) => Array.from(text, (c) => c.charCodeAt(0));
+
+const uint32BE = (value: number) => [
+  (value >>> 24) & 0xff,
+  (value >>> 16) & 0xff,
+  (value >>> 8) & 0xff,
+  value & 0xff,
+];
+
+const uint64BE = (value: number) => [
+  ...uint32BE(Math.floor(value / 0x100000000)),
+  ...uint32BE(value >>> 0),
+];
+
+const uint32LE = (value: number) => uint32BE(value).reverse();
+
+const uint16LE = (value: number) => [value & 0xff, (value >> 8) & 0xff];
+
+const box = (type: string, payload: number[]) => [
+  ...uint32BE(8 + payload.length),
+  ...ascii(type),
+  ...payload,
+];
+
+const mvhdV0 = (timescale: number, duration: number) => [
+  0,
+  0,
+  0,
+  0,
+  ...uint32BE(0),
+  ...uint32BE(0),
+  ...uint32BE(timescale),
+  ...uint32BE(duration),
+  ...new Array(80).fill(0),
+];
+
+const mvhdV1 = (timescale: number, duration: number) => [
+  1,
+  0,
+  0,
+  0,
+  ...uint64BE(0),
+  ...uint64BE(0),
+  ...uint32BE(timescale),
+  ...uint64BE(duration),
+  ...new Array(80).fill(0),
+];
+
+/**
+ * RIFF/WAVE header for 16-bit mono 44.1 kHz (88200 bytes per second)
+ * with an odd-sized LIST chunk before the data chunk header
+ */
+const wavHeader = (dataSize: number) => [
+  ...ascii("RIFF"),
+  ...uint32LE(0),
+  ...ascii("WAVE"),
+  ...ascii("fmt "),
+  ...uint32LE(16),
+  ...uint16LE(1),
+  ...uint16LE(1),
+  ...uint32LE(44100),
+  ...uint32LE(88200),
+  ...uint16LE(2),
+  ...uint16LE(16),
+  ...ascii("LIST"),
+  ...uint32LE(3),
+  ...ascii("abc"),
+  0,
+  ...ascii("data"),
+  ...uint32LE(dataSize),
+];
+
+/** MPEG-1 layer III, 128 kbit/s, 44.1 kHz, stereo / mono */
+const MP3_STEREO = [0xff, 0xfb, 0x90, 0x00];
+const MP3_MONO = [0xff, 0xfb, 0x90, 0xc0];
+/** MPEG-2 layer III, 64 kbit/s, 22.05 kHz, stereo */
+const MP3_MPEG2 = [0xff, 0xf3, 0x80, 0x00];
+
+/**
+ * A frame header followed by a VBR tag at `tagOffset` bytes after it
+ */
+const vbrFrame = (header: number[], tagOffset: number, tag: number[]) => {
+  const bytes = new Uint8Array(512);
+  bytes.set(header, 0);
+  bytes.set(tag, tagOffset);
+  return bytes;
+};
+
+const xing = (tag: "Xing" | "Info", frames: number) => [
+  ...ascii(tag),
+  ...uint32BE(0x0f),
+  ...uint32BE(frames),
+];
+
+describe("MediaDurationParser", () => {
+  describe("ISO base media", () => {
+    it("reads a version 0 mvhd", () => {
+      const moov = new Uint8Array(box("mvhd", mvhdV0(600, 3000)));
+      expect(MediaDurationParser.parseMoov(moov)).toBe(5000);
+    });
+
+    it("reads a version 1 mvhd with a 64-bit duration", () => {
+      const moov = new Uint8Array(box("mvhd", mvhdV1(1000, 0x100000000 + 500)));
+      expect(MediaDurationParser.parseMoov(moov)).toBe(0x100000000 + 500);
+    });
+
+    it("skips boxes before mvhd, 64-bit sizes included", () => {
+      const large = [
+        ...uint32BE(1),
+        ...ascii("udta"),
+        ...uint64BE(20),
+        ...[1, 2, 3, 4],
+      ];
+      const moov = new Uint8Array([
+        ...box("trak", [0, 0, 0, 0]),
+        ...large,
+        ...box("mvhd", mvhdV0(1000, 1234)),
+      ]);
+      expect(MediaDurationParser.parseMoov(moov)).toBe(1234);
+    });
+
+    it("reads a last mvhd whose size runs to the end", () => {
+      const mvhd = [...uint32BE(0), ...ascii("mvhd"), ...mvhdV0(90000, 45000)];
+      const moov = new Uint8Array([...box("trak", []), ...mvhd]);
+      expect(MediaDurationParser.parseMoov(moov)).toBe(500);
+    });
+
+    it("reads 64-bit box headers", () => {
+      const bytes = new Uint8Array([
+        ...uint32BE(1),
+        ...ascii("mdat"),
+        ...uint64BE(0x100000010),
+      ]);
+      expect(MediaDurationParser.readBoxHeader(bytes)).toEqual({
+        type: "mdat",
+        size: 0x100000010,
+        headerSize: 16,
+      });
+    });
+
+    it.each([
+      ["a missing duration", mvhdV0(1000, 0)],
+      ["an unknown duration", mvhdV0(1000, 0xffffffff)],
+      ["a zero timescale", mvhdV0(0, 1000)],
+    ])("returns null for %s", (_, mvhd) => {
+      expect(
+        MediaDurationParser.parseMoov(new Uint8Array(box("mvhd", mvhd))),
+      ).toBeNull();
+    });
+
+    it("returns null for moov without mvhd and for broken sizes", () => {
+      expect(
+        MediaDurationParser.parseMoov(new Uint8Array(box("trak", [0, 0]))),
+      ).toBeNull();
+      expect(
+        MediaDurationParser.parseMoov(
+          new Uint8Array([...uint32BE(4), ...ascii("trak")]),
+        ),
+      ).toBeNull();
+    });
+  });
+
+  describe("WAV", () => {
+    it("reads the data chunk size", () => {
+      expect(
+        MediaDurationParser.parseWav(new Uint8Array(wavHeader(88200))),
+      ).toBe(1000);
+    });
+
+    it.each([0, 0xffffffff])(
+      "falls back to the file size for a streamed data size of %i",
+      (dataSize) => {
+        const header = new Uint8Array(wavHeader(dataSize));
+        expect(
+          MediaDurationParser.parseWav(header, header.length + 176400),
+        ).toBe(2000);
+      },
+    );
+
+    it("returns null for other RIFF files and missing data chunks", () => {
+      const avi = new Uint8Array(wavHeader(88200));
+      avi.set(ascii("AVI "), 8);
+      expect(MediaDurationParser.parseWav(avi)).toBeNull();
+      expect(
+        MediaDurationParser.parseWav(new Uint8Array(wavHeader(0).slice(0, 48))),
+      ).toBeNull();
+    });
+  });
+
+  describe("MP3", () => {
+    it("measures ID3v2 tags, footer included", () => {
+      // Syncsafe 300: 0b10 0101100
+      const tag = [...ascii("ID3"), 4, 0, 0, 0, 0, 0x02, 0x2c];
+      expect(MediaDurationParser.getId3Size(new Uint8Array(tag))).toBe(310);
+      tag[5] = 0x10;
+      expect(MediaDurationParser.getId3Size(new Uint8Array(tag))).toBe(320);
+      expect(MediaDurationParser.getId3Size(new Uint8Array(MP3_STEREO))).toBe(
+        0,
+      );
+    });
+
+    it("finds the first frame after junk and estimates CBR durations", () => {
+      const bytes = new Uint8Array([0xff, 0x00, 0x12, ...MP3_STEREO]);
+      const frame = MediaDurationParser.findMpegFrame(bytes);
+
+      expect(frame).toEqual({
+        offset: 3,
+        bitrate: 128000,
+        sampleRate: 44100,
+        samplesPerFrame: 1152,
+        frameCount: undefined,
+      });
+      expect(MediaDurationParser.parseMpegAudio(frame!, 160000)).toBe(10000);
+    });
+
+    it.each([
+      [
+        "Xing, MPEG-1 stereo",
+        MP3_STEREO,
+        4 + 32,
+        xing("Xing", 1000),
+        1000,
+        26122,
+      ],
+      ["Info, MPEG-1 mono", MP3_MONO, 4 + 17, xing("Info", 1000), 1000, 26122],
+      [
+        "Xing, MPEG-2 stereo",
+        MP3_MPEG2,
+        4 + 17,
+        xing("Xing", 1000),
+        1000,
+        26122,
+      ],
+      [
+        "VBRI",
+        MP3_STEREO,
+        36,
+        [...ascii("VBRI"), ...new Array(10).fill(0), ...uint32BE(2000)],
+        2000,
+        52245,
+      ],
+    ])(
+      "counts frames from a %s header",
+      (_, header, tagOffset, tag, frames, duration) => {
+        const frame = MediaDurationParser.findMpegFrame(
+          vbrFrame(header, tagOffset, tag),
+        );
+        expect(frame?.frameCount).toBe(frames);
+        // The bitrate estimate would give a very different duration
+        expect(MediaDurationParser.parseMpegAudio(frame!, 1)).toBe(duration);
+      },
+    );
+
+    it("ignores a Xing header without the frame count flag", () => {
+      const tag = [...ascii("Xing"), ...uint32BE(0x0e), ...uint32BE(1000)];
+      const frame = MediaDurationParser.findMpegFrame(
+        vbrFrame(MP3_STEREO, 4 + 32, tag),
+      );
+      expect(frame?.frameCount).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,333 @@
+/**
+ * ExifReader and MetadataStripper round trips on small JPEG and PNG files
+ * carrying EXIF, XMP, ICC profiles and comments
+ */
+
+import { ExifOrientation } from "../../entities/MediaMetadata";
+import { Crc32 } from "../Crc32";
+import { ExifReader } from "../ExifReader";
+import { MetadataStripper } from "../MetadataStripper";
+import { PngCodec } from "../PngCodec";
+
+interface TiffEntry {
+  tag: number;
+  /** 2 ASCII, 3 SHORT, 4 LONG, 5 RATIONAL (numerator, denominator pairs) */
+  type: 2 | 3 | 4 | 5;
+  value: string | number[];
+}
+
+const TYPE_SIZES = { 2: 1, 3: 2, 4: 4, 5: 8 };
+
+const ascii = (text: string) => Array.from(text, (c) => c.charCodeAt(0));
+
+const concat = (...parts: ArrayLike<number>[]) =>
+  new Uint8Array(parts.flatMap((part) => Array.from(part)));
+
+const indexOf = (bytes: Uint8Array, needle: ArrayLike<number>) =>
+  Buffer.from(bytes).indexOf(Buffer.from(Array.from(needle)));
+
+const entryCount = (entry: TiffEntry) =>
+  typeof entry.value === "string"
+    ? entry.value.length + 1
+    : entry.type === 5
+      ? entry.value.length / 2
+      : entry.value.length;
+
+const entryBytes = (entry: TiffEntry) =>
+  entryCount(entry) * TYPE_SIZES[entry.type];
+
+const ifdSize = (entries: TiffEntry[]) =>
+  entries.reduce(
+    (size, entry) => {
+      const bytes = entryBytes(entry);
+      return size + (bytes > 4 ? bytes + (bytes & 1) : 0);
+    },
+    2 + entries.length * 12 + 4,
+  );
+
+/**
+ * Little-endian TIFF with IFD0 linking to an EXIF and a GPS IFD
+ */
+const buildTiff = (ifd0: TiffEntry[], exif: TiffEntry[], gps: TiffEntry[]) => {
+  const pointers: TiffEntry[] = [
+    { tag: 0x8769, type: 4, value: [0] },
+    { tag: 0x8825, type: 4, value: [0] },
+  ];
+  const root = [...ifd0, ...pointers];
+  const offsets = [8];
+  offsets.push(offsets[0] + ifdSize(root));
+  offsets.push(offsets[1] + ifdSize(exif));
+  pointers[0].value = [offsets[1]];
+  pointers[1].value = [offsets[2]];
+
+  const tiff = new Uint8Array(offsets[2] + ifdSize(gps));
+  const view = new DataView(tiff.buffer);
+  tiff.set(ascii("II"));
+  view.setUint16(2, 42, true);
+  view.setUint32(4, 8, true);
+
+  [root, exif, gps].forEach((entries, index) => {
+    const start = offsets[index];
+    let data = start + 2 + entries.length * 12 + 4;
+    view.setUint16(start, entries.length, true);
+
+    [...entries]
+      .sort((a, b) => a.tag - b.tag)
+      .forEach((entry, i) => {
+        const at = start + 2 + i * 12;
+        const bytes = entryBytes(entry);
+        view.setUint16(at, entry.tag, true);
+        view.setUint16(at + 2, entry.type, true);
+        view.setUint32(at + 4, entryCount(entry), true);
+
+        let target = at + 8;
+        if (bytes > 4) {
+          view.setUint32(at + 8, data, true);
+          target = data;
+          data += bytes + (bytes & 1);
+        }
+        if (typeof entry.value === "string") {
+          tiff.set(ascii(entry.value), target);
+        } else {
+          entry.value.forEach((value, j) => {
+            if (entry.type === 3) view.setUint16(target + j * 2, value, true);
+            else view.setUint32(target + j * 4, value, true);
+          });
+        }
+      });
+  });
+
+  return tiff;
+};
+
+const exifTiff = (orientation: ExifOrientation) =>
+  buildTiff(
+    [
+      { tag: 0x010f, type: 2, value: "Acme" },
+      { tag: 0x0110, type: 2, value: "Phone 1" },
+      { tag: 0x0112, type: 3, value: [orientation] },
+    ],
+    [
+      { tag: 0x9003, type: 2, value: "2024:03:01 14:22:05" },
+      { tag: 0x9011, type: 2, value: "+01:00" },
+    ],
+    [
+      { tag: 0x0001, type: 2, value: "N" },
+      { tag: 0x0002, type: 5, value: [51, 1, 30, 1, 0, 1] },
+      { tag: 0x0003, type: 2, value: "W" },
+      { tag: 0x0004, type: 5, value: [0, 1, 7, 1, 30, 1] },
+      { tag: 0x0006, type: 5, value: [35, 1] },
+    ],
+  );
+
+const XMP = ascii(
+  '<x:xmpmeta><rdf:Description exif:GPSLatitude="48,51.5N" ' +
+    'exif:GPSLongitude="2,17.6E" tiff:Model="Phone 1"/></x:xmpmeta>',
+);
+
+const ICC_PROFILE = [...ascii("ICC_PROFILE"), 0, 1, 1, ...ascii("fake-icc")];
+
+const FULL_METADATA = {
+  capturedAt: "2024-03-01T14:22:05+01:00",
+  orientation: ExifOrientation.ROTATE_90,
+  camera: { make: "Acme", model: "Phone 1" },
+  location: { latitude: 51.5, longitude: -0.125, altitude: 35 },
+};
+
+const jpegSegment = (marker: number, payload: ArrayLike<number>) => {
+  const length = payload.length + 2;
+  return concat([0xff, marker, length >> 8, length & 0xff], payload);
+};
+
+const JFIF = jpegSegment(
+  0xe0,
+  concat(ascii("JFIF\0"), [1, 1, 0, 0, 1, 0, 1, 0, 0]),
+);
+const ICC = jpegSegment(0xe2, ICC_PROFILE);
+const SCAN = concat(
+  jpegSegment(0xda, [1, 1, 0, 0, 0x3f, 0]),
+  [0x12, 0x34, 0xff, 0x00, 0x56],
+  [0xff, 0xd9],
+);
+
+const buildJpeg = (orientation: ExifOrientation) =>
+  concat(
+    [0xff, 0xd8],
+    JFIF,
+    jpegSegment(0xe1, concat(ascii("Exif\0\0"), exifTiff(orientation))),
+    jpegSegment(0xe1, concat(ascii("http://ns.adobe.com/xap/1.0/\0"), XMP)),
+    ICC,
+    jpegSegment(0xfe, ascii("taken at home")),
+    SCAN,
+  );
+
+/**
+ * Segment markers up to the start of scan
+ */
+const jpegMarkers = (bytes: Uint8Array) => {
+  const markers: number[] = [];
+  let offset = 2;
+  while (bytes[offset] === 0xff && bytes[offset + 1] !== 0xda) {
+    markers.push(bytes[offset + 1]);
+    offset += 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+  }
+  return markers;
+};
+
+const pngChunk = (type: string, data: ArrayLike<number>) => {
+  const body = concat(ascii(type), data);
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(body, 4);
+  view.setUint32(8 + data.length, Crc32.compute(body));
+  return chunk;
+};
+
+const pngChunks = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset);
+  const chunks: { type: string; data: Uint8Array; crc: number }[] = [];
+  for (let offset = 8; offset + 12 <= bytes.length;) {
+    const length = view.getUint32(offset);
+    chunks.push({
+      type: String.fromCharCode(...bytes.subarray(offset + 4, offset + 8)),
+      data: bytes.subarray(offset + 8, offset + 8 + length),
+      crc: view.getUint32(offset + 8 + length),
+    });
+    offset += 12 + length;
+  }
+  return chunks;
+};
+
+const PIXELS = {
+  width: 2,
+  height: 2,
+  data: new Uint8Array([
+    255, 0, 0, 255, 0, 255, 0, 255, 0, 0, 255, 255, 255, 255, 255, 128,
+  ]),
+};
+const ICCP = pngChunk("iCCP", [...ascii("icc"), 0, 0, ...ascii("fake-icc")]);
+
+/**
+ * A real PNG with metadata chunks spliced in after IHDR
+ */
+const buildPng = (orientation: ExifOrientation) => {
+  const plain = PngCodec.encode(PIXELS);
+  const afterIhdr = 8 + 25;
+  return concat(
+    plain.subarray(0, afterIhdr),
+    ICCP,
+    pngChunk("eXIf", exifTiff(orientation)),
+    pngChunk("tEXt", ascii("Comment\0taken at home")),
+    pngChunk("iTXt", [...ascii("XML:com.adobe.xmp"), 0, 0, 0, 0, 0, ...XMP]),
+    pngChunk("tIME", [7, 232, 3, 1, 14, 22, 5]),
+    plain.subarray(afterIhdr),
+  );
+};
+
+describe("ExifReader", () => {
+  it("reads EXIF from a JPEG, ahead of XMP", () => {
+    expect(ExifReader.read(buildJpeg(ExifOrientation.ROTATE_90))).toEqual(
+      FULL_METADATA,
+    );
+  });
+
+  it("reads EXIF from a PNG", () => {
+    expect(ExifReader.read(buildPng(ExifOrientation.ROTATE_90))).toEqual(
+      FULL_METADATA,
+    );
+  });
+
+  it("falls back to XMP for fields EXIF lacks", () => {
+    const jpeg = concat(
+      [0xff, 0xd8],
+      jpegSegment(0xe1, concat(ascii("http://ns.adobe.com/xap/1.0/\0"), XMP)),
+      SCAN,
+    );
+    const metadata = ExifReader.read(jpeg);
+
+    expect(metadata?.camera).toEqual({ model: "Phone 1" });
+    expect(metadata?.location?.latitude).toBeCloseTo(48.858333, 5);
+    expect(metadata?.location?.longitude).toBeCloseTo(2.293333, 5);
+  });
+});
+
+describe("MetadataStripper", () => {
+  describe("JPEG", () => {
+    it("keeps the orientation and ICC profile, drops the rest", () => {
+      const original = buildJpeg(ExifOrientation.ROTATE_90);
+      const stripped = MetadataStripper.strip(original)!;
+
+      expect(ExifReader.read(stripped)).toEqual({
+        orientation: ExifOrientation.ROTATE_90,
+      });
+      // JFIF first, then the rebuilt EXIF, then the ICC profile
+      expect(jpegMarkers(stripped)).toEqual([0xe0, 0xe1, 0xe2]);
+      expect(indexOf(stripped, JFIF)).toBe(2);
+      expect(indexOf(stripped, ICC)).toBeGreaterThan(0);
+      expect(indexOf(stripped, ascii("Acme"))).toBe(-1);
+      expect(indexOf(stripped, ascii("xmpmeta"))).toBe(-1);
+      expect(indexOf(stripped, ascii("taken at home"))).toBe(-1);
+      // Image data is copied unchanged
+      expect(stripped.subarray(stripped.length - SCAN.length)).toEqual(SCAN);
+    });
+
+    it("drops APP1 entirely for upright images", () => {
+      const stripped = MetadataStripper.strip(
+        buildJpeg(ExifOrientation.NORMAL),
+      )!;
+
+      expect(jpegMarkers(stripped)).toEqual([0xe0, 0xe2]);
+      expect(ExifReader.read(stripped)).toBeNull();
+    });
+
+    it("is stable when stripped again", () => {
+      const once = MetadataStripper.strip(
+        buildJpeg(ExifOrientation.ROTATE_270),
+      )!;
+      expect(MetadataStripper.strip(once)).toEqual(once);
+    });
+  });
+
+  describe("PNG", () => {
+    it("keeps the orientation, ICC profile and pixels, drops the rest", () => {
+      const original = buildPng(ExifOrientation.ROTATE_90);
+      const stripped = MetadataStripper.strip(original)!;
+      const chunks = pngChunks(stripped);
+
+      expect(chunks.map((chunk) => chunk.type)).toEqual([
+        "IHDR",
+        "iCCP",
+        "eXIf",
+        "IDAT",
+        "IEND",
+      ]);
+      expect(indexOf(stripped, ICCP)).toBeGreaterThan(0);
+      // The rebuilt eXIf chunk carries a valid CRC
+      const exif = chunks[2];
+      expect(exif.crc).toBe(Crc32.compute(concat(ascii("eXIf"), exif.data)));
+      expect(ExifReader.read(stripped)).toEqual({
+        orientation: ExifOrientation.ROTATE_90,
+      });
+      expect(PngCodec.decode(stripped)).toEqual(PngCodec.decode(original));
+    });
+
+    it("drops eXIf entirely for upright images", () => {
+      const stripped = MetadataStripper.strip(
+        buildPng(ExifOrientation.NORMAL),
+      )!;
+
+      expect(pngChunks(stripped).map((chunk) => chunk.type)).toEqual([
+        "IHDR",
+        "iCCP",
+        "IDAT",
+        "IEND",
+      ]);
+      expect(ExifReader.read(stripped)).toBeNull();
+    });
+  });
+
+  it("returns null for other containers", () => {
+    expect(MetadataStripper.strip(new Uint8Array(ascii("GIF89a")))).toBeNull();
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * MimeSniffer against hand-built file headers
+ */
+
+import { MimeSniffer } from "../MimeSniffer";
+
+const ascii = (text: string) => Array.from(text, (c) => c.charCodeAt(0));
+
+/**
+ * An ftyp box with the given major and compatible brands
+ */
+const ftyp = (major: string, ...compatible: string[]) => {
+  const size = 16 + compatible.length * 4;
+  return new Uint8Array([
+    0,
+    0,
+    0,
+    size,
+    ...ascii("ftyp"),
+    ...ascii(major),
+    0,
+    0,
+    0,
+    0,
+    ...compatible.flatMap(ascii),
+    // The next box, which must not be read as a brand
+    ...[0, 0, 0, 8, ...ascii("avif")],
+  ]);
+};
+
+const riff = (format: string) =>
+  new Uint8Array([...ascii("RIFF"), 36, 0, 0, 0, ...ascii(format)]);
+
+describe("MimeSniffer", () => {
+  describe("ISO base media", () => {
+    it.each([
+      [["mif1", "mif1", "avif"], "image/avif"],
+      [["mif1", "mif1", "heic"], "image/heic"],
+      [["msf1", "msf1", "hevc"], "image/heic"],
+      [["mif1", "mif1", "miaf"], "image/heif"],
+      [["avif", "mif1"], "image/avif"],
+      [["heic", "mif1"], "image/heic"],
+      [["qt  ", "qt  "], "video/quicktime"],
+      [["M4A ", "M4A ", "mp42", "isom"], "audio/mp4"],
+      [["3gp5", "3gp5", "isom"], "video/3gpp"],
+      [["isom", "isom", "iso2", "mp41"], "video/mp4"],
+      // Unknown major brand, known compatible brand
+      [["XYZ1", "mp42"], "video/mp4"],
+    ])("reads %j as %s", ([major, ...compatible], expected) => {
+      expect(MimeSniffer.sniff(ftyp(major, ...compatible))).toBe(expected);
+    });
+
+    it("leaves unknown brands undetected", () => {
+      expect(MimeSniffer.sniff(ftyp("crx ", "crx "))).toBeNull();
+    });
+  });
+
+  describe("MPEG audio", () => {
+    it("reads an ID3 tag as MP3", () => {
+      expect(
+        MimeSniffer.sniff(new Uint8Array([...ascii("ID3"), 4, 0, 0])),
+      ).toBe("audio/mpeg");
+    });
+
+    it("reads a bare layer III frame as MP3", () => {
+      // MPEG-1 layer III, 128 kbit/s, 44.1 kHz
+      expect(MimeSniffer.sniff(new Uint8Array([0xff, 0xfb, 0x90, 0x64]))).toBe(
+        "audio/mpeg",
+      );
+    });
+
+    it.each([
+      ["MPEG-4", 0xf1],
+      ["MPEG-2", 0xf9],
+    ])("reads an %s ADTS header as AAC", (_, second) => {
+      expect(
+        MimeSniffer.sniff(new Uint8Array([0xff, second, 0x50, 0x80])),
+      ).toBe("audio/aac");
+    });
+
+    it.each([
+      ["I", 0xff],
+      ["II", 0xfd],
+    ])("ignores layer %s frames", (_, second) => {
+      expect(
+        MimeSniffer.sniff(new Uint8Array([0xff, second, 0x90, 0x64])),
+      ).toBeNull();
+    });
+  });
+
+  describe("RIFF", () => {
+    it.each([
+      ["WEBP", "image/webp"],
+      ["WAVE", "audio/wav"],
+    ])("reads %s", (format, expected) => {
+      expect(MimeSniffer.sniff(riff(format))).toBe(expected);
+    });
+
+    it.each(["AVI ", "CDXA"])("leaves %s undetected", (format) => {
+      expect(MimeSniffer.sniff(riff(format))).toBeNull();
+    });
+  });
+
+  it.each([
+    ["JPEG", [0xff, 0xd8, 0xff, 0xe0], "image/jpeg"],
+    ["PNG", [0x89, ...ascii("PNG"), 0x0d, 0x0a, 0x1a, 0x0a], "image/png"],
+    ["GIF", ascii("GIF89a"), "image/gif"],
+    ["Ogg", ascii("OggS"), "audio/ogg"],
+  ])("reads the %s signature", (_, bytes, expected) => {
+    expect(MimeSniffer.sniff(new Uint8Array(bytes))).toBe(expected);
+  });
+
+  it("returns null for short and unknown input", () => {
+    expect(MimeSniffer.sniff(new Uint8Array(0))).toBeNull();
+    expect(MimeSniffer.sniff(new Uint8Array(ascii("%PDF-1.7")))).toBeNull();
+  });
+});
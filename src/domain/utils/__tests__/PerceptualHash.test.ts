@@ -0,0 +1,112 @@
+/**
+ * PerceptualHash on synthetic images with known difference patterns
+ */
+
+import type { RgbaImage } from "../PngCodec";
+import { DEFAULT_DUPLICATE_THRESHOLD, PerceptualHash } from "../PerceptualHash";
+
+const image = (
+  width: number,
+  height: number,
+  pixel: (x: number, y: number) => number[],
+): RgbaImage => {
+  const data = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      data.set(
+        pixel(x, y).map((value) => Math.round(value)),
+        (y * width + x) * 4,
+      );
+    }
+  }
+  return { width, height, data };
+};
+
+const gray = (value: number) => [value, value, value, 255];
+
+/**
+ * Smooth, photo-like luminance over a 64x48 frame
+ */
+const scene = (x: number, y: number) =>
+  128 + 100 * Math.sin((x / 64) * 7 + (y / 48) * 3) * Math.cos((y / 48) * 5);
+
+const tint = (value: number) => [value, value * 0.8, value * 0.6, 255];
+
+describe("PerceptualHash", () => {
+  it("hashes known difference patterns", () => {
+    const brightening = image(9, 8, (x) => gray(x * 20));
+    const darkening = image(9, 8, (x) => gray(255 - x * 20));
+    // Each row compares 255 > 0, 0 > 255, ... giving 0b10101010
+    const stripes = image(9, 8, (x) => gray(x % 2 ? 0 : 255));
+
+    expect(PerceptualHash.dHash(brightening)).toBe("0000000000000000");
+    expect(PerceptualHash.dHash(darkening)).toBe("ffffffffffffffff");
+    expect(PerceptualHash.dHash(stripes)).toBe("aaaaaaaaaaaaaaaa");
+  });
+
+  it("area-averages larger images down to the 9x8 grid", () => {
+    const stripes = image(36, 32, (x) => gray(Math.floor(x / 4) % 2 ? 0 : 255));
+    expect(PerceptualHash.dHash(stripes)).toBe("aaaaaaaaaaaaaaaa");
+  });
+
+  it("hashes a photo-like image to a known value", () => {
+    expect(
+      PerceptualHash.dHash(image(64, 48, (x, y) => tint(scene(x, y)))),
+    ).toBe("7878780f1f1e3e3c");
+  });
+
+  it("keeps near-identical images within a few bits", () => {
+    const original = PerceptualHash.dHash(
+      image(64, 48, (x, y) => tint(scene(x, y))),
+    );
+    let seed = 1;
+    const noise = () => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return (seed / 2147483648 - 0.5) * 16;
+    };
+    const brightenedWithNoise = PerceptualHash.dHash(
+      image(64, 48, (x, y) => tint(scene(x, y) + noise() + 6)),
+    );
+    const halfSize = PerceptualHash.dHash(
+      image(32, 24, (x, y) => tint(scene(x * 2 + 0.5, y * 2 + 0.5))),
+    );
+
+    expect(PerceptualHash.distance(original, brightenedWithNoise)).toBe(1);
+    expect(PerceptualHash.distance(original, halfSize)).toBe(2);
+    expect(PerceptualHash.isSimilar(original, halfSize)).toBe(true);
+  });
+
+  it("keeps different images far apart", () => {
+    const original = PerceptualHash.dHash(
+      image(64, 48, (x, y) => tint(scene(x, y))),
+    );
+    const mirrored = PerceptualHash.dHash(
+      image(64, 48, (x, y) => tint(scene(63 - x, y))),
+    );
+
+    expect(PerceptualHash.distance(original, mirrored)).toBe(30);
+    expect(PerceptualHash.isSimilar(original, mirrored)).toBe(false);
+  });
+
+  it("treats transparent pixels as white", () => {
+    const transparent = image(9, 8, (x) => [0, 0, 0, x < 4 ? 0 : 255]);
+    const white = image(9, 8, (x) => gray(x < 4 ? 255 : 0));
+    expect(PerceptualHash.dHash(transparent)).toBe(PerceptualHash.dHash(white));
+  });
+
+  it("counts differing bits", () => {
+    expect(PerceptualHash.distance("0f", "f0")).toBe(8);
+    expect(PerceptualHash.distance("abcd", "abcd")).toBe(0);
+    expect(
+      PerceptualHash.isSimilar(
+        "0000000000000000",
+        "00000000000003ff",
+        DEFAULT_DUPLICATE_THRESHOLD,
+      ),
+    ).toBe(true);
+    expect(PerceptualHash.isSimilar("00", "0000")).toBe(false);
+    expect(() => PerceptualHash.distance("00", "0000")).toThrow(
+      "Cannot compare hashes of different lengths",
+    );
+  });
+});
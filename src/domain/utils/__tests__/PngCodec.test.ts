@@ -0,0 +1,95 @@
+/**
+ * PngCodec against PNGs written by pngjs, one per filter type and color
+ * type. Expected pixels are the ones pngjs reads back.
+ */
+
+import { PngCodec } from "../PngCodec";
+
+const png = (base64: string) => new Uint8Array(Buffer.from(base64, "base64"));
+
+// prettier-ignore
+const RGBA = [
+  255, 0, 0, 255,  0, 255, 0, 255,    0, 0, 255, 255,
+  255, 255, 0, 128, 0, 255, 255, 64,  255, 0, 255, 0,
+  10, 20, 30, 255, 200, 150, 100, 255, 128, 128, 128, 200,
+];
+
+/** The RGBA fixture by filter type: none, Sub, Up, Average, Paeth */
+const RGBA_BY_FILTER = [
+  "iVBORw0KGgoAAAANSUhEUgAAAAMAAAADCAYAAABWKLW/AAAAKklEQVR4AQXBMQHAIBAAsZs7d0YLYirkVaAJV2mSkhTRxJZ63uWez8zcH2jqEvnDOLOUAAAAAElFTkSuQmCC",
+  "iVBORw0KGgoAAAANSUhEUgAAAAMAAAADCAYAAABWKLW/AAAAMklEQVR4AQEnANj/Af8AAP8B/wAAAAH/AAH//wCAAQD/wP8BAMABChQe/76CRgC46hzJG0UPSAzZjlsAAAAASUVORK5CYII=",
+  "iVBORw0KGgoAAAANSUhEUgAAAAMAAAADCAYAAABWKLW/AAAALklEQVR4AQXBsQEAEBDAwPhWrbWLYczBT2Ecra3iLgQRQQNJcAglauvrnXlz5/soYg9LLq4C2QAAAABJRU5ErkJggg==",
+  "iVBORw0KGgoAAAANSUhEUgAAAAMAAAADCAYAAABWKLW/AAAAMElEQVR4AWP+z8Dwv/E/QwND4/8G5ob/DIyNDP8b/zcyJDJ3T5Xbf5j3WsJc0/OeAFPXEVf/0x38AAAAAElFTkSuQmCC",
+  "iVBORw0KGgoAAAANSUhEUgAAAAMAAAADCAYAAABWKLW/AAAAMElEQVR4AWP5z8Dwn/E/AwMD438GFob/DI0MDP8P/GdgOMDCLSpXf6Iptb6xQeYkAAA7Ddoe+O4NAAAAAElFTkSuQmCC",
+];
+
+describe("PngCodec", () => {
+  it.each([0, 1, 2, 3, 4])(
+    "decodes RGBA rows with filter type %i",
+    (filter) => {
+      expect(PngCodec.decode(png(RGBA_BY_FILTER[filter]))).toEqual({
+        width: 3,
+        height: 3,
+        data: new Uint8Array(RGBA),
+      });
+    },
+  );
+
+  it.each([
+    [
+      "RGB",
+      "iVBORw0KGgoAAAANSUhEUgAAAAMAAAADCAIAAADZSiLoAAAAJ0lEQVR4AWP5z8DA+J+BgfE/C8P/+v0MDQ7/GVi4Refva3o6h9UcAJp/CsT0IW+cAAAAAElFTkSuQmCC",
+      // prettier-ignore
+      [
+        255, 0, 0, 255,     0, 255, 0, 255,     0, 0, 255, 255,
+        255, 255, 127, 255, 191, 255, 255, 255, 255, 255, 255, 255,
+        10, 20, 30, 255,    200, 150, 100, 255, 155, 155, 155, 255,
+      ],
+    ],
+    [
+      "grayscale",
+      "iVBORw0KGgoAAAANSUhEUgAAAAMAAAADCAAAAABzQ+pjAAAAFElEQVR4AWMJZWBgqRcVY3FoYgUACkEB036kabAAAAAASUVORK5CYII=",
+      // prettier-ignore
+      [
+        85, 85, 85, 255,    85, 85, 85, 255,    85, 85, 85, 255,
+        212, 212, 212, 255, 233, 233, 233, 255, 255, 255, 255, 255,
+        20, 20, 20, 255,    150, 150, 150, 255, 155, 155, 155, 255,
+      ],
+    ],
+    [
+      "grayscale with alpha",
+      "iVBORw0KGgoAAAANSUhEUgAAAAMAAAADCAQAAAD8IX00AAAAHElEQVR4AWMJ/c8ABCyhjQwHGA6wZNU31b86CQA9RAdU4+YRqgAAAABJRU5ErkJggg==",
+      // prettier-ignore
+      [
+        85, 85, 85, 255,   85, 85, 85, 255,    85, 85, 85, 255,
+        170, 170, 170, 128, 170, 170, 170, 64, 170, 170, 170, 0,
+        20, 20, 20, 255,   150, 150, 150, 255, 128, 128, 128, 200,
+      ],
+    ],
+    [
+      "2-bit palette with transparency",
+      "iVBORw0KGgoAAAANSUhEUgAAAAMAAAADAgMAAAArRl0sAAAADFBMVEX/AAAA/wAAAP/////7AGD2AAAAAnRSTlMAgJsrThgAAAAOSURBVHicY5BgeMLgAwADdgFJLetZHwAAAABJRU5ErkJggg==",
+      // prettier-ignore
+      [
+        255, 0, 0, 0,       0, 255, 0, 128, 0, 0, 255, 255,
+        255, 255, 255, 255, 0, 0, 255, 255, 0, 255, 0, 128,
+        0, 255, 0, 128,     255, 0, 0, 0,   255, 255, 255, 255,
+      ],
+    ],
+  ])("decodes %s", (_, base64, pixels) => {
+    expect(PngCodec.decode(png(base64))).toEqual({
+      width: 3,
+      height: 3,
+      data: new Uint8Array(pixels),
+    });
+  });
+
+  it("round-trips its own encoding", () => {
+    const image = { width: 3, height: 3, data: new Uint8Array(RGBA) };
+    expect(PngCodec.decode(PngCodec.encode(image))).toEqual(image);
+  });
+
+  it("returns null for other files", () => {
+    expect(PngCodec.decode(new Uint8Array([0xff, 0xd8, 0xff]))).toBeNull();
+  });
+});
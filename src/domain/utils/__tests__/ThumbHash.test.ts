@@ -0,0 +1,85 @@
+/**
+ * ThumbHash against hashes from the reference implementation
+ * (the thumbhash package, 0.1.1)
+ */
+
+import type { RgbaImage } from "../PngCodec";
+import { ThumbHash } from "../ThumbHash";
+
+/**
+ * Red grows to the right, green downwards; optionally fading out
+ * from left to right
+ */
+const gradient = (width: number, height: number, fade: boolean): RgbaImage => {
+  const data = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      data[i] = Math.round((255 * x) / (width - 1));
+      data[i + 1] = Math.round((255 * y) / (height - 1));
+      data[i + 2] = 128;
+      data[i + 3] = fade ? Math.round(255 * (1 - x / (width - 1))) : 255;
+    }
+  }
+  return { width, height, data };
+};
+
+const base64 = (hash: Uint8Array) => Buffer.from(hash).toString("base64");
+const hash = (value: string) => new Uint8Array(Buffer.from(value, "base64"));
+
+describe("ThumbHash", () => {
+  it.each([
+    ["landscape", gradient(8, 6, false), "4AcKRZ5wh3dwiHeHh3iHh3BwB/eH"],
+    ["portrait", gradient(6, 8, false), "4AcKRR5wd4B4eHh4h3h4d3BwB/eI"],
+    [
+      "transparent",
+      gradient(8, 8, true),
+      "G5eFJQ44M3dAeId4hzNAN/OLj4iIiHeIiA==",
+    ],
+  ])("encodes the %s image like the reference", (_, image, expected) => {
+    expect(base64(ThumbHash.encode(image))).toBe(expected);
+  });
+
+  it("reads the average color and aspect ratio from the header", () => {
+    const landscape = hash("4AcKRZ5wh3dwiHeHh3iHh3BwB/eH");
+    const color = ThumbHash.getAverageColor(landscape);
+
+    expect(color.r).toBeCloseTo(0.51058, 4);
+    expect(color.g).toBeCloseTo(0.49471, 4);
+    expect(color.b).toBeCloseTo(0.51852, 4);
+    expect(color.a).toBe(1);
+    expect(ThumbHash.getAspectRatio(landscape)).toBeCloseTo(1.4, 5);
+    expect(
+      ThumbHash.getAspectRatio(hash("4AcKRR5wd4B4eHh4h3h4d3BwB/eI")),
+    ).toBeCloseTo(5 / 7, 5);
+    expect(
+      ThumbHash.getAverageColor(hash("G5eFJQ44M3dAeId4hzNAN/OLj4iIiHeIiA==")).a,
+    ).toBeCloseTo(0.53333, 4);
+  });
+
+  it("decodes to a placeholder at most 32 pixels wide", () => {
+    const image = ThumbHash.decode(hash("4AcKRZ5wh3dwiHeHh3iHh3BwB/eH"));
+
+    expect([image.width, image.height]).toEqual([32, 23]);
+    // Within rounding of the reference decoder, which truncates
+    expect(Array.from(image.data.subarray(0, 4))).toEqual([0, 0, 176, 255]);
+    expect(Array.from(image.data.subarray(-4))).toEqual([227, 232, 88, 255]);
+  });
+
+  it("keeps alpha when decoding", () => {
+    const image = ThumbHash.decode(
+      hash("G5eFJQ44M3dAeId4hzNAN/OLj4iIiHeIiA=="),
+    );
+
+    expect([image.width, image.height]).toEqual([32, 32]);
+    // Opaque on the left, faded out on the right
+    expect(image.data[3]).toBe(255);
+    expect(image.data[(32 - 1) * 4 + 3]).toBeLessThan(64);
+  });
+
+  it("rejects images over 100x100", () => {
+    expect(() =>
+      ThumbHash.encode({ width: 101, height: 1, data: new Uint8Array(404) }),
+    ).toThrow("101x1 does not fit in 100x100");
+  });
+});
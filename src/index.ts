@@ -17,14 +17,24 @@
 // Domain Layer - Original Media Entities
 export type {
   MediaAsset,
+  MediaAlbum,
   MediaPickerResult,
   MediaPickerOptions,
+  DocumentPickerOptions,
   CameraOptions,
   ImageDimensions,
   ImageManipulationActions,
   ImageSaveOptions,
+  ImageAnimationInfo,
+  ImageCropRegion,
+  ImageScaleOptions,
+  ScaledDimensions,
+} from "./domain/entities/Media";
+
+export {
   MediaType,
   ImageFormat,
+  ImageFit,
   MediaQuality,
   MediaLibraryPermission,
   MEDIA_CONSTANTS,
@@ -32,13 +42,214 @@ export type {
   MediaUtils,
 } from "./domain/entities/Media";
 
+export type {
+  MediaPickerStatus,
+  MediaPickerSuccessResult,
+  MediaPickerCanceledResult,
+  MediaPickerPermissionDeniedResult,
+  MediaPickerErrorResult,
+} from "./domain/entities/Media";
+
+export type {
+  MediaAssetConstraints,
+  MediaConstraintViolationCode,
+  MediaConstraintViolation,
+  MediaAssetRejection,
+  MediaConstraintResult,
+} from "./domain/entities/MediaConstraints";
+export { MediaConstraintUtils } from "./domain/entities/MediaConstraints";
+
+export type {
+  MimeCategory,
+  MimeTypeEntry,
+} from "./domain/entities/MimeRegistry";
+export { MIME_REGISTRY, MimeRegistry } from "./domain/entities/MimeRegistry";
+export { MimeSniffer, MIME_SNIFF_LENGTH } from "./domain/utils/MimeSniffer";
+export { Base64 } from "./domain/utils/Base64";
+export type { ByteReader } from "./domain/utils/AnimatedImageParser";
+export { AnimatedImageParser } from "./domain/utils/AnimatedImageParser";
+
+export type {
+  MediaMetadata,
+  MediaLocation,
+  MediaCameraInfo,
+} from "./domain/entities/MediaMetadata";
+export {
+  ExifOrientation,
+  ExifOrientationUtils,
+} from "./domain/entities/MediaMetadata";
+export {
+  ExifReader,
+  type ImageMetadataBlocks,
+} from "./domain/utils/ExifReader";
+export { MetadataStripper } from "./domain/utils/MetadataStripper";
+export {
+  ImageHeaderParser,
+  IMAGE_HEADER_SCAN_LENGTH,
+} from "./domain/utils/ImageHeaderParser";
+export {
+  MediaDurationParser,
+  MPEG_FRAME_SCAN_LENGTH,
+  type IsoBoxHeader,
+  type MpegFrameInfo,
+} from "./domain/utils/MediaDurationParser";
+export { Inflate } from "./domain/utils/Inflate";
+export { PngCodec, type RgbaImage } from "./domain/utils/PngCodec";
+export {
+  ThumbHash,
+  THUMBHASH_MAX_DIMENSION,
+  type ThumbHashColor,
+} from "./domain/utils/ThumbHash";
+export {
+  PerceptualHash,
+  DHASH_WIDTH,
+  DHASH_HEIGHT,
+  DEFAULT_DUPLICATE_THRESHOLD,
+} from "./domain/utils/PerceptualHash";
+
+export { MediaError, MediaErrorCode } from "./domain/entities/MediaError";
+
+export type {
+  MediaAccessPrivileges,
+  MediaPermissionDetails,
+  NativePermissionResponse,
+} from "./domain/entities/MediaPermission";
+export { MediaPermissionUtils } from "./domain/entities/MediaPermission";
+
+export type {
+  MediaPickerBackend,
+  MediaLaunchOptions,
+  MediaBackendResult,
+} from "./domain/entities/MediaPickerBackend.types";
+
 // Infrastructure Layer - Original Media Services
 export { MediaPickerService } from "./infrastructure/services/MediaPickerService";
+export type {
+  DocumentPickerAdapter,
+  DocumentPickerAdapterOptions,
+  DocumentPickerAdapterResult,
+  PickedDocument,
+} from "./domain/entities/DocumentPickerAdapter.types";
+export { ExpoDocumentPickerAdapter } from "./infrastructure/adapters/ExpoDocumentPickerAdapter";
+export { ExpoImagePickerBackend } from "./infrastructure/adapters/ExpoImagePickerBackend";
+export {
+  InMemoryMediaPickerBackend,
+  type InMemoryMediaPickerBackendOptions,
+  type InMemoryMediaPickerCall,
+} from "./infrastructure/adapters/InMemoryMediaPickerBackend";
+export type {
+  ImageManipulatorAdapter,
+  ManipulatedImage,
+  MediaManipulationOptions,
+} from "./domain/entities/ImageManipulatorAdapter.types";
+export { ExpoImageManipulatorAdapter } from "./infrastructure/adapters/ExpoImageManipulatorAdapter";
+export { MediaManipulationService } from "./infrastructure/services/MediaManipulationService";
+export {
+  MediaCompressionService,
+  type MediaCompressionResult,
+} from "./infrastructure/services/MediaCompressionService";
+export type {
+  MediaFileSystemAdapter,
+  FileUploadRequest,
+  FileUploadResponse,
+} from "./domain/entities/MediaFileSystemAdapter.types";
+export { ExpoFileSystemAdapter } from "./infrastructure/adapters/ExpoFileSystemAdapter";
+export { MediaFileService } from "./infrastructure/services/MediaFileService";
+export {
+  MimeDetectionService,
+  type MimeDetectionResult,
+} from "./infrastructure/services/MimeDetectionService";
+export {
+  ImageFormatService,
+  type ImageFormatInfo,
+} from "./infrastructure/services/ImageFormatService";
+export {
+  MediaMetadataService,
+  type MetadataStripResult,
+} from "./infrastructure/services/MediaMetadataService";
+export { MediaOrientationService } from "./infrastructure/services/MediaOrientationService";
+export {
+  MediaProbeService,
+  type MediaProbeResult,
+} from "./infrastructure/services/MediaProbeService";
+export {
+  MediaCache,
+  type MediaCacheOptions,
+  type MediaCacheEntry,
+} from "./infrastructure/services/MediaCache";
+export type {
+  VideoThumbnailAdapter,
+  VideoFrame,
+  VideoFrameOptions,
+} from "./domain/entities/VideoThumbnailAdapter.types";
+export { ExpoVideoThumbnailsAdapter } from "./infrastructure/adapters/ExpoVideoThumbnailsAdapter";
+export {
+  MediaThumbnailService,
+  type ThumbnailOptions,
+  type MediaThumbnail,
+} from "./infrastructure/services/MediaThumbnailService";
+export { MediaPlaceholderService } from "./infrastructure/services/MediaPlaceholderService";
+export { MediaHashService } from "./infrastructure/services/MediaHashService";
+export {
+  MediaVariantService,
+  type ImageVariantOptions,
+  type ImageVariant,
+  type SelectableVariant,
+} from "./infrastructure/services/MediaVariantService";
+export type {
+  MediaLibraryAdapter,
+  MediaLibraryQuery,
+  MediaLibraryPageRequest,
+  MediaLibraryPage,
+  MediaLibrarySortField,
+  MediaLibraryChange,
+} from "./domain/entities/MediaLibraryAdapter.types";
+export { ExpoMediaLibraryAdapter } from "./infrastructure/adapters/ExpoMediaLibraryAdapter";
+export { MediaLibraryService } from "./infrastructure/services/MediaLibraryService";
 export { MediaSaveService } from "./infrastructure/services/MediaSaveService";
-export type { SaveResult, SaveOptions } from "./infrastructure/services/MediaSaveService";
+export type {
+  SaveResult,
+  SaveOptions,
+  SaveManyOptions,
+  SaveProgress,
+  AlbumListOptions,
+  DeleteResult,
+} from "./infrastructure/services/MediaSaveService";
+export type {
+  MediaStorageAdapter,
+  ResumableMediaStorageAdapter,
+  ResumableUploadSession,
+  StorageUploadOptions,
+  StorageUploadRequest,
+  StoredMedia,
+} from "./domain/entities/MediaStorageAdapter.types";
+export {
+  HttpStatusError,
+  type HttpHeaders,
+  type HttpHeadersProvider,
+} from "./infrastructure/adapters/HttpStorageClient";
+export {
+  HttpMultipartStorageAdapter,
+  type HttpMultipartStorageOptions,
+} from "./infrastructure/adapters/HttpMultipartStorageAdapter";
+export {
+  PresignedUrlStorageAdapter,
+  type PresignedUrlStorageOptions,
+  type PresignedUrlSigner,
+  type PresignedRequest,
+} from "./infrastructure/adapters/PresignedUrlStorageAdapter";
+export {
+  TusStorageAdapter,
+  type TusStorageOptions,
+} from "./infrastructure/adapters/TusStorageAdapter";
 
 // Presentation Layer - Original Media Hooks
 export { useMedia } from "./presentation/hooks/useMedia";
+export { useMediaSave } from "./presentation/hooks/useMediaSave";
+export {
+  useMediaLibrary,
+  type UseMediaLibraryOptions,
+} from "./presentation/hooks/useMediaLibrary";
 
 // Multimedia Flashcard Support
 export type {
@@ -50,6 +261,14 @@ export type {
   CardMediaGenerationResult,
   CardMediaUploadProgress,
   CardMediaCompressionOptions,
+  CardMediaUploadOptions,
+  CardMediaPendingUpload,
+  CardMediaDuplicateOptions,
+  CardMediaDuplicate,
+  CardMediaDuplicateGroup,
+  CardMediaVariant,
+  CardMediaVariantOptions,
+  CardMediaUrlOptions,
   CardMediaValidation,
 } from "./domain/entities/CardMultimedia.types";
 
@@ -0,0 +1,50 @@
+/**
+ * Expo Document Picker Adapter
+ * Default DocumentPickerAdapter built on expo-document-picker and expo-av
+ */
+
+import * as DocumentPicker from "expo-document-picker";
+import { Audio } from "expo-av";
+import type {
+  DocumentPickerAdapter,
+  DocumentPickerAdapterOptions,
+  DocumentPickerAdapterResult,
+} from "../../domain/entities/DocumentPickerAdapter.types";
+
+export class ExpoDocumentPickerAdapter implements DocumentPickerAdapter {
+  async pickDocuments(
+    options: DocumentPickerAdapterOptions
+  ): Promise<DocumentPickerAdapterResult> {
+    const result = await DocumentPicker.getDocumentAsync({
+      type: options.mimeTypes,
+      multiple: options.multiple,
+      copyToCacheDirectory: options.copyToCacheDirectory,
+    });
+
+    if (result.canceled) {
+      return { canceled: true };
+    }
+
+    return {
+      canceled: false,
+      documents: result.assets.map((asset) => ({
+        uri: asset.uri,
+        name: asset.name,
+        size: asset.size,
+        mimeType: asset.mimeType,
+      })),
+    };
+  }
+
+  async getDuration(uri: string): Promise<number | undefined> {
+    const { sound, status } = await Audio.Sound.createAsync(
+      { uri },
+      { shouldPlay: false }
+    );
+    try {
+      return status.isLoaded ? status.durationMillis : undefined;
+    } finally {
+      await sound.unloadAsync();
+    }
+  }
+}
@@ -0,0 +1,167 @@
+/**
+ * Expo File System Adapter
+ * Default MediaFileSystemAdapter built on expo-file-system
+ */
+
+import * as FileSystem from "expo-file-system/legacy";
+import type {
+  FileUploadRequest,
+  FileUploadResponse,
+  MediaFileSystemAdapter,
+} from "../../domain/entities/MediaFileSystemAdapter.types";
+import { Base64 } from "../../domain/utils/Base64";
+
+export class ExpoFileSystemAdapter implements MediaFileSystemAdapter {
+  async readBytes(
+    uri: string,
+    position: number,
+    length: number
+  ): Promise<Uint8Array> {
+    if (this.isRemote(uri)) {
+      return this.readRemoteBytes(uri, position, length);
+    }
+
+    const base64 = await FileSystem.readAsStringAsync(uri, {
+      encoding: FileSystem.EncodingType.Base64,
+      position,
+      length,
+    });
+    return Base64.decode(base64);
+  }
+
+  async getFileSize(uri: string): Promise<number | undefined> {
+    if (this.isRemote(uri)) {
+      const response = await fetch(uri, { method: "HEAD" });
+      const contentLength = response.headers.get("content-length");
+      return contentLength ? Number(contentLength) : undefined;
+    }
+
+    const info = await FileSystem.getInfoAsync(uri);
+    return info.exists ? info.size : undefined;
+  }
+
+  async writeBytes(bytes: Uint8Array, extension: string): Promise<string> {
+    const uri = this.createCacheUri(extension);
+    await FileSystem.writeAsStringAsync(uri, Base64.encode(bytes), {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+    return uri;
+  }
+
+  async downloadFile(
+    url: string,
+    extension: string,
+    headers?: Record<string, string>
+  ): Promise<string> {
+    const uri = this.createCacheUri(extension);
+    const result = await FileSystem.downloadAsync(url, uri, { headers });
+    if (result.status < 200 || result.status >= 300) {
+      await FileSystem.deleteAsync(uri, { idempotent: true });
+      throw new Error(`HTTP ${result.status} while downloading ${url}`);
+    }
+    return result.uri;
+  }
+
+  async getMd5(uri: string): Promise<string | undefined> {
+    const info = await FileSystem.getInfoAsync(uri, { md5: true });
+    return info.exists ? info.md5?.toLowerCase() : undefined;
+  }
+
+  async uploadFile(request: FileUploadRequest): Promise<FileUploadResponse> {
+    const task = FileSystem.createUploadTask(
+      request.url,
+      request.uri,
+      {
+        httpMethod: request.method,
+        headers: request.headers,
+        uploadType:
+          request.uploadType === "multipart"
+            ? FileSystem.FileSystemUploadType.MULTIPART
+            : FileSystem.FileSystemUploadType.BINARY_CONTENT,
+        fieldName: request.fieldName,
+        mimeType: request.mimeType,
+        parameters: request.parameters,
+      },
+      request.onProgress &&
+        ((data) =>
+          request.onProgress!(
+            data.totalBytesSent,
+            data.totalBytesExpectedToSend
+          ))
+    );
+    const result = await task.uploadAsync();
+    if (!result) {
+      throw new Error(`Upload to ${request.url} was cancelled`);
+    }
+    return {
+      status: result.status,
+      headers: result.headers,
+      body: result.body,
+    };
+  }
+
+  async getCacheDirectory(name: string): Promise<string> {
+    return this.ensureDirectory(`${FileSystem.cacheDirectory}${name}/`);
+  }
+
+  async getDocumentDirectory(name: string): Promise<string> {
+    return this.ensureDirectory(`${FileSystem.documentDirectory}${name}/`);
+  }
+
+  async moveFile(from: string, to: string): Promise<void> {
+    await FileSystem.moveAsync({ from, to });
+  }
+
+  async copyFile(from: string, to: string): Promise<void> {
+    await FileSystem.copyAsync({ from, to });
+  }
+
+  async deleteFile(uri: string): Promise<void> {
+    await FileSystem.deleteAsync(uri, { idempotent: true });
+  }
+
+  async readText(uri: string): Promise<string | null> {
+    const info = await FileSystem.getInfoAsync(uri);
+    return info.exists ? FileSystem.readAsStringAsync(uri) : null;
+  }
+
+  async writeText(uri: string, text: string): Promise<void> {
+    await FileSystem.writeAsStringAsync(uri, text);
+  }
+
+  private async readRemoteBytes(
+    uri: string,
+    position: number,
+    length: number
+  ): Promise<Uint8Array> {
+    const response = await fetch(uri, {
+      headers: { Range: `bytes=${position}-${position + length - 1}` },
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} while reading ${uri}`);
+    }
+
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    // Servers that ignore Range answer 200 with the whole body
+    return response.status === 206
+      ? bytes.subarray(0, length)
+      : bytes.subarray(position, position + length);
+  }
+
+  private async ensureDirectory(uri: string): Promise<string> {
+    const info = await FileSystem.getInfoAsync(uri);
+    if (!info.exists) {
+      await FileSystem.makeDirectoryAsync(uri, { intermediates: true });
+    }
+    return uri;
+  }
+
+  private createCacheUri(extension: string): string {
+    const name = `media_${Date.now()}_${Math.random().toString(36).slice(2)}`;
+    return `${FileSystem.cacheDirectory}${name}.${extension}`;
+  }
+
+  private isRemote(uri: string): boolean {
+    return /^https?:\/\//i.test(uri);
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Expo Image Manipulator Adapter
+ * Default ImageManipulatorAdapter built on expo-image-manipulator
+ */
+
+import * as ImageManipulator from "expo-image-manipulator";
+import * as FileSystem from "expo-file-system/legacy";
+import type {
+  ImageManipulationActions,
+  ImageSaveOptions,
+} from "../../domain/entities/Media";
+import { ImageFormat } from "../../domain/entities/Media";
+import type {
+  ImageManipulatorAdapter,
+  ManipulatedImage,
+} from "../../domain/entities/ImageManipulatorAdapter.types";
+
+export class ExpoImageManipulatorAdapter implements ImageManipulatorAdapter {
+  async manipulate(
+    uri: string,
+    steps: ImageManipulationActions[],
+    options: Required<ImageSaveOptions>
+  ): Promise<ManipulatedImage> {
+    const result = await ImageManipulator.manipulateAsync(
+      uri,
+      steps.map((step) => this.mapStep(step)),
+      {
+        compress: options.quality,
+        format: this.mapFormat(options.format),
+        base64: options.base64,
+      }
+    );
+
+    return {
+      uri: result.uri,
+      width: result.width,
+      height: result.height,
+      base64: result.base64,
+    };
+  }
+
+  async getFileSize(uri: string): Promise<number | undefined> {
+    const info = await FileSystem.getInfoAsync(uri);
+    return info.exists ? info.size : undefined;
+  }
+
+  private mapStep(step: ImageManipulationActions): ImageManipulator.Action {
+    if (step.resize) {
+      return { resize: step.resize };
+    }
+    if (step.crop) {
+      return { crop: step.crop };
+    }
+    if (step.flip) {
+      return {
+        flip: step.flip.vertical
+          ? ImageManipulator.FlipType.Vertical
+          : ImageManipulator.FlipType.Horizontal,
+      };
+    }
+    return { rotate: step.rotate ?? 0 };
+  }
+
+  private mapFormat(format: ImageFormat): ImageManipulator.SaveFormat {
+    switch (format) {
+      case ImageFormat.PNG:
+        return ImageManipulator.SaveFormat.PNG;
+      case ImageFormat.WEBP:
+        return ImageManipulator.SaveFormat.WEBP;
+      default:
+        return ImageManipulator.SaveFormat.JPEG;
+    }
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * Expo Image Picker Backend
+ * Default MediaPickerBackend built on expo-image-picker
+ */
+
+import * as ImagePicker from "expo-image-picker";
+import type { MediaAsset } from "../../domain/entities/Media";
+import { MediaType } from "../../domain/entities/Media";
+import type { MediaPermissionDetails } from "../../domain/entities/MediaPermission";
+import { MediaPermissionUtils } from "../../domain/entities/MediaPermission";
+import type {
+  MediaBackendResult,
+  MediaLaunchOptions,
+  MediaPickerBackend,
+} from "../../domain/entities/MediaPickerBackend.types";
+
+export class ExpoImagePickerBackend implements MediaPickerBackend {
+  async requestCameraPermission(): Promise<MediaPermissionDetails> {
+    const response = await ImagePicker.requestCameraPermissionsAsync();
+    return MediaPermissionUtils.fromNativeResponse(response);
+  }
+
+  async requestMediaLibraryPermission(): Promise<MediaPermissionDetails> {
+    const response = await ImagePicker.requestMediaLibraryPermissionsAsync();
+    return MediaPermissionUtils.fromNativeResponse(response);
+  }
+
+  async getCameraPermission(): Promise<MediaPermissionDetails> {
+    const response = await ImagePicker.getCameraPermissionsAsync();
+    return MediaPermissionUtils.fromNativeResponse(response);
+  }
+
+  async getMediaLibraryPermission(): Promise<MediaPermissionDetails> {
+    const response = await ImagePicker.getMediaLibraryPermissionsAsync();
+    return MediaPermissionUtils.fromNativeResponse(response);
+  }
+
+  async launchCamera(options: MediaLaunchOptions): Promise<MediaBackendResult> {
+    const result = await ImagePicker.launchCameraAsync({
+      mediaTypes: this.mapMediaType(options.mediaTypes),
+      allowsEditing: options.allowsEditing,
+      aspect: options.aspect,
+      quality: options.quality,
+      base64: options.base64,
+      videoMaxDuration: options.videoMaxDuration,
+    });
+
+    return this.mapPickerResult(result);
+  }
+
+  async launchLibrary(
+    options: MediaLaunchOptions
+  ): Promise<MediaBackendResult> {
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: this.mapMediaType(options.mediaTypes),
+      allowsEditing: options.allowsEditing,
+      allowsMultipleSelection: options.allowsMultipleSelection,
+      aspect: options.aspect,
+      quality: options.quality,
+      selectionLimit: options.selectionLimit,
+      base64: options.base64,
+    });
+
+    return this.mapPickerResult(result);
+  }
+
+  private mapMediaType(type?: MediaType): ImagePicker.MediaType[] {
+    switch (type) {
+      case MediaType.IMAGE:
+        return ["images"];
+      case MediaType.VIDEO:
+        return ["videos"];
+      case MediaType.ALL:
+        return ["images", "videos"];
+      default:
+        return ["images"];
+    }
+  }
+
+  private mapPickerResult(
+    result: ImagePicker.ImagePickerResult
+  ): MediaBackendResult {
+    if (result.canceled) {
+      return { canceled: true };
+    }
+
+    const assets: MediaAsset[] = result.assets.map((asset) => ({
+      uri: asset.uri,
+      assetId: asset.assetId ?? undefined,
+      width: asset.width,
+      height: asset.height,
+      type: asset.type === "video" ? MediaType.VIDEO : MediaType.IMAGE,
+      fileSize: asset.fileSize,
+      fileName: asset.fileName ?? undefined,
+      duration: asset.duration ?? undefined,
+      base64: asset.base64 ?? undefined,
+      mimeType: asset.mimeType ?? undefined,
+    }));
+
+    return {
+      canceled: false,
+      assets,
+    };
+  }
+}
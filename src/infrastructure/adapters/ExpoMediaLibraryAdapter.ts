@@ -0,0 +1,97 @@
+/**
+ * Expo Media Library Adapter
+ * Default MediaLibraryAdapter built on expo-media-library
+ */
+
+import * as MediaLibrary from "expo-media-library";
+import type { MediaAsset } from "../../domain/entities/Media";
+import { MediaType, MediaUtils } from "../../domain/entities/Media";
+import type { MediaPermissionDetails } from "../../domain/entities/MediaPermission";
+import { MediaPermissionUtils } from "../../domain/entities/MediaPermission";
+import type {
+  MediaLibraryAdapter,
+  MediaLibraryChange,
+  MediaLibraryPage,
+  MediaLibraryPageRequest,
+} from "../../domain/entities/MediaLibraryAdapter.types";
+
+export class ExpoMediaLibraryAdapter implements MediaLibraryAdapter {
+  async requestPermission(): Promise<MediaPermissionDetails> {
+    const response = await MediaLibrary.requestPermissionsAsync();
+    return MediaPermissionUtils.fromNativeResponse(response);
+  }
+
+  async getPermission(): Promise<MediaPermissionDetails> {
+    const response = await MediaLibrary.getPermissionsAsync();
+    return MediaPermissionUtils.fromNativeResponse(response);
+  }
+
+  async getAssets(request: MediaLibraryPageRequest): Promise<MediaLibraryPage> {
+    const page = await MediaLibrary.getAssetsAsync({
+      first: request.first,
+      after: request.after,
+      album: request.albumId,
+      mediaType: request.mediaTypes.map((type) => this.mapMediaType(type)),
+      createdAfter: request.createdAfter,
+      createdBefore: request.createdBefore,
+      sortBy: [[request.sortBy, request.ascending]],
+    });
+
+    return {
+      assets: page.assets.map((asset) => this.mapAsset(asset)),
+      endCursor: page.endCursor || undefined,
+      hasNextPage: page.hasNextPage,
+      totalCount: page.totalCount,
+    };
+  }
+
+  addChangeListener(
+    listener: (change: MediaLibraryChange) => void
+  ): () => void {
+    const subscription = MediaLibrary.addListener((event) => {
+      const ids = (assets?: MediaLibrary.Asset[]) =>
+        event.hasIncrementalChanges && assets
+          ? assets.map((asset) => asset.id)
+          : [];
+      listener({
+        incremental: event.hasIncrementalChanges,
+        insertedAssetIds: ids(event.insertedAssets),
+        deletedAssetIds: ids(event.deletedAssets),
+        updatedAssetIds: ids(event.updatedAssets),
+      });
+    });
+    return () => subscription.remove();
+  }
+
+  private mapMediaType(type: MediaType): MediaLibrary.MediaTypeValue {
+    switch (type) {
+      case MediaType.VIDEO:
+        return MediaLibrary.MediaType.video;
+      case MediaType.AUDIO:
+        return MediaLibrary.MediaType.audio;
+      default:
+        return MediaLibrary.MediaType.photo;
+    }
+  }
+
+  private mapAsset(asset: MediaLibrary.Asset): MediaAsset {
+    const type =
+      asset.mediaType === MediaLibrary.MediaType.video
+        ? MediaType.VIDEO
+        : asset.mediaType === MediaLibrary.MediaType.audio
+          ? MediaType.AUDIO
+          : MediaType.IMAGE;
+
+    return {
+      uri: asset.uri,
+      assetId: asset.id,
+      width: asset.width,
+      height: asset.height,
+      type,
+      fileName: asset.filename,
+      // Seconds natively; photos report 0
+      duration: type === MediaType.IMAGE ? undefined : asset.duration * 1000,
+      mimeType: MediaUtils.getMimeTypeFromUri(asset.filename),
+    };
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * Expo Video Thumbnails Adapter
+ * Default VideoThumbnailAdapter built on expo-video-thumbnails
+ */
+
+import * as VideoThumbnails from "expo-video-thumbnails";
+import type {
+  VideoFrame,
+  VideoFrameOptions,
+  VideoThumbnailAdapter,
+} from "../../domain/entities/VideoThumbnailAdapter.types";
+
+export class ExpoVideoThumbnailsAdapter implements VideoThumbnailAdapter {
+  async getFrame(uri: string, options: VideoFrameOptions): Promise<VideoFrame> {
+    const result = await VideoThumbnails.getThumbnailAsync(uri, {
+      time: options.time,
+      quality: options.quality,
+    });
+
+    return {
+      uri: result.uri,
+      width: result.width,
+      height: result.height,
+    };
+  }
+}
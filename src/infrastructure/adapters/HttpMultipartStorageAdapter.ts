@@ -0,0 +1,97 @@
+/**
+ * HTTP Multipart Storage Adapter
+ * MediaStorageAdapter for a REST endpoint accepting multipart uploads
+ */
+
+import { MediaUtils } from "../../domain/entities/Media";
+import type {
+  MediaStorageAdapter,
+  StorageUploadOptions,
+  StorageUploadRequest,
+  StoredMedia,
+} from "../../domain/entities/MediaStorageAdapter.types";
+import { MediaFileService } from "../services/MediaFileService";
+import {
+  HttpStorageClient,
+  type HttpHeadersProvider,
+} from "./HttpStorageClient";
+
+export interface HttpMultipartStorageOptions {
+  /**
+   * Collection URL. Uploads POST here; objects live at `${baseUrl}/${key}`
+   * and are deleted with DELETE on that URL.
+   */
+  baseUrl: string;
+  headers?: HttpHeadersProvider;
+  /** Form field holding the file, default "file" */
+  fieldName?: string;
+  /** Extra form fields sent with every upload */
+  fields?: Record<string, string>;
+  fetch?: typeof fetch;
+}
+
+/**
+ * Upload responses may be JSON; any `url` and `size` in them win over
+ * the object URL and request size
+ */
+interface UploadResponse {
+  url?: string;
+  size?: number;
+}
+
+export class HttpMultipartStorageAdapter implements MediaStorageAdapter {
+  private readonly baseUrl: string;
+  private readonly client: HttpStorageClient;
+
+  constructor(private readonly options: HttpMultipartStorageOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, "");
+    this.client = new HttpStorageClient(options.headers, options.fetch);
+  }
+
+  async upload(
+    request: StorageUploadRequest,
+    options?: StorageUploadOptions,
+  ): Promise<StoredMedia> {
+    const response = await this.client.uploadFile({
+      url: this.baseUrl,
+      uri: request.uri,
+      method: "POST",
+      uploadType: "multipart",
+      fieldName: this.options.fieldName ?? "file",
+      mimeType: request.mimeType,
+      parameters: { ...this.options.fields, key: request.key },
+      onProgress: options?.onProgress,
+    });
+    const json = this.client.readJson<UploadResponse>(response);
+
+    return {
+      key: request.key,
+      url: json?.url ?? this.getObjectUrl(request.key),
+      size: json?.size ?? request.fileSize,
+    };
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.request(this.getObjectUrl(key), {
+      method: "DELETE",
+      allowStatus: [404, 410],
+    });
+  }
+
+  async getUrl(key: string): Promise<string> {
+    return this.getObjectUrl(key);
+  }
+
+  async download(key: string): Promise<string> {
+    const url = this.getObjectUrl(key);
+    return MediaFileService.downloadFile(
+      url,
+      MediaUtils.getExtension(url) ?? "bin",
+      await this.client.getHeaders(),
+    );
+  }
+
+  private getObjectUrl(key: string): string {
+    return `${this.baseUrl}/${encodeURIComponent(key)}`;
+  }
+}
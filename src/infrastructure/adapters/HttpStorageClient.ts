@@ -0,0 +1,109 @@
+/**
+ * HTTP Storage Client
+ * Shared fetch and file upload plumbing for the HTTP storage adapters
+ */
+
+import type {
+  FileUploadRequest,
+  FileUploadResponse,
+} from "../../domain/entities/MediaFileSystemAdapter.types";
+import { MediaFileService } from "../services/MediaFileService";
+
+export type HttpHeaders = Record<string, string>;
+
+/**
+ * Static headers, or a function returning fresh ones (e.g. auth tokens)
+ */
+export type HttpHeadersProvider = HttpHeaders | (() => Promise<HttpHeaders>);
+
+/**
+ * Non-2xx response
+ */
+export class HttpStatusError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = "HttpStatusError";
+  }
+}
+
+export class HttpStorageClient {
+  constructor(
+    private readonly headers?: HttpHeadersProvider,
+    private readonly fetchFn: typeof fetch = (input, init) =>
+      fetch(input, init),
+  ) {}
+
+  async getHeaders(extra?: HttpHeaders): Promise<HttpHeaders> {
+    const base =
+      typeof this.headers === "function" ? await this.headers() : this.headers;
+    return { ...base, ...extra };
+  }
+
+  /**
+   * Send a request with the configured headers. Non-2xx responses
+   * reject unless their status is listed in `allowStatus`.
+   */
+  async request(
+    url: string,
+    init: {
+      method: string;
+      headers?: HttpHeaders;
+      body?: Uint8Array;
+      allowStatus?: number[];
+      signal?: AbortSignal;
+    },
+  ): Promise<Response> {
+    const response = await this.fetchFn(url, {
+      method: init.method,
+      headers: await this.getHeaders(init.headers),
+      // Typed arrays are valid bodies in React Native and Node fetch
+      body: init.body as BodyInit | undefined,
+      signal: init.signal,
+    });
+    if (!response.ok && !init.allowStatus?.includes(response.status)) {
+      throw new HttpStatusError(
+        response.status,
+        `HTTP ${response.status} for ${init.method} ${url}`,
+      );
+    }
+    return response;
+  }
+
+  /**
+   * Stream a local file with the configured headers; non-2xx responses
+   * reject
+   */
+  async uploadFile(request: FileUploadRequest): Promise<FileUploadResponse> {
+    const response = await MediaFileService.uploadFile({
+      ...request,
+      headers: await this.getHeaders(request.headers),
+    });
+    if (response.status < 200 || response.status >= 300) {
+      throw new HttpStatusError(
+        response.status,
+        `HTTP ${response.status} for ${request.method} ${request.url}`,
+      );
+    }
+    return response;
+  }
+
+  /**
+   * JSON body of an upload response, or null when it has none
+   */
+  readJson<T>(response: FileUploadResponse): T | null {
+    const type = Object.entries(response.headers).find(
+      ([name]) => name.toLowerCase() === "content-type",
+    )?.[1];
+    if (!type?.includes("json")) {
+      return null;
+    }
+    try {
+      return JSON.parse(response.body) as T;
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * In-Memory Media Picker Backend
+ * Scriptable MediaPickerBackend for tests, storybooks and web previews
+ */
+
+import type { MediaAsset } from "../../domain/entities/Media";
+import { MediaLibraryPermission } from "../../domain/entities/Media";
+import type { MediaPermissionDetails } from "../../domain/entities/MediaPermission";
+import { MediaPermissionUtils } from "../../domain/entities/MediaPermission";
+import type {
+  MediaBackendResult,
+  MediaLaunchOptions,
+  MediaPickerBackend,
+} from "../../domain/entities/MediaPickerBackend.types";
+
+export interface InMemoryMediaPickerBackendOptions {
+  cameraPermission?: MediaLibraryPermission | MediaPermissionDetails;
+  mediaLibraryPermission?: MediaLibraryPermission | MediaPermissionDetails;
+  cameraAssets?: MediaAsset[];
+  libraryAssets?: MediaAsset[];
+}
+
+export interface InMemoryMediaPickerCall {
+  source: "camera" | "library";
+  options: MediaLaunchOptions;
+}
+
+/**
+ * Fake backend that answers from in-memory state.
+ * Queued results are consumed first; otherwise the configured assets
+ * are returned, or a cancel when there are none.
+ */
+export class InMemoryMediaPickerBackend implements MediaPickerBackend {
+  cameraPermission: MediaPermissionDetails;
+  mediaLibraryPermission: MediaPermissionDetails;
+  cameraAssets: MediaAsset[];
+  libraryAssets: MediaAsset[];
+  readonly calls: InMemoryMediaPickerCall[] = [];
+
+  private queuedResults: Array<MediaBackendResult | Error> = [];
+
+  constructor(options: InMemoryMediaPickerBackendOptions = {}) {
+    this.cameraPermission = InMemoryMediaPickerBackend.toDetails(
+      options.cameraPermission ?? MediaLibraryPermission.GRANTED
+    );
+    this.mediaLibraryPermission = InMemoryMediaPickerBackend.toDetails(
+      options.mediaLibraryPermission ?? MediaLibraryPermission.GRANTED
+    );
+    this.cameraAssets = options.cameraAssets ?? [];
+    this.libraryAssets = options.libraryAssets ?? [];
+  }
+
+  /**
+   * Queue a result (or an error to throw) for the next launch call
+   */
+  enqueueResult(result: MediaBackendResult | Error): void {
+    this.queuedResults.push(result);
+  }
+
+  setCameraPermission(
+    permission: MediaLibraryPermission | MediaPermissionDetails
+  ): void {
+    this.cameraPermission = InMemoryMediaPickerBackend.toDetails(permission);
+  }
+
+  setMediaLibraryPermission(
+    permission: MediaLibraryPermission | MediaPermissionDetails
+  ): void {
+    this.mediaLibraryPermission =
+      InMemoryMediaPickerBackend.toDetails(permission);
+  }
+
+  reset(): void {
+    this.calls.length = 0;
+    this.queuedResults = [];
+  }
+
+  async requestCameraPermission(): Promise<MediaPermissionDetails> {
+    return this.cameraPermission;
+  }
+
+  async requestMediaLibraryPermission(): Promise<MediaPermissionDetails> {
+    return this.mediaLibraryPermission;
+  }
+
+  async getCameraPermission(): Promise<MediaPermissionDetails> {
+    return this.cameraPermission;
+  }
+
+  async getMediaLibraryPermission(): Promise<MediaPermissionDetails> {
+    return this.mediaLibraryPermission;
+  }
+
+  async launchCamera(options: MediaLaunchOptions): Promise<MediaBackendResult> {
+    this.calls.push({ source: "camera", options });
+    return this.nextResult(this.cameraAssets);
+  }
+
+  async launchLibrary(
+    options: MediaLaunchOptions
+  ): Promise<MediaBackendResult> {
+    this.calls.push({ source: "library", options });
+    const assets = options.allowsMultipleSelection
+      ? this.libraryAssets.slice(0, options.selectionLimit || undefined)
+      : this.libraryAssets.slice(0, 1);
+    return this.nextResult(assets);
+  }
+
+  private nextResult(assets: MediaAsset[]): MediaBackendResult {
+    const queued = this.queuedResults.shift();
+    if (queued instanceof Error) {
+      throw queued;
+    }
+    if (queued) {
+      return queued;
+    }
+    if (assets.length === 0) {
+      return { canceled: true };
+    }
+    return { canceled: false, assets: [...assets] };
+  }
+
+  private static toDetails(
+    permission: MediaLibraryPermission | MediaPermissionDetails
+  ): MediaPermissionDetails {
+    return typeof permission === "string"
+      ? MediaPermissionUtils.fromStatus(permission)
+      : permission;
+  }
+}
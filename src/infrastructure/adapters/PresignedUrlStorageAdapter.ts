@@ -0,0 +1,113 @@
+/**
+ * Presigned URL Storage Adapter
+ * MediaStorageAdapter for object stores (S3, GCS, R2) where the app
+ * backend signs short-lived URLs and the device talks to the store
+ */
+
+import { MediaUtils } from "../../domain/entities/Media";
+import type {
+  MediaStorageAdapter,
+  StorageUploadOptions,
+  StorageUploadRequest,
+  StoredMedia,
+} from "../../domain/entities/MediaStorageAdapter.types";
+import { MediaFileService } from "../services/MediaFileService";
+import { HttpStorageClient, type HttpHeaders } from "./HttpStorageClient";
+
+/**
+ * A signed request. Uploads default to PUT with the raw file as body;
+ * POST sends a form with `fields` (e.g. an S3 POST policy) before the file.
+ */
+export interface PresignedRequest {
+  url: string;
+  method?: string; // "PUT" or "POST" for uploads
+  headers?: HttpHeaders;
+  fields?: Record<string, string>;
+}
+
+/**
+ * Signs requests, usually by calling the app backend
+ */
+export interface PresignedUrlSigner {
+  signUpload(request: StorageUploadRequest): Promise<PresignedRequest>;
+  signDownload(key: string): Promise<string>;
+  /** DELETE unless another method is given */
+  signDelete(key: string): Promise<PresignedRequest>;
+}
+
+export interface PresignedUrlStorageOptions {
+  signer: PresignedUrlSigner;
+  /**
+   * Public or CDN base URL. Without it, stored URLs are presigned
+   * downloads that expire.
+   */
+  publicBaseUrl?: string;
+  fetch?: typeof fetch;
+}
+
+export class PresignedUrlStorageAdapter implements MediaStorageAdapter {
+  private readonly client: HttpStorageClient;
+
+  constructor(private readonly options: PresignedUrlStorageOptions) {
+    this.client = new HttpStorageClient(undefined, options.fetch);
+  }
+
+  async upload(
+    request: StorageUploadRequest,
+    options?: StorageUploadOptions,
+  ): Promise<StoredMedia> {
+    const signed = await this.options.signer.signUpload(request);
+    if (signed.method?.toUpperCase() === "POST") {
+      await this.client.uploadFile({
+        url: signed.url,
+        uri: request.uri,
+        method: "POST",
+        uploadType: "multipart",
+        headers: signed.headers,
+        fieldName: "file",
+        mimeType: request.mimeType,
+        parameters: signed.fields,
+        onProgress: options?.onProgress,
+      });
+    } else {
+      await this.client.uploadFile({
+        url: signed.url,
+        uri: request.uri,
+        method: "PUT",
+        uploadType: "binary",
+        headers: { "Content-Type": request.mimeType, ...signed.headers },
+        onProgress: options?.onProgress,
+      });
+    }
+
+    return {
+      key: request.key,
+      url: await this.getUrl(request.key),
+      size: request.fileSize,
+    };
+  }
+
+  async delete(key: string): Promise<void> {
+    const signed = await this.options.signer.signDelete(key);
+    await this.client.request(signed.url, {
+      method: signed.method ?? "DELETE",
+      headers: signed.headers,
+      allowStatus: [404, 410],
+    });
+  }
+
+  async getUrl(key: string): Promise<string> {
+    const { publicBaseUrl } = this.options;
+    return publicBaseUrl
+      ? `${publicBaseUrl.replace(/\/+$/, "")}/${encodeURIComponent(key)}`
+      : this.options.signer.signDownload(key);
+  }
+
+  async download(key: string): Promise<string> {
+    const url = await this.options.signer.signDownload(key);
+    return MediaFileService.downloadFile(
+      url,
+      MediaUtils.getExtension(url) ?? "bin",
+    );
+  }
+}
@@ -0,0 +1,526 @@
+/**
+ * Tus Storage Adapter
+ * Resumable, chunked uploads over the tus 1.0 protocol (https://tus.io)
+ */
+
+import { MEDIA_CONSTANTS, MediaUtils } from "../../domain/entities/Media";
+import { MediaError, MediaErrorCode } from "../../domain/entities/MediaError";
+import type {
+  ResumableMediaStorageAdapter,
+  ResumableUploadSession,
+  StorageUploadOptions,
+  StorageUploadRequest,
+  StoredMedia,
+} from "../../domain/entities/MediaStorageAdapter.types";
+import { Base64 } from "../../domain/utils/Base64";
+import { MediaFileService } from "../services/MediaFileService";
+import {
+  HttpStatusError,
+  HttpStorageClient,
+  type HttpHeadersProvider,
+} from "./HttpStorageClient";
+
+const TUS_VERSION = "1.0.0";
+const STORE_DIRECTORY = "uploads";
+const STORE_FILE = "tus-sessions.json";
+const DEFAULT_RETRY_DELAYS = [1000, 3000, 5000];
+// Finished uploads remembered for getUrl, download and delete
+const MAX_COMPLETED_UPLOADS = 500;
+
+export interface TusStorageOptions {
+  /** Creation endpoint; new uploads are POSTed here */
+  endpoint: string;
+  headers?: HttpHeadersProvider;
+  /** Bytes per PATCH request, default MEDIA_CONSTANTS.UPLOAD_CHUNK_SIZE */
+  chunkSize?: number;
+  /** Waits in ms before retrying a failed chunk, default 1s, 3s, 5s */
+  retryDelays?: number[];
+  fetch?: typeof fetch;
+}
+
+/**
+ * Sessions upload a copy of the source kept in the app documents, so a
+ * picker or cache file purged by the OS cannot break a later resume.
+ * `uri` is the copy; `sourceUri` is the URI the upload was started with.
+ */
+interface TusSession extends ResumableUploadSession {
+  sourceUri: string;
+}
+
+/**
+ * Persisted in the app documents, which the OS does not purge, so
+ * unfinished uploads and the URLs of recent finished ones survive restarts
+ */
+interface TusStore {
+  sessions: Record<string, TusSession>;
+  completed: Record<
+    string,
+    { url: string; filename: string; completedAt: number }
+  >;
+}
+
+interface RunningUpload {
+  controller: AbortController;
+  done: Promise<unknown>;
+}
+
+export class TusStorageAdapter implements ResumableMediaStorageAdapter {
+  private readonly client: HttpStorageClient;
+  private readonly chunkSize: number;
+  private readonly retryDelays: number[];
+  private readonly running = new Map<string, RunningUpload>();
+  private store: TusStore | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly options: TusStorageOptions) {
+    this.client = new HttpStorageClient(options.headers, options.fetch);
+    this.chunkSize = Math.max(
+      1,
+      options.chunkSize ?? MEDIA_CONSTANTS.UPLOAD_CHUNK_SIZE,
+    );
+    this.retryDelays = options.retryDelays ?? DEFAULT_RETRY_DELAYS;
+  }
+
+  async upload(
+    request: StorageUploadRequest,
+    options?: StorageUploadOptions,
+  ): Promise<StoredMedia> {
+    if (this.running.has(request.key)) {
+      throw new Error(`Upload ${request.key} is already running`);
+    }
+    const controller = new AbortController();
+    const done = this.run(request, controller.signal, options);
+    this.running.set(request.key, { controller, done });
+    try {
+      return await done;
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new MediaError(MediaErrorCode.CANCELED, "Upload paused", error);
+      }
+      throw error;
+    } finally {
+      this.running.delete(request.key);
+    }
+  }
+
+  async pause(key: string): Promise<void> {
+    const upload = this.running.get(key);
+    if (upload) {
+      upload.controller.abort();
+      await upload.done.catch(() => undefined);
+    }
+  }
+
+  async discard(key: string): Promise<void> {
+    await this.pause(key);
+    const session = await this.update((store) => {
+      const found = store.sessions[key];
+      delete store.sessions[key];
+      return found;
+    });
+    if (session) {
+      await this.deleteCopy(session);
+      await this.terminate(session.uploadUrl);
+    }
+  }
+
+  async getPendingUploads(): Promise<ResumableUploadSession[]> {
+    const store = await this.serialize(() => this.load());
+    return Object.values(store.sessions).sort(
+      (a, b) => b.updatedAt - a.updatedAt,
+    );
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.discard(key);
+    const completed = await this.update((store) => {
+      const found = store.completed[key];
+      delete store.completed[key];
+      return found;
+    });
+    if (completed) {
+      await this.terminate(completed.url);
+    }
+  }
+
+  async getUrl(key: string): Promise<string> {
+    const store = await this.serialize(() => this.load());
+    const completed = store.completed[key];
+    if (!completed) {
+      throw new Error(`No finished upload for ${key}`);
+    }
+    return completed.url;
+  }
+
+  async download(key: string): Promise<string> {
+    const store = await this.serialize(() => this.load());
+    const completed = store.completed[key];
+    if (!completed) {
+      throw new Error(`No finished upload for ${key}`);
+    }
+    return MediaFileService.downloadFile(
+      completed.url,
+      MediaUtils.getExtension(completed.filename) ?? "bin",
+      await this.client.getHeaders(),
+    );
+  }
+
+  private async run(
+    request: StorageUploadRequest,
+    signal: AbortSignal,
+    options?: StorageUploadOptions,
+  ): Promise<StoredMedia> {
+    const size = await MediaFileService.getFileSize(request.uri);
+    if (size === undefined) {
+      throw new MediaError(
+        MediaErrorCode.INVALID_FILE,
+        "Failed to read file: unknown size",
+      );
+    }
+
+    const session =
+      (await this.findSession(request, size, signal)) ??
+      (await this.createSession(request, size, signal));
+    options?.onProgress?.(session.offset, size);
+
+    while (session.offset < size) {
+      if (signal.aborted) {
+        throw new Error("Upload aborted");
+      }
+      session.offset = await this.sendChunkWithRetry(session, signal);
+      session.updatedAt = Date.now();
+      await this.update((store) => {
+        store.sessions[session.key] = { ...session };
+      });
+      options?.onProgress?.(session.offset, size);
+    }
+
+    await this.update((store) => {
+      delete store.sessions[session.key];
+      store.completed[session.key] = {
+        url: session.uploadUrl,
+        filename: session.filename,
+        completedAt: Date.now(),
+      };
+      this.pruneCompleted(store);
+    });
+    await this.deleteCopy(session);
+    return { key: request.key, url: session.uploadUrl, size };
+  }
+
+  /**
+   * Unfinished session for the same file (its source or its copy),
+   * synced to the server offset. Sessions for another file or expired
+   * on the server are dropped.
+   */
+  private async findSession(
+    request: StorageUploadRequest,
+    size: number,
+    signal: AbortSignal,
+  ): Promise<TusSession | null> {
+    const store = await this.serialize(() => this.load());
+    const session = store.sessions[request.key];
+    if (!session) {
+      return null;
+    }
+
+    const sameFile =
+      (session.sourceUri === request.uri || session.uri === request.uri) &&
+      session.size === size;
+    const offset = sameFile
+      ? await this.getServerOffset(session.uploadUrl, signal)
+      : null;
+    if (offset === null) {
+      await this.update((current) => {
+        delete current.sessions[request.key];
+      });
+      // Resuming from the copy itself keeps it for the new session
+      if (session.uri !== request.uri) {
+        await this.deleteCopy(session);
+      }
+      return null;
+    }
+    return { ...session, offset };
+  }
+
+  private async createSession(
+    request: StorageUploadRequest,
+    size: number,
+    signal: AbortSignal,
+  ): Promise<TusSession> {
+    const uri = await this.copySource(request);
+    let location: string | null;
+    try {
+      const response = await this.client.request(this.options.endpoint, {
+        method: "POST",
+        headers: {
+          "Tus-Resumable": TUS_VERSION,
+          "Upload-Length": String(size),
+          "Upload-Metadata": this.encodeMetadata({
+            key: request.key,
+            filename: request.filename,
+            filetype: request.mimeType,
+          }),
+        },
+        signal,
+      });
+      location = response.headers.get("Location");
+      if (!location) {
+        throw new Error("tus server returned no upload location");
+      }
+    } catch (error) {
+      if (uri !== request.uri) {
+        await MediaFileService.deleteFile(uri);
+      }
+      throw error;
+    }
+
+    const session: TusSession = {
+      key: request.key,
+      uri,
+      sourceUri: request.uri,
+      filename: request.filename,
+      mimeType: request.mimeType,
+      size,
+      offset: 0,
+      uploadUrl: this.resolveUrl(location),
+      updatedAt: Date.now(),
+    };
+    await this.update((store) => {
+      store.sessions[session.key] = { ...session };
+    });
+    return session;
+  }
+
+  /**
+   * Copy the source into the uploads directory, unless it is the copy
+   */
+  private async copySource(request: StorageUploadRequest): Promise<string> {
+    const directory = await this.getUploadDirectory();
+    const extension = MediaUtils.getExtension(request.filename) ?? "bin";
+    const uri = `${directory}${request.key.replace(/[^A-Za-z0-9_-]/g, "_")}.${extension}`;
+    if (uri !== request.uri) {
+      await MediaFileService.deleteFile(uri);
+      await MediaFileService.copyFile(request.uri, uri);
+    }
+    return uri;
+  }
+
+  /**
+   * Delete a session's copy; sources outside the uploads directory
+   * (sessions stored before copies were made) are never deleted
+   */
+  private async deleteCopy(session: TusSession): Promise<void> {
+    if (session.uri.startsWith(await this.getUploadDirectory())) {
+      await MediaFileService.deleteFile(session.uri);
+    }
+  }
+
+  /**
+   * Send the next chunk and return the new offset. Network errors,
+   * 5xx, 409 (offset mismatch) and 423 (locked) are retried after
+   * re-reading the offset from the server.
+   */
+  private async sendChunkWithRetry(
+    session: TusSession,
+    signal: AbortSignal,
+  ): Promise<number> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        if (attempt > 0) {
+          const offset = await this.getServerOffset(session.uploadUrl, signal);
+          if (offset === null) {
+            throw new Error("Upload expired on the tus server");
+          }
+          session.offset = offset;
+          if (offset >= session.size) {
+            return offset;
+          }
+        }
+        return await this.sendChunk(session, signal);
+      } catch (error) {
+        if (
+          signal.aborted ||
+          attempt >= this.retryDelays.length ||
+          !this.isRetryable(error)
+        ) {
+          throw error;
+        }
+        await this.wait(this.retryDelays[attempt], signal);
+      }
+    }
+  }
+
+  private async sendChunk(
+    session: TusSession,
+    signal: AbortSignal,
+  ): Promise<number> {
+    const chunk = await MediaFileService.readBytes(
+      session.uri,
+      session.offset,
+      Math.min(this.chunkSize, session.size - session.offset),
+    );
+    const response = await this.client.request(session.uploadUrl, {
+      method: "PATCH",
+      headers: {
+        "Tus-Resumable": TUS_VERSION,
+        "Upload-Offset": String(session.offset),
+        "Content-Type": "application/offset+octet-stream",
+      },
+      body: chunk,
+      signal,
+    });
+
+    const offset = Number(response.headers.get("Upload-Offset"));
+    if (!Number.isInteger(offset) || offset <= session.offset) {
+      throw new Error("tus server did not accept the chunk");
+    }
+    return offset;
+  }
+
+  /**
+   * Offset the server holds, or null when the upload no longer exists
+   */
+  private async getServerOffset(
+    uploadUrl: string,
+    signal: AbortSignal,
+  ): Promise<number | null> {
+    const response = await this.client.request(uploadUrl, {
+      method: "HEAD",
+      headers: { "Tus-Resumable": TUS_VERSION },
+      allowStatus: [403, 404, 410],
+      signal,
+    });
+    const offset = Number(response.headers.get("Upload-Offset"));
+    return response.ok && Number.isInteger(offset) ? offset : null;
+  }
+
+  /**
+   * Delete server data (tus termination extension)
+   */
+  private async terminate(uploadUrl: string): Promise<void> {
+    await this.client.request(uploadUrl, {
+      method: "DELETE",
+      headers: { "Tus-Resumable": TUS_VERSION },
+      allowStatus: [404, 410],
+    });
+  }
+
+  private isRetryable(error: unknown): boolean {
+    if (error instanceof HttpStatusError) {
+      return (
+        error.status >= 500 || error.status === 409 || error.status === 423
+      );
+    }
+    // fetch rejects with TypeError when the network fails
+    return error instanceof TypeError;
+  }
+
+  private wait(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new Error("Upload aborted"));
+      };
+      const timer = setTimeout(() => {
+        signal.removeEventListener("abort", onAbort);
+        resolve();
+      }, ms);
+      signal.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+
+  private encodeMetadata(metadata: Record<string, string>): string {
+    const encoder = new TextEncoder();
+    return Object.entries(metadata)
+      .map(([name, value]) => `${name} ${Base64.encode(encoder.encode(value))}`)
+      .join(",");
+  }
+
+  /**
+   * Locations may be relative to the endpoint
+   */
+  private resolveUrl(location: string): string {
+    if (/^https?:\/\//i.test(location)) {
+      return location;
+    }
+    const { endpoint } = this.options;
+    if (location.startsWith("/")) {
+      const origin = endpoint.match(/^https?:\/\/[^/]+/i)?.[0] ?? "";
+      return `${origin}${location}`;
+    }
+    return `${endpoint.replace(/\/+$/, "")}/${location}`;
+  }
+
+  /**
+   * Forget the oldest finished uploads beyond MAX_COMPLETED_UPLOADS.
+   * Callers keep the returned URL; only lookups by key are lost.
+   */
+  private pruneCompleted(store: TusStore): void {
+    const keys = Object.keys(store.completed);
+    if (keys.length <= MAX_COMPLETED_UPLOADS) {
+      return;
+    }
+    keys
+      .sort(
+        (a, b) =>
+          (store.completed[a].completedAt ?? 0) -
+          (store.completed[b].completedAt ?? 0),
+      )
+      .slice(0, keys.length - MAX_COMPLETED_UPLOADS)
+      .forEach((key) => delete store.completed[key]);
+  }
+
+  private async update<T>(change: (store: TusStore) => T): Promise<T> {
+    return this.serialize(async () => {
+      const store = await this.load();
+      const result = change(store);
+      await MediaFileService.writeText(
+        await this.getStorePath(),
+        JSON.stringify(store),
+      );
+      return result;
+    });
+  }
+
+  private async load(): Promise<TusStore> {
+    if (!this.store) {
+      const text = await MediaFileService.readText(await this.getStorePath());
+      let parsed: Partial<TusStore> = {};
+      try {
+        parsed = text ? JSON.parse(text) : {};
+      } catch {
+        // A corrupt store only loses resumability
+      }
+      // Sessions stored before copies were made upload their source
+      const sessions = Object.fromEntries(
+        Object.entries(parsed.sessions ?? {}).map(([key, session]) => [
+          key,
+          { ...session, sourceUri: session.sourceUri ?? session.uri },
+        ]),
+      );
+      this.store = {
+        sessions,
+        completed: parsed.completed ?? {},
+      };
+    }
+    return this.store;
+  }
+
+  private async getStorePath(): Promise<string> {
+    return `${await this.getUploadDirectory()}${STORE_FILE}`;
+  }
+
+  private getUploadDirectory(): Promise<string> {
+    return MediaFileService.getDocumentDirectory(STORE_DIRECTORY);
+  }
+
+  /**
+   * Store reads and writes run one at a time
+   */
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * MediaPickerService through the in-memory picker backend, with picked
+ * files on disk behind a Node file system adapter
+ */
+
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import type { MediaAsset } from "../../../domain/entities/Media";
+import {
+  MediaLibraryPermission,
+  MediaType,
+} from "../../../domain/entities/Media";
+import { MediaErrorCode } from "../../../domain/entities/MediaError";
+import { MediaPermissionUtils } from "../../../domain/entities/MediaPermission";
+import { PngCodec } from "../../../domain/utils/PngCodec";
+import { MediaFileService } from "../../services/MediaFileService";
+import { MediaPickerService } from "../../services/MediaPickerService";
+import { ExpoImagePickerBackend } from "../ExpoImagePickerBackend";
+import { InMemoryMediaPickerBackend } from "../InMemoryMediaPickerBackend";
+import { NodeFileSystemAdapter } from "./NodeFileSystemAdapter";
+
+jest.mock("../ExpoFileSystemAdapter", () => ({
+  ExpoFileSystemAdapter: class {},
+}));
+jest.mock("../ExpoImageManipulatorAdapter", () => ({
+  ExpoImageManipulatorAdapter: class {},
+}));
+jest.mock("../ExpoImagePickerBackend", () => ({
+  ExpoImagePickerBackend: class {},
+}));
+jest.mock("../ExpoDocumentPickerAdapter", () => ({
+  ExpoDocumentPickerAdapter: class {},
+}));
+jest.mock("../ExpoVideoThumbnailsAdapter", () => ({
+  ExpoVideoThumbnailsAdapter: class {},
+}));
+
+describe("MediaPickerService with InMemoryMediaPickerBackend", () => {
+  let directory: string;
+  let backend: InMemoryMediaPickerBackend;
+
+  const writeImage = (name: string): MediaAsset => {
+    const uri = path.join(directory, name);
+    fs.writeFileSync(
+      uri,
+      PngCodec.encode({ width: 2, height: 2, data: new Uint8Array(16) }),
+    );
+    return { uri, width: 2, height: 2, type: MediaType.IMAGE };
+  };
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "media-picker-"));
+    MediaFileService.setAdapter(new NodeFileSystemAdapter(directory));
+    backend = new InMemoryMediaPickerBackend({
+      cameraAssets: [writeImage("camera.png")],
+      libraryAssets: [writeImage("first.png"), writeImage("second.png")],
+    });
+    MediaPickerService.setBackend(backend);
+  });
+
+  afterEach(() => {
+    MediaPickerService.resetBackend();
+    MediaFileService.resetAdapter();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("routes library picks to the installed backend", async () => {
+    const result = await MediaPickerService.pickMultipleImages({
+      quality: 0.5,
+      selectionLimit: 2,
+    });
+
+    expect(backend.calls).toEqual([
+      {
+        source: "library",
+        options: expect.objectContaining({
+          mediaTypes: MediaType.IMAGE,
+          allowsMultipleSelection: true,
+          selectionLimit: 2,
+          quality: 0.5,
+        }),
+      },
+    ]);
+    expect(result.status).toBe("success");
+    expect(result.assets?.map((asset) => path.basename(asset.uri))).toEqual([
+      "first.png",
+      "second.png",
+    ]);
+    // Post-processing ran on the picked files
+    expect(result.assets?.[0].mimeType).toBe("image/png");
+  });
+
+  it("routes camera captures to the installed backend", async () => {
+    const result = await MediaPickerService.launchCamera();
+
+    expect(backend.calls.map((call) => call.source)).toEqual(["camera"]);
+    expect(result.status).toBe("success");
+    expect(path.basename(result.assets?.[0].uri ?? "")).toBe("camera.png");
+  });
+
+  it("reports a cancel", async () => {
+    backend.enqueueResult({ canceled: true });
+
+    const result = await MediaPickerService.pickImage();
+
+    expect(result).toEqual({ status: "canceled", canceled: true });
+  });
+
+  it("reports denied permission without launching the picker", async () => {
+    backend.setMediaLibraryPermission(MediaLibraryPermission.DENIED);
+
+    const result = await MediaPickerService.pickImage();
+
+    expect(backend.calls).toEqual([]);
+    expect(result).toMatchObject({
+      status: "permission_denied",
+      canceled: true,
+      permission: { status: MediaLibraryPermission.DENIED, blocked: false },
+      error: {
+        code: MediaErrorCode.PERMISSION_DENIED,
+        message: "Media library permission denied",
+      },
+    });
+  });
+
+  it("tells a blocked camera permission apart", async () => {
+    backend.setCameraPermission(
+      MediaPermissionUtils.fromStatus(MediaLibraryPermission.DENIED, false),
+    );
+
+    const result = await MediaPickerService.launchCamera();
+
+    expect(backend.calls).toEqual([]);
+    expect(result).toMatchObject({
+      status: "permission_denied",
+      permission: { blocked: true },
+      error: {
+        code: MediaErrorCode.PERMISSION_DENIED,
+        message: "Camera permission is blocked, enable it in settings",
+      },
+    });
+  });
+
+  it("wraps backend failures in an error result", async () => {
+    const failure = new Error("Activity destroyed");
+    backend.enqueueResult(failure);
+
+    const result = await MediaPickerService.pickImage();
+
+    expect(result).toMatchObject({
+      status: "error",
+      canceled: true,
+      error: {
+        code: MediaErrorCode.PICKER_FAILED,
+        message: "Failed to pick media: Activity destroyed",
+        cause: failure,
+      },
+    });
+  });
+
+  it("goes back to the expo backend after a reset", () => {
+    expect(MediaPickerService.getBackend()).toBe(backend);
+
+    MediaPickerService.resetBackend();
+
+    const restored = MediaPickerService.getBackend();
+    expect(restored).toBeInstanceOf(ExpoImagePickerBackend);
+    expect(MediaPickerService.getBackend()).toBe(restored);
+  });
+});
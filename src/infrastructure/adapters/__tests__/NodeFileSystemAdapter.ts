@@ -0,0 +1,155 @@
+/**
+ * MediaFileSystemAdapter on Node's fs and http modules, for tests.
+ * Uploads stream from disk the way expo-file-system upload tasks do.
+ */
+
+import fs from "node:fs";
+import http from "node:http";
+import path from "node:path";
+import type {
+  FileUploadRequest,
+  FileUploadResponse,
+  MediaFileSystemAdapter,
+} from "../../../domain/entities/MediaFileSystemAdapter.types";
+
+export class NodeFileSystemAdapter implements MediaFileSystemAdapter {
+  constructor(private readonly root: string) {}
+
+  async readBytes(
+    uri: string,
+    position: number,
+    length: number,
+  ): Promise<Uint8Array> {
+    const fd = fs.openSync(uri, "r");
+    try {
+      const buffer = Buffer.alloc(length);
+      const read = fs.readSync(fd, buffer, 0, length, position);
+      return new Uint8Array(buffer.subarray(0, read));
+    } finally {
+      fs.closeSync(fd);
+    }
+  }
+
+  async getFileSize(uri: string): Promise<number | undefined> {
+    return fs.existsSync(uri) ? fs.statSync(uri).size : undefined;
+  }
+
+  async writeBytes(bytes: Uint8Array, extension: string): Promise<string> {
+    const uri = path.join(
+      await this.getCacheDirectory("files"),
+      `file_${Date.now()}_${Math.random().toString(36).slice(2)}.${extension}`,
+    );
+    fs.writeFileSync(uri, bytes);
+    return uri;
+  }
+
+  async downloadFile(
+    url: string,
+    extension: string,
+    headers?: Record<string, string>,
+  ): Promise<string> {
+    const response = await fetch(url, { headers });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} while downloading ${url}`);
+    }
+    return this.writeBytes(
+      new Uint8Array(await response.arrayBuffer()),
+      extension,
+    );
+  }
+
+  async getMd5(): Promise<string | undefined> {
+    return undefined;
+  }
+
+  uploadFile(request: FileUploadRequest): Promise<FileUploadResponse> {
+    const size = fs.statSync(request.uri).size;
+    const boundary = `----test-${Date.now()}`;
+    const head =
+      request.uploadType === "multipart"
+        ? Buffer.from(
+            [
+              ...Object.entries(request.parameters ?? {}).map(
+                ([name, value]) =>
+                  `--${boundary}\r\nContent-Disposition: form-data; name="${name}"\r\n\r\n${value}\r\n`,
+              ),
+              `--${boundary}\r\nContent-Disposition: form-data; name="${request.fieldName}"; filename="${path.basename(request.uri)}"\r\n`,
+              `Content-Type: ${request.mimeType}\r\n\r\n`,
+            ].join(""),
+          )
+        : Buffer.alloc(0);
+    const tail =
+      request.uploadType === "multipart"
+        ? Buffer.from(`\r\n--${boundary}--\r\n`)
+        : Buffer.alloc(0);
+    const headers = {
+      ...request.headers,
+      ...(request.uploadType === "multipart" && {
+        "Content-Type": `multipart/form-data; boundary=${boundary}`,
+      }),
+      "Content-Length": String(head.length + size + tail.length),
+    };
+
+    return new Promise((resolve, reject) => {
+      const outgoing = http.request(
+        request.url,
+        { method: request.method, headers },
+        (incoming) => {
+          const chunks: Buffer[] = [];
+          incoming.on("data", (chunk) => chunks.push(chunk));
+          incoming.on("end", () =>
+            resolve({
+              status: incoming.statusCode ?? 0,
+              headers: incoming.headers as Record<string, string>,
+              body: Buffer.concat(chunks).toString("utf8"),
+            }),
+          );
+        },
+      );
+      outgoing.on("error", reject);
+      outgoing.write(head);
+      let sent = 0;
+      fs.createReadStream(request.uri, { highWaterMark: 16 * 1024 })
+        .on("data", (chunk: Buffer) => {
+          outgoing.write(chunk);
+          sent += chunk.length;
+          request.onProgress?.(sent, size);
+        })
+        .on("error", reject)
+        .on("end", () => outgoing.end(tail));
+    });
+  }
+
+  async getCacheDirectory(name: string): Promise<string> {
+    return this.ensureDirectory(path.join(this.root, "cache", name));
+  }
+
+  async getDocumentDirectory(name: string): Promise<string> {
+    return this.ensureDirectory(path.join(this.root, "documents", name));
+  }
+
+  async moveFile(from: string, to: string): Promise<void> {
+    fs.renameSync(from, to);
+  }
+
+  async copyFile(from: string, to: string): Promise<void> {
+    fs.copyFileSync(from, to);
+  }
+
+  async deleteFile(uri: string): Promise<void> {
+    fs.rmSync(uri, { force: true });
+  }
+
+  async readText(uri: string): Promise<string | null> {
+    return fs.existsSync(uri) ? fs.readFileSync(uri, "utf8") : null;
+  }
+
+  async writeText(uri: string, text: string): Promise<void> {
+    fs.writeFileSync(uri, text);
+  }
+
+  private ensureDirectory(directory: string): string {
+    fs.mkdirSync(directory, { recursive: true });
+    return `${directory}/`;
+  }
+}
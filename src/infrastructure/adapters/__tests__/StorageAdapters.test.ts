@@ -0,0 +1,247 @@
+/**
+ * HTTP storage adapters against a local HTTP server. A Node file system
+ * adapter streams uploads the way expo-file-system upload tasks do.
+ */
+
+import fs from "node:fs";
+import http from "node:http";
+import os from "node:os";
+import path from "node:path";
+import { MediaFileService } from "../../services/MediaFileService";
+import { HttpMultipartStorageAdapter } from "../HttpMultipartStorageAdapter";
+import { HttpStatusError } from "../HttpStorageClient";
+import {
+  PresignedUrlStorageAdapter,
+  type PresignedUrlSigner,
+} from "../PresignedUrlStorageAdapter";
+import { NodeFileSystemAdapter } from "./NodeFileSystemAdapter";
+
+jest.mock("../ExpoFileSystemAdapter", () => ({
+  ExpoFileSystemAdapter: class {},
+}));
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: Buffer;
+}
+
+type Reply = (request: RecordedRequest, response: http.ServerResponse) => void;
+
+const FILE_BYTES = Buffer.from(
+  Array.from({ length: 64 * 1024 }, (_, i) => i % 251),
+);
+
+describe("HTTP storage adapters", () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let directory: string;
+  let filePath: string;
+  let requests: RecordedRequest[];
+  let reply: Reply;
+  let readBytes: jest.SpyInstance;
+
+  beforeAll(async () => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "storage-adapters-"));
+    filePath = path.join(directory, "clip.mp4");
+    fs.writeFileSync(filePath, FILE_BYTES);
+    const fileSystem = new NodeFileSystemAdapter(directory);
+    // Uploads must stream, never read the file into memory
+    readBytes = jest.spyOn(fileSystem, "readBytes");
+    MediaFileService.setAdapter(fileSystem);
+
+    server = http.createServer((incoming, response) => {
+      const chunks: Buffer[] = [];
+      incoming.on("data", (chunk) => chunks.push(chunk));
+      incoming.on("end", () => {
+        const request: RecordedRequest = {
+          method: incoming.method ?? "",
+          url: incoming.url ?? "",
+          headers: incoming.headers,
+          body: Buffer.concat(chunks),
+        };
+        requests.push(request);
+        reply(request, response);
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const { port } = server.address() as { port: number };
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterEach(() => {
+    expect(readBytes).not.toHaveBeenCalled();
+  });
+
+  afterAll(async () => {
+    MediaFileService.resetAdapter();
+    await new Promise((resolve) => server.close(resolve));
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    requests = [];
+    readBytes.mockClear();
+    reply = (_, response) => response.writeHead(204).end();
+  });
+
+  const uploadRequest = () => ({
+    key: "card_media_1",
+    uri: filePath,
+    filename: "clip.mp4",
+    mimeType: "video/mp4",
+    fileSize: FILE_BYTES.length,
+  });
+
+  describe("HttpMultipartStorageAdapter", () => {
+    const createAdapter = () =>
+      new HttpMultipartStorageAdapter({
+        baseUrl: `${baseUrl}/media/`,
+        headers: async () => ({ Authorization: "Bearer token" }),
+        fields: { deck: "spanish" },
+      });
+
+    it("streams the file as multipart form data", async () => {
+      reply = (_, response) =>
+        response
+          .writeHead(201, { "Content-Type": "application/json" })
+          .end(JSON.stringify({ url: "https://cdn.test/clip.mp4", size: 42 }));
+      const progress: number[] = [];
+
+      const stored = await createAdapter().upload(uploadRequest(), {
+        onProgress: (sent) => progress.push(sent),
+      });
+
+      expect(stored).toEqual({
+        key: "card_media_1",
+        url: "https://cdn.test/clip.mp4",
+        size: 42,
+      });
+      const [request] = requests;
+      expect(request.method).toBe("POST");
+      expect(request.url).toBe("/media");
+      expect(request.headers.authorization).toBe("Bearer token");
+      expect(request.headers["content-type"]).toMatch(/^multipart\/form-data/);
+      const body = request.body.toString("latin1");
+      expect(body).toContain('name="key"\r\n\r\ncard_media_1');
+      expect(body).toContain('name="deck"\r\n\r\nspanish');
+      expect(body.indexOf('name="key"')).toBeLessThan(
+        body.indexOf('name="file"'),
+      );
+      expect(request.body.includes(FILE_BYTES)).toBe(true);
+      expect(progress[progress.length - 1]).toBe(FILE_BYTES.length);
+    });
+
+    it("falls back to the object URL without a JSON response", async () => {
+      const stored = await createAdapter().upload(uploadRequest());
+
+      expect(stored.url).toBe(`${baseUrl}/media/card_media_1`);
+      expect(stored.size).toBe(FILE_BYTES.length);
+    });
+
+    it("rejects non-2xx uploads with the status", async () => {
+      reply = (_, response) => response.writeHead(413).end();
+
+      await expect(createAdapter().upload(uploadRequest())).rejects.toEqual(
+        expect.objectContaining({ status: 413 }),
+      );
+      await expect(
+        createAdapter().upload(uploadRequest()),
+      ).rejects.toBeInstanceOf(HttpStatusError);
+    });
+
+    it("deletes objects and ignores missing ones", async () => {
+      reply = (_, response) => response.writeHead(404).end();
+
+      await createAdapter().delete("card_media_1");
+
+      expect(requests[0].method).toBe("DELETE");
+      expect(requests[0].url).toBe("/media/card_media_1");
+      reply = (_, response) => response.writeHead(500).end();
+      await expect(createAdapter().delete("card_media_1")).rejects.toThrow(
+        "HTTP 500",
+      );
+    });
+
+    it("downloads objects with the configured headers", async () => {
+      reply = (_, response) => response.writeHead(200).end(FILE_BYTES);
+
+      const uri = await createAdapter().download("card_media_1");
+
+      expect(fs.readFileSync(uri).equals(FILE_BYTES)).toBe(true);
+      expect(requests[0].headers.authorization).toBe("Bearer token");
+    });
+  });
+
+  describe("PresignedUrlStorageAdapter", () => {
+    const createSigner = (
+      upload: { method?: string; fields?: Record<string, string> } = {},
+    ): PresignedUrlSigner => ({
+      signUpload: async (request) => ({
+        url: `${baseUrl}/bucket/${request.key}?signature=up`,
+        headers: { "x-amz-acl": "private" },
+        ...upload,
+      }),
+      signDownload: async (key) => `${baseUrl}/bucket/${key}?signature=get`,
+      signDelete: async (key) => ({
+        url: `${baseUrl}/bucket/${key}?signature=delete`,
+      }),
+    });
+
+    it("PUTs the raw file to the signed URL", async () => {
+      const adapter = new PresignedUrlStorageAdapter({
+        signer: createSigner(),
+        publicBaseUrl: "https://cdn.test/",
+      });
+
+      const stored = await adapter.upload(uploadRequest());
+
+      expect(stored.url).toBe("https://cdn.test/card_media_1");
+      const [request] = requests;
+      expect(request.method).toBe("PUT");
+      expect(request.url).toBe("/bucket/card_media_1?signature=up");
+      expect(request.headers["content-type"]).toBe("video/mp4");
+      expect(request.headers["x-amz-acl"]).toBe("private");
+      expect(request.body.equals(FILE_BYTES)).toBe(true);
+    });
+
+    it("POSTs policy fields before the file", async () => {
+      const adapter = new PresignedUrlStorageAdapter({
+        signer: createSigner({
+          method: "POST",
+          fields: { key: "card_media_1", policy: "abc" },
+        }),
+      });
+
+      const stored = await adapter.upload(uploadRequest());
+
+      expect(stored.url).toBe(`${baseUrl}/bucket/card_media_1?signature=get`);
+      const body = requests[0].body.toString("latin1");
+      expect(requests[0].method).toBe("POST");
+      expect(body.indexOf('name="policy"')).toBeLessThan(
+        body.indexOf('name="file"'),
+      );
+      expect(requests[0].body.includes(FILE_BYTES)).toBe(true);
+    });
+
+    it("deletes and downloads through signed URLs", async () => {
+      const adapter = new PresignedUrlStorageAdapter({
+        signer: createSigner(),
+      });
+      reply = (request, response) =>
+        request.method === "DELETE"
+          ? response.writeHead(410).end()
+          : response.writeHead(200).end(FILE_BYTES);
+
+      await adapter.delete("card_media_1");
+      const uri = await adapter.download("card_media_1");
+
+      expect(requests.map(({ method, url }) => `${method} ${url}`)).toEqual([
+        "DELETE /bucket/card_media_1?signature=delete",
+        "GET /bucket/card_media_1?signature=get",
+      ]);
+      expect(fs.readFileSync(uri).equals(FILE_BYTES)).toBe(true);
+    });
+  });
+});
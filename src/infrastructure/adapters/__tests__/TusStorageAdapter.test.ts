@@ -0,0 +1,311 @@
+/**
+ * TusStorageAdapter against a minimal tus 1.0 server on a local HTTP
+ * server, with sessions persisted through a Node file system adapter
+ */
+
+import fs from "node:fs";
+import http from "node:http";
+import os from "node:os";
+import path from "node:path";
+import type { StorageUploadRequest } from "../../../domain/entities/MediaStorageAdapter.types";
+import { MediaFileService } from "../../services/MediaFileService";
+import { TusStorageAdapter } from "../TusStorageAdapter";
+import { NodeFileSystemAdapter } from "./NodeFileSystemAdapter";
+
+jest.mock("../ExpoFileSystemAdapter", () => ({
+  ExpoFileSystemAdapter: class {},
+}));
+
+interface ServerUpload {
+  length: number;
+  data: Buffer;
+}
+
+/**
+ * Runs before the server handles a PATCH; returning true means the
+ * hook sent the response itself
+ */
+type PatchHook = (
+  upload: ServerUpload,
+  body: Buffer,
+  response: http.ServerResponse,
+) => boolean;
+
+const CHUNK_SIZE = 16 * 1024;
+const FILE_BYTES = Buffer.from(
+  Array.from({ length: CHUNK_SIZE * 3 + 100 }, (_, i) => (i * 7) % 256),
+);
+
+describe("TusStorageAdapter", () => {
+  let server: http.Server;
+  let endpoint: string;
+  let directory: string;
+  let sourcePath: string;
+  let uploads: Map<string, ServerUpload>;
+  let gone: Set<string>;
+  let methods: string[];
+  let onPatch: PatchHook | null;
+  let nextId: number;
+
+  const createAdapter = () =>
+    new TusStorageAdapter({
+      endpoint,
+      chunkSize: CHUNK_SIZE,
+      retryDelays: [0, 0, 0],
+    });
+
+  const uploadRequest = (uri = sourcePath): StorageUploadRequest => ({
+    key: "card_media_1",
+    uri,
+    filename: "clip.mp4",
+    mimeType: "video/mp4",
+    fileSize: FILE_BYTES.length,
+  });
+
+  const storePath = () =>
+    path.join(directory, "documents", "uploads", "tus-sessions.json");
+
+  const handle = (
+    incoming: http.IncomingMessage,
+    body: Buffer,
+    response: http.ServerResponse,
+  ) => {
+    const method = incoming.method ?? "";
+    const id = (incoming.url ?? "").replace(/^\/files\/?/, "");
+    methods.push(method);
+
+    if (method === "POST") {
+      const uploadId = `upload${nextId++}`;
+      uploads.set(uploadId, {
+        length: Number(incoming.headers["upload-length"]),
+        data: Buffer.alloc(0),
+      });
+      response.writeHead(201, { Location: `/files/${uploadId}` }).end();
+      return;
+    }
+
+    const upload = uploads.get(id);
+    if (!upload) {
+      response.writeHead(gone.has(id) ? 410 : 404).end();
+      return;
+    }
+
+    if (method === "HEAD") {
+      response
+        .writeHead(200, {
+          "Upload-Offset": String(upload.data.length),
+          "Upload-Length": String(upload.length),
+        })
+        .end();
+    } else if (method === "PATCH") {
+      if (onPatch?.(upload, body, response)) {
+        return;
+      }
+      if (Number(incoming.headers["upload-offset"]) !== upload.data.length) {
+        response.writeHead(409).end();
+        return;
+      }
+      upload.data = Buffer.concat([upload.data, body]);
+      response
+        .writeHead(204, { "Upload-Offset": String(upload.data.length) })
+        .end();
+    } else if (method === "DELETE") {
+      uploads.delete(id);
+      response.writeHead(204).end();
+    } else {
+      response.writeHead(405).end();
+    }
+  };
+
+  beforeAll(async () => {
+    server = http.createServer((incoming, response) => {
+      const chunks: Buffer[] = [];
+      incoming.on("data", (chunk) => chunks.push(chunk));
+      incoming.on("end", () =>
+        handle(incoming, Buffer.concat(chunks), response),
+      );
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const { port } = server.address() as { port: number };
+    endpoint = `http://127.0.0.1:${port}/files`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "tus-adapter-"));
+    sourcePath = path.join(directory, "clip.mp4");
+    fs.writeFileSync(sourcePath, FILE_BYTES);
+    MediaFileService.setAdapter(new NodeFileSystemAdapter(directory));
+    uploads = new Map();
+    gone = new Set();
+    methods = [];
+    onPatch = null;
+    nextId = 1;
+  });
+
+  afterEach(() => {
+    MediaFileService.resetAdapter();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  const uploadDirectoryFiles = () =>
+    fs
+      .readdirSync(path.join(directory, "documents", "uploads"))
+      .filter((name) => name !== "tus-sessions.json");
+
+  it("uploads in chunks and forgets the session when done", async () => {
+    const adapter = createAdapter();
+    const progress: number[] = [];
+
+    const stored = await adapter.upload(uploadRequest(), {
+      onProgress: (sent) => progress.push(sent),
+    });
+
+    expect(stored).toEqual({
+      key: "card_media_1",
+      url: `${endpoint}/upload1`,
+      size: FILE_BYTES.length,
+    });
+    expect(uploads.get("upload1")?.data.equals(FILE_BYTES)).toBe(true);
+    expect(methods.filter((method) => method === "PATCH")).toHaveLength(4);
+    expect(progress).toEqual([
+      0,
+      CHUNK_SIZE,
+      CHUNK_SIZE * 2,
+      CHUNK_SIZE * 3,
+      FILE_BYTES.length,
+    ]);
+    expect(await adapter.getPendingUploads()).toEqual([]);
+    expect(await adapter.getUrl("card_media_1")).toBe(stored.url);
+    // The documents copy is gone, the source is untouched
+    expect(uploadDirectoryFiles()).toEqual([]);
+    expect(fs.existsSync(sourcePath)).toBe(true);
+  });
+
+  it("re-syncs with HEAD after an offset mismatch", async () => {
+    let mismatched = false;
+    // The server stores the second chunk but the client never learns it
+    onPatch = (upload, body, response) => {
+      if (mismatched || upload.data.length !== CHUNK_SIZE) {
+        return false;
+      }
+      mismatched = true;
+      upload.data = Buffer.concat([upload.data, body]);
+      response.writeHead(409).end();
+      return true;
+    };
+
+    await createAdapter().upload(uploadRequest());
+
+    expect(uploads.get("upload1")?.data.equals(FILE_BYTES)).toBe(true);
+    expect(methods).toEqual([
+      "POST",
+      "PATCH",
+      "PATCH",
+      "HEAD",
+      "PATCH",
+      "PATCH",
+    ]);
+  });
+
+  it("resumes from the documents copy after a restart", async () => {
+    const first = createAdapter();
+    await expect(
+      first.upload(uploadRequest(), {
+        onProgress: (sent) => {
+          if (sent > 0) void first.pause("card_media_1");
+        },
+      }),
+    ).rejects.toMatchObject({ code: "canceled" });
+    // The OS purges the picker file while the app is closed
+    fs.rmSync(sourcePath);
+
+    const restarted = createAdapter();
+    const [session] = await restarted.getPendingUploads();
+    expect(session).toMatchObject({
+      key: "card_media_1",
+      offset: CHUNK_SIZE,
+      size: FILE_BYTES.length,
+    });
+    expect(session.uri).not.toBe(sourcePath);
+    expect(fs.existsSync(session.uri)).toBe(true);
+
+    methods = [];
+    await restarted.upload(uploadRequest(session.uri));
+
+    expect(methods).toEqual(["HEAD", "PATCH", "PATCH", "PATCH"]);
+    expect(uploads.get("upload1")?.data.equals(FILE_BYTES)).toBe(true);
+    expect(fs.existsSync(session.uri)).toBe(false);
+    expect(await restarted.getPendingUploads()).toEqual([]);
+  });
+
+  it.each([404, 410])(
+    "starts over when HEAD answers %i for a stored session",
+    async (status) => {
+      const first = createAdapter();
+      await expect(
+        first.upload(uploadRequest(), {
+          onProgress: (sent) => {
+            if (sent > 0) void first.pause("card_media_1");
+          },
+        }),
+      ).rejects.toMatchObject({ code: "canceled" });
+      uploads.delete("upload1");
+      if (status === 410) gone.add("upload1");
+
+      methods = [];
+      const stored = await createAdapter().upload(uploadRequest());
+
+      expect(methods.slice(0, 2)).toEqual(["HEAD", "POST"]);
+      expect(stored.url).toBe(`${endpoint}/upload2`);
+      expect(uploads.get("upload2")?.data.equals(FILE_BYTES)).toBe(true);
+      expect(uploadDirectoryFiles()).toEqual([]);
+    },
+  );
+
+  it("discards paused uploads on the server and on disk", async () => {
+    const adapter = createAdapter();
+    await expect(
+      adapter.upload(uploadRequest(), {
+        onProgress: (sent) => {
+          if (sent > 0) void adapter.pause("card_media_1");
+        },
+      }),
+    ).rejects.toMatchObject({ code: "canceled" });
+
+    await adapter.discard("card_media_1");
+
+    expect(uploads.has("upload1")).toBe(false);
+    expect(uploadDirectoryFiles()).toEqual([]);
+    expect(await adapter.getPendingUploads()).toEqual([]);
+  });
+
+  it("keeps only the most recent finished uploads", async () => {
+    const completed = Object.fromEntries(
+      Array.from({ length: 500 }, (_, i) => [
+        `old_${i}`,
+        {
+          url: `${endpoint}/old_${i}`,
+          filename: "clip.mp4",
+          completedAt: i + 1,
+        },
+      ]),
+    );
+    await MediaFileService.getDocumentDirectory("uploads");
+    fs.writeFileSync(storePath(), JSON.stringify({ sessions: {}, completed }));
+    const adapter = createAdapter();
+
+    await adapter.upload(uploadRequest());
+
+    await expect(adapter.getUrl("old_0")).rejects.toThrow(
+      "No finished upload for old_0",
+    );
+    expect(await adapter.getUrl("old_1")).toBe(`${endpoint}/old_1`);
+    expect(await adapter.getUrl("card_media_1")).toBe(`${endpoint}/upload1`);
+    const store = JSON.parse(fs.readFileSync(storePath(), "utf8"));
+    expect(Object.keys(store.completed)).toHaveLength(500);
+  });
+});
@@ -8,16 +8,65 @@ import type {
   CardMediaGenerationRequest,
   CardMediaGenerationResult,
   CardMediaCompressionOptions,
+  CardMediaDuplicate,
+  CardMediaDuplicateGroup,
+  CardMediaDuplicateOptions,
+  CardMediaPendingUpload,
+  CardMediaUploadOptions,
+  CardMediaUrlOptions,
   CardMediaValidation,
+  CardMediaVariant,
+  CardMediaVariantOptions,
   CardMediaUploadProgress,
   CardMultimediaFlashcard,
   CardMultimediaFlashcardService as ICardMultimediaFlashcardService,
   CardMediaType,
   CardMediaPosition,
 } from "../../domain/entities/CardMultimedia.types";
+import { MediaError, MediaErrorCode } from "../../domain/entities/MediaError";
+import { ImageFormat, MediaUtils } from "../../domain/entities/Media";
+import type {
+  MediaStorageAdapter,
+  ResumableMediaStorageAdapter,
+  StoredMedia,
+} from "../../domain/entities/MediaStorageAdapter.types";
+import { MimeRegistry } from "../../domain/entities/MimeRegistry";
+import {
+  PerceptualHash,
+  DEFAULT_DUPLICATE_THRESHOLD,
+} from "../../domain/utils/PerceptualHash";
+import { ImageFormatService } from "./ImageFormatService";
+import {
+  MediaCompressionService,
+  type MediaCompressionResult,
+} from "./MediaCompressionService";
+import { MediaFileService } from "./MediaFileService";
+import { MediaHashService } from "./MediaHashService";
+import { MediaMetadataService } from "./MediaMetadataService";
+import { MediaPlaceholderService } from "./MediaPlaceholderService";
+import { MediaProbeService } from "./MediaProbeService";
+import { MediaThumbnailService } from "./MediaThumbnailService";
+import { MediaVariantService, type ImageVariant } from "./MediaVariantService";
+import { MimeDetectionService } from "./MimeDetectionService";
+
+/**
+ * Image formats every card renderer can display
+ */
+const CARD_IMAGE_FORMATS = [
+  ImageFormat.JPEG,
+  ImageFormat.PNG,
+  ImageFormat.WEBP,
+  ImageFormat.GIF,
+];
+
+type ProcessedImage = Pick<MediaCompressionResult, "uri" | "mimeType"> & {
+  fileSize?: number;
+  format?: ImageFormat; // Set when re-encoded
+};
 
 export class CardMultimediaFlashcardService implements ICardMultimediaFlashcardService {
   private static instance: CardMultimediaFlashcardService;
+  private storage: MediaStorageAdapter | null = null;
 
   static getInstance(): CardMultimediaFlashcardService {
     if (!CardMultimediaFlashcardService.instance) {
@@ -27,36 +76,114 @@ export class CardMultimediaFlashcardService implements ICardMultimediaFlashcardS
     return CardMultimediaFlashcardService.instance;
   }
 
+  setStorageAdapter(adapter: MediaStorageAdapter): void {
+    this.storage = adapter;
+  }
+
   /**
-   * Upload media file with optional compression
+   * Get the installed storage adapter. There is no default backend,
+   * so this throws until one is set.
+   */
+  getStorageAdapter(): MediaStorageAdapter {
+    if (!this.storage) {
+      throw new MediaError(
+        MediaErrorCode.STORAGE_FAILED,
+        "No media storage adapter installed; call setStorageAdapter first",
+      );
+    }
+    return this.storage;
+  }
+
+  resetStorageAdapter(): void {
+    this.storage = null;
+  }
+
+  /**
+   * Upload media file with optional compression and metadata stripping.
+   * A near-identical image in `uploadOptions.existingMedia` is returned
+   * instead of uploading a copy.
    */
   async uploadMedia(
     file: any,
     options?: CardMediaCompressionOptions,
+    uploadOptions?: CardMediaUploadOptions,
   ): Promise<CardMediaAttachment> {
-    try {
-      // Simulate upload process
-      await new Promise((resolve) => setTimeout(resolve, 2000));
+    return this.upload(
+      `card_media_${Date.now()}`,
+      file,
+      options,
+      uploadOptions,
+    );
+  }
 
-      const attachment: CardMediaAttachment = {
-        id: `card_media_${Date.now()}`,
-        type: this.getMediaType(file.type),
-        position: "both" as CardMediaPosition,
-        url: `https://storage.example.com/media/${Date.now()}_${file.name}`,
-        filename: file.name,
-        fileSize: file.size || 100000,
-        mimeType: file.type,
-        duration: await this.getMediaDuration(file),
-        thumbnailUrl: this.generateThumbnail(file),
-        caption: "",
-        isDownloaded: true,
-        createdAt: new Date().toISOString(),
-      };
+  /**
+   * Stop a running upload after its current chunk. uploadMedia rejects
+   * with MediaErrorCode.CANCELED and the upload stays pending.
+   */
+  async pauseUpload(fileId: string): Promise<void> {
+    await this.getResumableStorage().pause(fileId);
+  }
 
-      return attachment;
+  /**
+   * Continue a paused or interrupted upload, also after an app restart.
+   * The stored file is already processed, so it is not stripped again.
+   */
+  async resumeUpload(
+    fileId: string,
+    uploadOptions?: CardMediaUploadOptions,
+  ): Promise<CardMediaAttachment> {
+    const sessions = await this.getResumableStorage().getPendingUploads();
+    const session = sessions.find(({ key }) => key === fileId);
+    if (!session) {
+      throw new MediaError(
+        MediaErrorCode.INVALID_FILE,
+        `No pending upload for ${fileId}`,
+      );
+    }
+    return this.upload(
+      fileId,
+      {
+        uri: session.uri,
+        name: session.filename,
+        type: session.mimeType,
+        size: session.size,
+      },
+      undefined,
+      { ...uploadOptions, stripMetadata: false },
+    );
+  }
+
+  /**
+   * Stop an upload and drop its partial data
+   */
+  async cancelUpload(fileId: string): Promise<void> {
+    try {
+      await this.getResumableStorage().discard(fileId);
     } catch (error) {
-      throw new Error(`Failed to upload media: ${error}`);
+      throw MediaError.from(
+        error,
+        MediaErrorCode.STORAGE_FAILED,
+        "Failed to cancel upload",
+      );
+    }
+  }
+
+  /**
+   * Unfinished uploads; empty unless the storage adapter is resumable
+   */
+  async getPendingUploads(): Promise<CardMediaPendingUpload[]> {
+    if (!this.storage || !this.isResumable(this.storage)) {
+      return [];
     }
+    const sessions = await this.storage.getPendingUploads();
+    return sessions.map((session) => ({
+      fileId: session.key,
+      filename: session.filename,
+      mimeType: session.mimeType,
+      fileSize: session.size,
+      uploadedBytes: session.offset,
+      updatedAt: new Date(session.updatedAt).toISOString(),
+    }));
   }
 
   /**
@@ -98,7 +225,7 @@ export class CardMultimediaFlashcardService implements ICardMultimediaFlashcardS
             url: `https://example.com/audio_${Date.now()}.mp3`,
             filename: `ai_generated_${Date.now()}.mp3`,
             fileSize: 80000, // 80KB
-            mimeType: "audio/mp3",
+            mimeType: "audio/mpeg",
             duration: 10, // 10 seconds
             isDownloaded: false,
             createdAt: new Date().toISOString(),
@@ -141,6 +268,10 @@ export class CardMultimediaFlashcardService implements ICardMultimediaFlashcardS
         creditsUsed: 0,
         processingTime: 0,
         error: error instanceof Error ? error.message : "Unknown error",
+        errorCode:
+          error instanceof MediaError
+            ? error.code
+            : MediaErrorCode.GENERATION_FAILED,
         requestId: "",
       };
     }
@@ -167,33 +298,57 @@ export class CardMultimediaFlashcardService implements ICardMultimediaFlashcardS
         recommendations.push("Consider compressing file");
       }
 
-      // File type validation
-      const supportedTypes = [
-        "image/jpeg",
-        "image/png",
-        "image/webp",
-        "audio/mp3",
-        "audio/wav",
-        "audio/m4a",
-        "video/mp4",
-        "video/mov",
-      ];
-
-      if (!supportedTypes.includes(file.type)) {
-        errors.push(`Unsupported file type: ${file.type}`);
+      // File type validation, trusting file content over the declared type
+      const supportedTypes = MimeRegistry.getMimeTypes();
+
+      const detected = file.uri
+        ? await MimeDetectionService.detect(file.uri, file.type)
+        : null;
+      const mimeType =
+        detected?.mimeType ?? MimeRegistry.normalize(file.type ?? "");
+
+      if (
+        detected?.source === "content" &&
+        file.type &&
+        !MimeRegistry.isSame(file.type, detected.mimeType!)
+      ) {
+        warnings.push(
+          `Declared type ${file.type} does not match file content (${detected.mimeType})`,
+        );
+      }
+
+      if (!supportedTypes.includes(mimeType)) {
+        errors.push(`Unsupported file type: ${mimeType || "unknown"}`);
       }
 
       // Media-specific validations
-      if (file.type.startsWith("image/")) {
+      if (mimeType.startsWith("image/")) {
+        const format = MediaUtils.getImageFormat(mimeType);
+        if (format && !CARD_IMAGE_FORMATS.includes(format)) {
+          warnings.push(`${mimeType} images are converted to JPEG on upload`);
+        }
         if (file.size > 5 * 1024 * 1024) {
           // 5MB for images
           warnings.push("Very large image may cause performance issues");
           recommendations.push("Consider resizing image to under 5MB");
         }
+
+        const dimensions = file.uri
+          ? await MediaProbeService.getDimensions(file.uri)
+          : undefined;
+        if (
+          dimensions &&
+          !MediaUtils.isValidDimensions(dimensions.width, dimensions.height)
+        ) {
+          warnings.push(
+            `Image dimensions (${dimensions.width}x${dimensions.height}) exceed the supported maximum`,
+          );
+          recommendations.push("Consider resizing image");
+        }
       }
 
-      if (file.type.startsWith("audio/") || file.type.startsWith("video/")) {
-        const duration = await this.getMediaDuration(file);
+      if (mimeType.startsWith("audio/") || mimeType.startsWith("video/")) {
+        const duration = await this.getMediaDuration(file, mimeType);
         if (duration && duration > 300) {
           // 5 minutes
           warnings.push("Long audio/video files may impact app performance");
@@ -219,60 +374,570 @@ export class CardMultimediaFlashcardService implements ICardMultimediaFlashcardS
 
   /**
    * Optimize media file
+   * Images are re-encoded to fit the options; other media is returned as-is.
+   * Throws FILE_TOO_LARGE when the image cannot fit maxFileSize.
    */
   async optimizeMedia(
     attachment: CardMediaAttachment,
     options: CardMediaCompressionOptions,
   ): Promise<CardMediaAttachment> {
+    if (attachment.type !== "image" || attachment.animation) {
+      return attachment;
+    }
+
+    const result = await this.compressImage(
+      attachment.localPath ?? attachment.url,
+      options,
+    );
+
     return {
       ...attachment,
-      fileSize: Math.floor(attachment.fileSize * options.quality),
-      url: `${attachment.url}?optimized=true`,
+      localPath: result.uri,
+      filename: MediaUtils.getFileNameForFormat(
+        attachment.filename,
+        result.format,
+      ),
+      fileSize: result.fileSize,
+      mimeType: result.mimeType,
+      isDownloaded: true,
     };
   }
 
   /**
-   * Delete media attachment
+   * Delete media attachment. Pass the attachment rather than its id to
+   * also delete its variants.
+   */
+  async deleteMedia(attachment: string | CardMediaAttachment): Promise<void> {
+    const storage = this.getStorageAdapter();
+    const attachmentId =
+      typeof attachment === "string" ? attachment : attachment.id;
+    await MediaThumbnailService.removeThumbnail(attachmentId);
+    const variants =
+      typeof attachment === "string" ? undefined : attachment.variants;
+    try {
+      await Promise.all([
+        storage.delete(attachmentId),
+        this.deleteVariants(attachmentId, variants ?? {}),
+      ]);
+    } catch (error) {
+      throw MediaError.from(
+        error,
+        MediaErrorCode.STORAGE_FAILED,
+        "Failed to delete media",
+      );
+    }
+  }
+
+  /**
+   * Group near-identical images across cards. Attachments without a
+   * perceptual hash are hashed from their local file when they have one;
+   * an attachment shared by several cards counts once.
    */
-  async deleteMedia(attachmentId: string): Promise<void> {
-    if (__DEV__) {
-      console.log(`[CardMultimediaService] Deleting media: ${attachmentId}`);
+  async findDuplicateMedia(
+    cards: CardMultimediaFlashcard[],
+    options?: CardMediaDuplicateOptions,
+  ): Promise<CardMediaDuplicateGroup[]> {
+    const threshold = options?.threshold ?? DEFAULT_DUPLICATE_THRESHOLD;
+    const entries: CardMediaDuplicate[] = cards.flatMap((card) =>
+      card.media
+        .filter((attachment) => attachment.type === "image")
+        .map((attachment) => ({ cardId: card.id, attachment })),
+    );
+
+    const hashes = new Map<string, string>();
+    for (const { attachment } of entries) {
+      if (hashes.has(attachment.id)) continue;
+      const hash =
+        attachment.perceptualHash ??
+        (await this.getPerceptualHash(attachment.localPath));
+      if (hash) {
+        hashes.set(attachment.id, hash);
+      }
+    }
+
+    // Union-find over attachment ids
+    const ids = [...hashes.keys()];
+    const parents = new Map(ids.map((id) => [id, id]));
+    const findRoot = (id: string): string => {
+      let root = id;
+      while (parents.get(root) !== root) {
+        root = parents.get(root)!;
+      }
+      parents.set(id, root);
+      return root;
+    };
+    for (let i = 0; i < ids.length; i++) {
+      for (let j = i + 1; j < ids.length; j++) {
+        if (
+          PerceptualHash.isSimilar(
+            hashes.get(ids[i])!,
+            hashes.get(ids[j])!,
+            threshold,
+          )
+        ) {
+          parents.set(findRoot(ids[j]), findRoot(ids[i]));
+        }
+      }
     }
+
+    const groups = new Map<string, CardMediaDuplicate[]>();
+    for (const entry of entries) {
+      if (!hashes.has(entry.attachment.id)) continue;
+      const root = findRoot(entry.attachment.id);
+      groups.set(root, [...(groups.get(root) ?? []), entry]);
+    }
+
+    const result: CardMediaDuplicateGroup[] = [];
+    for (const duplicates of groups.values()) {
+      const unique = new Map(
+        duplicates.map(({ attachment }) => [attachment.id, attachment]),
+      );
+      if (unique.size < 2) continue;
+      const redundant = [...unique.values()].slice(1);
+      result.push({
+        duplicates,
+        redundantSize: redundant.reduce((sum, a) => sum + a.fileSize, 0),
+      });
+    }
+    return result;
   }
 
   /**
-   * Get media URL
+   * Get media URL. For an attachment with a display width, the
+   * best-fitting variant is returned when it has any.
    */
-  async getMediaUrl(attachmentId: string): Promise<string> {
-    return `https://storage.example.com/media/${attachmentId}`;
+  async getMediaUrl(attachmentId: string): Promise<string>;
+  async getMediaUrl(
+    attachment: CardMediaAttachment,
+    options?: CardMediaUrlOptions,
+  ): Promise<string>;
+  async getMediaUrl(
+    attachment: string | CardMediaAttachment,
+    options?: CardMediaUrlOptions,
+  ): Promise<string> {
+    if (typeof attachment === "string") {
+      return this.getStorageAdapter().getUrl(attachment);
+    }
+    const variant =
+      options && attachment.variants
+        ? MediaVariantService.select(
+            Object.values(attachment.variants),
+            options.width,
+            options.dpr,
+            options.formats,
+          )
+        : undefined;
+    return variant?.url ?? attachment.url;
   }
 
   /**
    * Download media to local storage
    */
   async downloadMedia(attachmentId: string): Promise<string> {
-    return `/local/storage/${attachmentId}`;
+    try {
+      return await this.getStorageAdapter().download(attachmentId);
+    } catch (error) {
+      throw MediaError.from(
+        error,
+        MediaErrorCode.STORAGE_FAILED,
+        "Failed to download media",
+      );
+    }
+  }
+
+  /**
+   * Process, store and describe a file under attachment id `id`,
+   * reporting progress through `uploadOptions.onProgress`
+   */
+  private async upload(
+    id: string,
+    file: any,
+    options?: CardMediaCompressionOptions,
+    uploadOptions?: CardMediaUploadOptions,
+  ): Promise<CardMediaAttachment> {
+    let uploaded = 0;
+    const report = (progress: Omit<CardMediaUploadProgress, "fileId">) =>
+      uploadOptions?.onProgress?.({ fileId: id, ...progress });
+    try {
+      const storage = this.getStorageAdapter();
+      const mimeType = await this.resolveMimeType(file);
+      const type = this.getMediaType(mimeType);
+      const perceptualHash =
+        type === "image" ? await this.getPerceptualHash(file.uri) : undefined;
+      const duplicate =
+        perceptualHash && uploadOptions?.existingMedia
+          ? this.findClosestDuplicate(
+              perceptualHash,
+              uploadOptions.existingMedia,
+              uploadOptions.duplicateThreshold,
+            )
+          : undefined;
+      if (duplicate) {
+        report({ progress: 100, status: "completed", url: duplicate.url });
+        return duplicate;
+      }
+
+      const animation =
+        type === "image" && file.uri
+          ? await ImageFormatService.getAnimationInfo(file.uri, mimeType)
+          : null;
+      // Animated stickers are never re-encoded, to keep their frames.
+      // Re-encoded images carry no metadata, so only the rest is stripped.
+      let processed =
+        type === "image" && file.uri && !animation
+          ? await this.processImage(file.uri, mimeType, options)
+          : null;
+      if (!processed && uploadOptions?.stripMetadata && file.uri) {
+        processed = await this.stripMetadata(file.uri, mimeType);
+      }
+      const filename = processed?.format
+        ? MediaUtils.getFileNameForFormat(file.name, processed.format)
+        : file.name;
+
+      const localPath: string | undefined = processed?.uri ?? file.uri;
+      if (!localPath) {
+        throw new MediaError(
+          MediaErrorCode.INVALID_FILE,
+          "Media file has no URI to upload",
+        );
+      }
+
+      const resolvedMimeType = processed?.mimeType ?? mimeType;
+      const stored = await storage.upload(
+        {
+          key: id,
+          uri: localPath,
+          filename,
+          mimeType: resolvedMimeType,
+          fileSize: processed?.fileSize ?? file.size,
+        },
+        {
+          onProgress: (uploadedBytes, totalBytes) => {
+            uploaded =
+              totalBytes > 0
+                ? Math.round((uploadedBytes / totalBytes) * 100)
+                : 100;
+            report({
+              progress: uploaded,
+              status: "uploading",
+              uploadedBytes,
+              totalBytes,
+            });
+          },
+        },
+      );
+      report({ progress: 100, status: "processing" });
+      const thumbnailUrl = await this.generateThumbnail(id, type, localPath);
+      const variants =
+        type === "image" && !animation && uploadOptions?.variants
+          ? await this.generateVariants(
+              id,
+              localPath,
+              filename,
+              uploadOptions.variants,
+            )
+          : undefined;
+      const attachment: CardMediaAttachment = {
+        id,
+        type,
+        position: "both" as CardMediaPosition,
+        url: stored.url,
+        localPath,
+        filename,
+        fileSize: this.getStoredSize(stored, processed?.fileSize ?? file.size),
+        mimeType: resolvedMimeType,
+        duration: await this.getMediaDuration(file, mimeType),
+        thumbnailUrl,
+        thumbHash: thumbnailUrl
+          ? await this.createPlaceholder(thumbnailUrl)
+          : undefined,
+        animation: animation ?? undefined,
+        variants,
+        perceptualHash,
+        caption: "",
+        isDownloaded: true,
+        createdAt: new Date().toISOString(),
+      };
+
+      report({ progress: 100, status: "completed", url: attachment.url });
+      return attachment;
+    } catch (error) {
+      const mediaError = MediaError.from(
+        error,
+        MediaErrorCode.UPLOAD_FAILED,
+        "Failed to upload media",
+      );
+      report({
+        progress: uploaded,
+        status:
+          mediaError.code === MediaErrorCode.CANCELED ? "paused" : "error",
+        error: mediaError.message,
+        errorCode: mediaError.code,
+      });
+      throw mediaError;
+    }
   }
 
   private getMediaType(mimeType: string): CardMediaType {
-    if (mimeType.startsWith("image/")) return "image";
-    if (mimeType.startsWith("audio/")) return "audio";
-    if (mimeType.startsWith("video/")) return "video";
-    return "image"; // Default fallback
+    return MimeRegistry.getCategory(mimeType) ?? "image"; // Default fallback
+  }
+
+  /**
+   * Compress when options are given, otherwise convert formats cards
+   * cannot display (HEIC, AVIF) to JPEG. Returns null when untouched.
+   */
+  private async processImage(
+    uri: string,
+    mimeType: string,
+    options?: CardMediaCompressionOptions,
+  ): Promise<ProcessedImage | null> {
+    if (options) {
+      return this.compressImage(uri, options);
+    }
+
+    const format = MediaUtils.getImageFormat(mimeType);
+    if (
+      !ImageFormatService.requiresConversion(
+        { mimeType, format },
+        CARD_IMAGE_FORMATS,
+      )
+    ) {
+      return null;
+    }
+
+    const converted = await ImageFormatService.convertUri(uri);
+    return {
+      uri: converted.uri,
+      fileSize: converted.fileSize,
+      mimeType: MediaUtils.getImageMimeType(ImageFormat.JPEG),
+      format: ImageFormat.JPEG,
+    };
+  }
+
+  /**
+   * Compress to fit `options`; an image that cannot be brought under
+   * maxFileSize fails rather than being stored over budget
+   */
+  private async compressImage(
+    uri: string,
+    options: CardMediaCompressionOptions,
+  ): Promise<MediaCompressionResult> {
+    const result = await MediaCompressionService.compressImage(uri, options);
+    if (!result.withinBudget) {
+      await MediaFileService.deleteFile(result.uri);
+      throw new MediaError(
+        MediaErrorCode.FILE_TOO_LARGE,
+        `Image could not be compressed below ${this.formatFileSize(options.maxFileSize ?? 0)} (smallest ${this.formatFileSize(result.fileSize)})`,
+      );
+    }
+    return result;
+  }
+
+  private async stripMetadata(
+    uri: string,
+    mimeType: string,
+  ): Promise<ProcessedImage | null> {
+    const result = await MediaMetadataService.strip(uri, mimeType);
+    if (result.uri === uri) {
+      return null;
+    }
+    return {
+      uri: result.uri,
+      fileSize: result.fileSize,
+      mimeType: result.mimeType ?? mimeType,
+      format: result.reencoded ? ImageFormat.JPEG : undefined,
+    };
+  }
+
+  /**
+   * Sniff the real MIME type when the file has a URI
+   */
+  private async resolveMimeType(file: any): Promise<string> {
+    if (file.uri) {
+      const detected = await MimeDetectionService.detect(file.uri, file.type);
+      if (detected.mimeType) return detected.mimeType;
+    }
+    return file.type ? MimeRegistry.normalize(file.type) : "";
+  }
+
+  /**
+   * Duration in seconds, read from the file header
+   */
+  private async getMediaDuration(
+    file: any,
+    mimeType: string,
+  ): Promise<number | undefined> {
+    const category = MimeRegistry.getCategory(mimeType);
+    if (!file.uri || (category !== "audio" && category !== "video")) {
+      return undefined;
+    }
+    const duration = await MediaProbeService.getDuration(file.uri, mimeType);
+    return duration !== undefined ? duration / 1000 : undefined;
+  }
+
+  /**
+   * Saved poster frame or preview; a missing thumbnail never fails
+   * the upload
+   */
+  private async generateThumbnail(
+    attachmentId: string,
+    type: CardMediaType,
+    uri?: string,
+  ): Promise<string | undefined> {
+    if (!uri || type === "audio") {
+      return undefined;
+    }
+    try {
+      return await MediaThumbnailService.saveThumbnail(attachmentId, uri);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Resized copies keyed "<format>_<width>", each stored under
+   * "<id>_<format>_<width>"; like thumbnails, missing variants never
+   * fail the upload. A partial set is removed again.
+   */
+  private async generateVariants(
+    id: string,
+    uri: string,
+    filename: string,
+    options: CardMediaVariantOptions,
+  ): Promise<Record<string, CardMediaVariant> | undefined> {
+    let generated: ImageVariant[] = [];
+    const variants: Record<string, CardMediaVariant> = {};
+    try {
+      generated = await MediaVariantService.generate(uri, options);
+      for (const variant of generated) {
+        const name = MediaUtils.getFileNameForFormat(
+          filename,
+          variant.format,
+        ).replace(/\.(\w+)$/, `_${variant.width}w.$1`);
+        const key = `${variant.format}_${variant.width}`;
+        const mimeType = MediaUtils.getImageMimeType(variant.format);
+        const stored = await this.getStorageAdapter().upload({
+          key: this.getVariantKey(id, key),
+          uri: variant.uri,
+          filename: name,
+          mimeType,
+          fileSize: variant.fileSize,
+        });
+        variants[key] = {
+          url: stored.url,
+          localPath: variant.uri,
+          width: variant.width,
+          height: variant.height,
+          format: variant.format,
+          mimeType,
+          fileSize: this.getStoredSize(stored, variant.fileSize),
+        };
+      }
+      return variants;
+    } catch {
+      await this.deleteVariants(id, variants).catch(() => undefined);
+      await Promise.all(
+        generated.map((variant) => MediaFileService.deleteFile(variant.uri)),
+      );
+      return undefined;
+    }
+  }
+
+  /**
+   * Delete stored variants and their local copies
+   */
+  private async deleteVariants(
+    attachmentId: string,
+    variants: Record<string, CardMediaVariant>,
+  ): Promise<void> {
+    const storage = this.getStorageAdapter();
+    await Promise.all([
+      ...Object.keys(variants).map((key) =>
+        storage.delete(this.getVariantKey(attachmentId, key)),
+      ),
+      ...Object.values(variants)
+        .filter((variant) => variant.localPath)
+        .map((variant) => MediaFileService.deleteFile(variant.localPath!)),
+    ]);
+  }
+
+  /**
+   * Perceptual hash of a local image; undefined when it cannot be read
+   */
+  private async getPerceptualHash(uri?: string): Promise<string | undefined> {
+    if (!uri) {
+      return undefined;
+    }
+    try {
+      return await MediaHashService.getPerceptualHash(uri);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Closest hashed attachment within the threshold
+   */
+  private findClosestDuplicate(
+    hash: string,
+    candidates: CardMediaAttachment[],
+    threshold = DEFAULT_DUPLICATE_THRESHOLD,
+  ): CardMediaAttachment | undefined {
+    let closest: CardMediaAttachment | undefined;
+    let closestDistance = Infinity;
+
+    for (const candidate of candidates) {
+      if (
+        !candidate.perceptualHash ||
+        candidate.perceptualHash.length !== hash.length
+      ) {
+        continue;
+      }
+      const distance = PerceptualHash.distance(hash, candidate.perceptualHash);
+      if (distance <= threshold && distance < closestDistance) {
+        closest = candidate;
+        closestDistance = distance;
+      }
+    }
+    return closest;
   }
 
-  private async getMediaDuration(file: any): Promise<number | undefined> {
-    if (file.type.startsWith("audio/") || file.type.startsWith("video/")) {
-      return Math.floor(Math.random() * 60) + 10; // 10-70 seconds
+  /**
+   * Placeholder hashed from the small thumbnail rather than the original
+   */
+  private async createPlaceholder(
+    thumbnailUrl: string,
+  ): Promise<string | undefined> {
+    try {
+      return await MediaPlaceholderService.createHash(thumbnailUrl);
+    } catch {
+      return undefined;
     }
-    return undefined;
   }
 
-  private generateThumbnail(file: any): string | undefined {
-    if (file.type.startsWith("video/")) {
-      return `https://picsum.photos/200/150?random=${Date.now()}`;
+  private getResumableStorage(): ResumableMediaStorageAdapter {
+    const storage = this.getStorageAdapter();
+    if (!this.isResumable(storage)) {
+      throw new MediaError(
+        MediaErrorCode.STORAGE_FAILED,
+        "The media storage adapter does not support resumable uploads",
+      );
     }
-    return undefined;
+    return storage;
+  }
+
+  private isResumable(
+    storage: MediaStorageAdapter,
+  ): storage is ResumableMediaStorageAdapter {
+    return "getPendingUploads" in storage;
+  }
+
+  private getVariantKey(attachmentId: string, variantKey: string): string {
+    return `${attachmentId}_${variantKey}`;
+  }
+
+  private getStoredSize(stored: StoredMedia, localSize?: number): number {
+    return stored.size ?? localSize ?? 0;
   }
 
   private formatFileSize(bytes: number): string {
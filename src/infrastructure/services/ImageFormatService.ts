@@ -0,0 +1,152 @@
+/**
+ * Image Format Service
+ * Detects image formats and animations, converts formats apps cannot show
+ */
+
+import type {
+  ImageAnimationInfo,
+  ImageSaveOptions,
+  MediaAsset,
+  MediaQuality,
+} from "../../domain/entities/Media";
+import {
+  ImageFormat,
+  MediaType,
+  MediaUtils,
+  MEDIA_CONSTANTS,
+} from "../../domain/entities/Media";
+import { AnimatedImageParser } from "../../domain/utils/AnimatedImageParser";
+import { MediaFileService } from "./MediaFileService";
+import { MediaManipulationService } from "./MediaManipulationService";
+import { MimeDetectionService } from "./MimeDetectionService";
+
+/**
+ * Format details of an image file
+ */
+export interface ImageFormatInfo {
+  mimeType: string | null;
+  format?: ImageFormat;
+  animation?: ImageAnimationInfo;
+}
+
+const ANIMATABLE_FORMATS = [ImageFormat.GIF, ImageFormat.WEBP];
+
+/**
+ * Service for image format detection and conversion
+ */
+export class ImageFormatService {
+  /**
+   * Detect the format from file content, with animation metadata
+   * for GIF and WebP
+   */
+  static async inspect(
+    uri: string,
+    declaredMimeType?: string
+  ): Promise<ImageFormatInfo> {
+    const detected = await MimeDetectionService.detect(uri, declaredMimeType);
+    const format = detected.mimeType
+      ? MediaUtils.getImageFormat(detected.mimeType)
+      : undefined;
+    const animation = detected.mimeType
+      ? await ImageFormatService.getAnimationInfo(uri, detected.mimeType)
+      : null;
+
+    return {
+      mimeType: detected.mimeType,
+      format,
+      animation: animation ?? undefined,
+    };
+  }
+
+  /**
+   * Animation metadata, or null for still images and unreadable files.
+   * A known non-GIF / non-WebP `mimeType` skips reading the file.
+   * The file is read in small windows as the parser walks it, and only
+   * its first MAX_IMAGE_SIZE bytes are scanned.
+   */
+  static async getAnimationInfo(
+    uri: string,
+    mimeType?: string
+  ): Promise<ImageAnimationInfo | null> {
+    const format = mimeType ? MediaUtils.getImageFormat(mimeType) : undefined;
+    if (mimeType && (!format || !ANIMATABLE_FORMATS.includes(format))) {
+      return null;
+    }
+
+    try {
+      const fileSize = await MediaFileService.getFileSize(uri);
+      return await AnimatedImageParser.scan(
+        (position, length) => MediaFileService.readBytes(uri, position, length),
+        Math.min(
+          fileSize ?? MEDIA_CONSTANTS.MAX_IMAGE_SIZE,
+          MEDIA_CONSTANTS.MAX_IMAGE_SIZE
+        )
+      );
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Still images in a format outside `acceptedFormats` need converting.
+   * Animated images are never converted, that would drop the animation.
+   */
+  static requiresConversion(
+    info: ImageFormatInfo,
+    acceptedFormats?: ImageFormat[]
+  ): boolean {
+    return (
+      !!acceptedFormats &&
+      !!info.format &&
+      !info.animation &&
+      !acceptedFormats.includes(info.format)
+    );
+  }
+
+  /**
+   * Re-encode an image URI, e.g. HEIC to JPEG
+   */
+  static async convertUri(
+    uri: string,
+    format: ImageFormat = ImageFormat.JPEG,
+    options?: Omit<ImageSaveOptions, "format">
+  ): Promise<MediaAsset> {
+    return MediaManipulationService.manipulateUri(uri, [], {
+      ...options,
+      format,
+    });
+  }
+
+  /**
+   * Fill in the detected MIME type and animation of a picked image and
+   * convert it to JPEG, at the quality it was picked with, when its format
+   * is not accepted. The manipulator decodes upright, so a converted image
+   * needs no separate orientation pass.
+   */
+  static async prepareAsset(
+    asset: MediaAsset,
+    acceptedFormats?: ImageFormat[],
+    options?: { quality?: MediaQuality }
+  ): Promise<MediaAsset> {
+    if (asset.type !== MediaType.IMAGE) {
+      return asset;
+    }
+
+    const info = await ImageFormatService.inspect(asset.uri, asset.mimeType);
+    const inspected: MediaAsset = {
+      ...asset,
+      mimeType: info.mimeType ?? asset.mimeType,
+      animation: info.animation,
+    };
+
+    if (!ImageFormatService.requiresConversion(info, acceptedFormats)) {
+      return inspected;
+    }
+
+    return MediaManipulationService.manipulate(inspected, [], {
+      format: ImageFormat.JPEG,
+      quality: options?.quality,
+      base64: asset.base64 !== undefined,
+    });
+  }
+}
@@ -0,0 +1,230 @@
+/**
+ * Media Cache
+ * Size-bounded, least-recently-used file cache in the app cache directory,
+ * or an unbounded file store in the documents directory
+ */
+
+import { MediaFileService } from "./MediaFileService";
+
+export interface MediaCacheOptions {
+  /** Directory name under the app cache */
+  name: string;
+  maxSize: number; // bytes
+  /**
+   * Keep files under the app documents directory, which the OS never
+   * purges, instead of the cache
+   */
+  persistent?: boolean;
+}
+
+export interface MediaCacheEntry {
+  key: string;
+  uri: string;
+  size: number; // bytes
+  lastAccessed: number; // epoch ms
+}
+
+type MediaCacheIndex = Record<string, Omit<MediaCacheEntry, "key">>;
+
+/**
+ * Entry file names never contain dots, so they cannot clash with the index
+ */
+const INDEX_FILE = ".index.json";
+
+/**
+ * Cached files keyed by caller ids. The index is persisted next to the
+ * files; entries whose file was purged by the OS are dropped on access.
+ * Access times are kept in memory and written with the next put or
+ * eviction.
+ */
+export class MediaCache {
+  private readonly name: string;
+  private readonly persistent: boolean;
+  private maxSize: number;
+  private directory: string | null = null;
+  private index: MediaCacheIndex | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(options: MediaCacheOptions) {
+    this.name = options.name;
+    this.persistent = options.persistent ?? false;
+    this.maxSize = options.maxSize;
+  }
+
+  getMaxSize(): number {
+    return this.maxSize;
+  }
+
+  /**
+   * Change the size bound, evicting entries that no longer fit
+   */
+  async setMaxSize(maxSize: number): Promise<void> {
+    this.maxSize = maxSize;
+    await this.serialize(async () => {
+      const index = await this.load();
+      if (await this.evict(index)) {
+        await this.save(index);
+      }
+    });
+  }
+
+  /**
+   * Cached entry for `key`, marking it as recently used
+   */
+  async get(key: string): Promise<MediaCacheEntry | null> {
+    return this.serialize(async () => {
+      const index = await this.load();
+      const record = index[key];
+      if (!record) {
+        return null;
+      }
+
+      if ((await MediaFileService.getFileSize(record.uri)) === undefined) {
+        delete index[key];
+        await this.save(index);
+        return null;
+      }
+
+      record.lastAccessed = Date.now();
+      return { key, ...record };
+    });
+  }
+
+  /**
+   * Move a file into the cache under `key`, replacing any previous entry.
+   * Older entries are evicted until the cache fits its size bound.
+   */
+  async put(
+    key: string,
+    sourceUri: string,
+    extension: string
+  ): Promise<MediaCacheEntry> {
+    return this.serialize(async () => {
+      const index = await this.load();
+      const directory = await this.getDirectory();
+      const uri = `${directory}${MediaCache.toFileName(key)}.${extension}`;
+
+      const previous = index[key];
+      if (previous) {
+        delete index[key];
+        await MediaFileService.deleteFile(previous.uri);
+      }
+
+      await MediaFileService.moveFile(sourceUri, uri);
+      const record = {
+        uri,
+        size: (await MediaFileService.getFileSize(uri)) ?? 0,
+        lastAccessed: Date.now(),
+      };
+      index[key] = record;
+
+      await this.evict(index, key);
+      await this.save(index);
+      return { key, ...record };
+    });
+  }
+
+  async remove(key: string): Promise<void> {
+    await this.serialize(async () => {
+      const index = await this.load();
+      const record = index[key];
+      if (!record) {
+        return;
+      }
+      delete index[key];
+      await MediaFileService.deleteFile(record.uri);
+      await this.save(index);
+    });
+  }
+
+  async clear(): Promise<void> {
+    await this.serialize(async () => {
+      const index = await this.load();
+      for (const record of Object.values(index)) {
+        await MediaFileService.deleteFile(record.uri);
+      }
+      this.index = {};
+      await this.save(this.index);
+    });
+  }
+
+  /**
+   * Total size of cached files in bytes
+   */
+  async getSize(): Promise<number> {
+    return this.serialize(async () => MediaCache.totalSize(await this.load()));
+  }
+
+  /**
+   * Drop least recently used entries, never `keep`, until the total fits.
+   * Returns whether anything was evicted.
+   */
+  private async evict(index: MediaCacheIndex, keep?: string): Promise<boolean> {
+    let total = MediaCache.totalSize(index);
+    if (total <= this.maxSize) {
+      return false;
+    }
+
+    const candidates = Object.entries(index)
+      .filter(([key]) => key !== keep)
+      .sort(([, a], [, b]) => a.lastAccessed - b.lastAccessed);
+
+    for (const [key, record] of candidates) {
+      if (total <= this.maxSize) break;
+      delete index[key];
+      total -= record.size;
+      await MediaFileService.deleteFile(record.uri);
+    }
+    return true;
+  }
+
+  private async getDirectory(): Promise<string> {
+    if (!this.directory) {
+      this.directory = this.persistent
+        ? await MediaFileService.getDocumentDirectory(this.name)
+        : await MediaFileService.getCacheDirectory(this.name);
+    }
+    return this.directory;
+  }
+
+  private async load(): Promise<MediaCacheIndex> {
+    if (this.index) {
+      return this.index;
+    }
+
+    const directory = await this.getDirectory();
+    const text = await MediaFileService.readText(`${directory}${INDEX_FILE}`);
+    try {
+      this.index = text ? (JSON.parse(text) as MediaCacheIndex) : {};
+    } catch {
+      // Corrupt index: orphaned files are left for the OS to purge
+      this.index = {};
+    }
+    return this.index;
+  }
+
+  private async save(index: MediaCacheIndex): Promise<void> {
+    const directory = await this.getDirectory();
+    await MediaFileService.writeText(
+      `${directory}${INDEX_FILE}`,
+      JSON.stringify(index)
+    );
+  }
+
+  /**
+   * Run index reads and writes one at a time
+   */
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private static totalSize(index: MediaCacheIndex): number {
+    return Object.values(index).reduce((sum, record) => sum + record.size, 0);
+  }
+
+  private static toFileName(key: string): string {
+    return key.replace(/[^A-Za-z0-9_-]/g, "_");
+  }
+}
@@ -0,0 +1,309 @@
+/**
+ * Media Compression Service
+ * Downscales and re-encodes images until they fit a byte budget
+ */
+
+import type {
+  ImageDimensions,
+  ImageManipulationActions,
+  MediaAsset,
+  ScaledDimensions,
+} from "../../domain/entities/Media";
+import { ImageFormat, MediaUtils } from "../../domain/entities/Media";
+import type { CardMediaCompressionOptions } from "../../domain/entities/CardMultimedia.types";
+import { ExifOrientationUtils } from "../../domain/entities/MediaMetadata";
+import { MediaFileService } from "./MediaFileService";
+import { MediaManipulationService } from "./MediaManipulationService";
+import { MediaOrientationService } from "./MediaOrientationService";
+import { MediaProbeService } from "./MediaProbeService";
+
+/**
+ * Compression output
+ */
+export interface MediaCompressionResult {
+  uri: string;
+  width: number;
+  height: number;
+  fileSize: number;
+  format: ImageFormat;
+  mimeType: string;
+  quality: number;
+  /** False when even the smallest attempt exceeds maxFileSize */
+  withinBudget: boolean;
+}
+
+const MIN_QUALITY = 0.1;
+const QUALITY_SEARCH_STEPS = 6;
+const MAX_DOWNSCALE_ROUNDS = 4;
+const DOWNSCALE_FACTOR = 0.75;
+
+/**
+ * Service for budget-aware image compression
+ */
+export class MediaCompressionService {
+  /**
+   * Compress an image to honour maxWidth / maxHeight / maxFileSize / format.
+   * Quality is binary-searched between MIN_QUALITY and `options.quality`;
+   * when no quality fits, the image is downscaled and searched again.
+   * Without `dimensions`, the upright size is read from the file header.
+   */
+  static async compressImage(
+    uri: string,
+    options: CardMediaCompressionOptions,
+    dimensions?: ImageDimensions
+  ): Promise<MediaCompressionResult> {
+    const format = MediaCompressionService.mapFormat(options.format);
+    // toQuality also covers JS callers that leave quality out
+    const maxQuality = Math.max(
+      MediaUtils.toQuality(options.quality),
+      MIN_QUALITY
+    );
+    const source =
+      dimensions ?? (await MediaCompressionService.getDisplaySize(uri));
+
+    let target = MediaUtils.getScaledDimensions(
+      source.width,
+      source.height,
+      options.maxWidth ?? source.width,
+      options.maxHeight ?? source.height,
+      { fit: options.fit }
+    );
+    let smallest: EncodeAttempt | null = null;
+
+    for (let round = 0; round <= MAX_DOWNSCALE_ROUNDS; round++) {
+      const { fitted, smallest: candidate } =
+        await MediaCompressionService.fitAtSize(
+          uri,
+          source,
+          target,
+          format,
+          maxQuality,
+          options.maxFileSize
+        );
+
+      if (fitted) {
+        await MediaCompressionService.discard([smallest, candidate], [fitted]);
+        return MediaCompressionService.toResult(fitted, format, true);
+      }
+      const previous = smallest;
+      if (!smallest || candidate.image.fileSize < smallest.image.fileSize) {
+        smallest = candidate;
+      }
+      await MediaCompressionService.discard([previous, candidate], [smallest]);
+
+      target = MediaCompressionService.scaleTarget(target, DOWNSCALE_FACTOR);
+    }
+
+    return MediaCompressionService.toResult(smallest!, format, false);
+  }
+
+  /**
+   * Compress an image asset, returning a new asset
+   */
+  static async compressAsset(
+    asset: MediaAsset,
+    options: CardMediaCompressionOptions
+  ): Promise<MediaAsset & { fileSize: number }> {
+    const result = await MediaCompressionService.compressImage(
+      asset.uri,
+      options,
+      { width: asset.width, height: asset.height }
+    );
+    return {
+      ...asset,
+      uri: result.uri,
+      width: result.width,
+      height: result.height,
+      fileSize: result.fileSize,
+      mimeType: result.mimeType,
+      base64: undefined,
+    };
+  }
+
+  /**
+   * Upright size from the file header. Formats without a parsable
+   * header (HEIC, AVIF) are decoded once and the decode is deleted.
+   */
+  private static async getDisplaySize(uri: string): Promise<ImageDimensions> {
+    const stored = await MediaProbeService.getDimensions(uri);
+    if (stored) {
+      const orientation = await MediaOrientationService.getOrientation(uri);
+      return ExifOrientationUtils.getDisplayDimensions(stored, orientation);
+    }
+
+    const decoded = await MediaManipulationService.manipulateUri(uri, [], {
+      format: ImageFormat.JPEG,
+    });
+    await MediaFileService.deleteFile(decoded.uri);
+    return { width: decoded.width, height: decoded.height };
+  }
+
+  /**
+   * Find the highest quality that fits the budget at the given size.
+   * PNG ignores quality, so it is encoded once.
+   */
+  private static async fitAtSize(
+    uri: string,
+    source: ImageDimensions,
+    target: ScaledDimensions,
+    format: ImageFormat,
+    maxQuality: number,
+    maxFileSize?: number
+  ): Promise<{ fitted: EncodeAttempt | null; smallest: EncodeAttempt }> {
+    const first = await MediaCompressionService.encode(
+      uri,
+      source,
+      target,
+      format,
+      maxQuality
+    );
+
+    if (!maxFileSize || first.image.fileSize <= maxFileSize) {
+      return { fitted: first, smallest: first };
+    }
+    if (format === ImageFormat.PNG) {
+      return { fitted: null, smallest: first };
+    }
+
+    let low = MIN_QUALITY;
+    let high = maxQuality;
+    let fitted: EncodeAttempt | null = null;
+    let smallest = first;
+
+    for (let step = 0; step < QUALITY_SEARCH_STEPS; step++) {
+      const quality = Math.round(((low + high) / 2) * 100) / 100;
+      const attempt = await MediaCompressionService.encode(
+        uri,
+        source,
+        target,
+        format,
+        quality
+      );
+
+      const previous = [fitted, smallest];
+      if (attempt.image.fileSize < smallest.image.fileSize) {
+        smallest = attempt;
+      }
+      if (attempt.image.fileSize <= maxFileSize) {
+        fitted = attempt;
+        low = quality;
+      } else {
+        high = quality;
+      }
+      await MediaCompressionService.discard(
+        [attempt, ...previous],
+        [fitted, smallest]
+      );
+    }
+
+    return { fitted, smallest };
+  }
+
+  private static async encode(
+    uri: string,
+    source: ImageDimensions,
+    target: ScaledDimensions,
+    format: ImageFormat,
+    quality: number
+  ): Promise<EncodeAttempt> {
+    const actions: ImageManipulationActions[] = [];
+    if (target.width !== source.width || target.height !== source.height) {
+      actions.push({
+        resize: { width: target.width, height: target.height },
+      });
+    }
+    if (target.crop) {
+      actions.push({ crop: target.crop });
+    }
+
+    const asset = await MediaManipulationService.manipulateUri(uri, actions, {
+      format,
+      quality: MediaUtils.toQuality(quality),
+    });
+
+    return {
+      image: { ...asset, fileSize: asset.fileSize ?? Infinity },
+      quality,
+    };
+  }
+
+  /**
+   * Delete the files of attempts that are not kept
+   */
+  private static async discard(
+    attempts: (EncodeAttempt | null)[],
+    keep: (EncodeAttempt | null)[]
+  ): Promise<void> {
+    const unused = new Set(
+      attempts.filter(
+        (attempt): attempt is EncodeAttempt =>
+          attempt !== null && !keep.includes(attempt)
+      )
+    );
+    await Promise.all(
+      [...unused].map((attempt) =>
+        MediaFileService.deleteFile(attempt.image.uri)
+      )
+    );
+  }
+
+  /**
+   * Shrink a target, crop region included
+   */
+  private static scaleTarget(
+    target: ScaledDimensions,
+    factor: number
+  ): ScaledDimensions {
+    const scale = (value: number) => Math.max(1, Math.round(value * factor));
+    const scaled: ScaledDimensions = {
+      width: scale(target.width),
+      height: scale(target.height),
+    };
+    if (target.crop) {
+      const width = Math.min(scaled.width, scale(target.crop.width));
+      const height = Math.min(scaled.height, scale(target.crop.height));
+      scaled.crop = {
+        originX: Math.floor((scaled.width - width) / 2),
+        originY: Math.floor((scaled.height - height) / 2),
+        width,
+        height,
+      };
+    }
+    return scaled;
+  }
+
+  private static toResult(
+    attempt: EncodeAttempt,
+    format: ImageFormat,
+    withinBudget: boolean
+  ): MediaCompressionResult {
+    return {
+      uri: attempt.image.uri,
+      width: attempt.image.width,
+      height: attempt.image.height,
+      fileSize: attempt.image.fileSize,
+      format,
+      mimeType: MediaUtils.getImageMimeType(format),
+      quality: attempt.quality,
+      withinBudget,
+    };
+  }
+
+  private static mapFormat(
+    format?: CardMediaCompressionOptions["format"]
+  ): ImageFormat {
+    switch (format) {
+      case "png":
+        return ImageFormat.PNG;
+      case "webp":
+        return ImageFormat.WEBP;
+      default:
+        return ImageFormat.JPEG;
+    }
+  }
+}
+
+interface EncodeAttempt {
+  image: MediaAsset & { fileSize: number };
+  quality: number;
+}
@@ -0,0 +1,249 @@
+/**
+ * Media File Service
+ * Byte-level access to media files through a pluggable file system adapter
+ */
+
+import type {
+  FileUploadRequest,
+  FileUploadResponse,
+  MediaFileSystemAdapter,
+} from "../../domain/entities/MediaFileSystemAdapter.types";
+import { MediaError, MediaErrorCode } from "../../domain/entities/MediaError";
+import { ExpoFileSystemAdapter } from "../adapters/ExpoFileSystemAdapter";
+
+/**
+ * Service for reading media file bytes
+ */
+export class MediaFileService {
+  private static adapter: MediaFileSystemAdapter | null = null;
+
+  /**
+   * Install the adapter used for every file access
+   */
+  static setAdapter(adapter: MediaFileSystemAdapter): void {
+    MediaFileService.adapter = adapter;
+  }
+
+  /**
+   * Get the installed adapter, creating the expo adapter on first use
+   */
+  static getAdapter(): MediaFileSystemAdapter {
+    if (!MediaFileService.adapter) {
+      MediaFileService.adapter = new ExpoFileSystemAdapter();
+    }
+    return MediaFileService.adapter;
+  }
+
+  /**
+   * Restore the default expo-file-system adapter
+   */
+  static resetAdapter(): void {
+    MediaFileService.adapter = null;
+  }
+
+  static async readBytes(
+    uri: string,
+    position: number,
+    length: number
+  ): Promise<Uint8Array> {
+    try {
+      return await MediaFileService.getAdapter().readBytes(
+        uri,
+        position,
+        length
+      );
+    } catch (error) {
+      throw MediaError.from(
+        error,
+        MediaErrorCode.INVALID_FILE,
+        "Failed to read file"
+      );
+    }
+  }
+
+  /**
+   * Read the first bytes of a file
+   */
+  static async readHeader(uri: string, length: number): Promise<Uint8Array> {
+    return MediaFileService.readBytes(uri, 0, length);
+  }
+
+  /**
+   * Read a whole file of known size
+   */
+  static async readFile(uri: string): Promise<Uint8Array> {
+    const fileSize = await MediaFileService.getFileSize(uri);
+    if (fileSize === undefined) {
+      throw new MediaError(
+        MediaErrorCode.INVALID_FILE,
+        "Failed to read file: unknown size"
+      );
+    }
+    return MediaFileService.readBytes(uri, 0, fileSize);
+  }
+
+  /**
+   * Write bytes to a new cache file and return its URI
+   */
+  static async writeBytes(
+    bytes: Uint8Array,
+    extension: string
+  ): Promise<string> {
+    try {
+      return await MediaFileService.getAdapter().writeBytes(bytes, extension);
+    } catch (error) {
+      throw MediaError.from(
+        error,
+        MediaErrorCode.SAVE_FAILED,
+        "Failed to write file"
+      );
+    }
+  }
+
+  /**
+   * Download an http(s) URL to a new cache file and return its URI
+   */
+  static async downloadFile(
+    url: string,
+    extension: string,
+    headers?: Record<string, string>
+  ): Promise<string> {
+    try {
+      return await MediaFileService.getAdapter().downloadFile(
+        url,
+        extension,
+        headers
+      );
+    } catch (error) {
+      throw MediaError.from(
+        error,
+        MediaErrorCode.SAVE_FAILED,
+        "Failed to download file"
+      );
+    }
+  }
+
+  /**
+   * Stream a local file to a URL; any HTTP status resolves
+   */
+  static async uploadFile(
+    request: FileUploadRequest
+  ): Promise<FileUploadResponse> {
+    try {
+      return await MediaFileService.getAdapter().uploadFile(request);
+    } catch (error) {
+      throw MediaError.from(
+        error,
+        MediaErrorCode.UPLOAD_FAILED,
+        "Failed to upload file"
+      );
+    }
+  }
+
+  /**
+   * MD5 digest of a local file, undefined when it cannot be computed
+   */
+  static async getMd5(uri: string): Promise<string | undefined> {
+    try {
+      return await MediaFileService.getAdapter().getMd5(uri);
+    } catch {
+      return undefined;
+    }
+  }
+
+  static async getFileSize(uri: string): Promise<number | undefined> {
+    try {
+      return await MediaFileService.getAdapter().getFileSize(uri);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * URI of a named app cache directory, created when missing
+   */
+  static async getCacheDirectory(name: string): Promise<string> {
+    try {
+      return await MediaFileService.getAdapter().getCacheDirectory(name);
+    } catch (error) {
+      throw MediaError.from(
+        error,
+        MediaErrorCode.SAVE_FAILED,
+        "Failed to create cache directory"
+      );
+    }
+  }
+
+  /**
+   * URI of a named app documents directory, created when missing
+   */
+  static async getDocumentDirectory(name: string): Promise<string> {
+    try {
+      return await MediaFileService.getAdapter().getDocumentDirectory(name);
+    } catch (error) {
+      throw MediaError.from(
+        error,
+        MediaErrorCode.SAVE_FAILED,
+        "Failed to create documents directory"
+      );
+    }
+  }
+
+  static async moveFile(from: string, to: string): Promise<void> {
+    try {
+      await MediaFileService.getAdapter().moveFile(from, to);
+    } catch (error) {
+      throw MediaError.from(
+        error,
+        MediaErrorCode.SAVE_FAILED,
+        "Failed to move file"
+      );
+    }
+  }
+
+  static async copyFile(from: string, to: string): Promise<void> {
+    try {
+      await MediaFileService.getAdapter().copyFile(from, to);
+    } catch (error) {
+      throw MediaError.from(
+        error,
+        MediaErrorCode.SAVE_FAILED,
+        "Failed to copy file"
+      );
+    }
+  }
+
+  /**
+   * Delete a file, ignoring failures: callers only free space
+   */
+  static async deleteFile(uri: string): Promise<void> {
+    try {
+      await MediaFileService.getAdapter().deleteFile(uri);
+    } catch {
+      // Already gone or not ours to delete
+    }
+  }
+
+  /**
+   * Read a text file, null when it is missing or unreadable
+   */
+  static async readText(uri: string): Promise<string | null> {
+    try {
+      return await MediaFileService.getAdapter().readText(uri);
+    } catch {
+      return null;
+    }
+  }
+
+  static async writeText(uri: string, text: string): Promise<void> {
+    try {
+      await MediaFileService.getAdapter().writeText(uri, text);
+    } catch (error) {
+      throw MediaError.from(
+        error,
+        MediaErrorCode.SAVE_FAILED,
+        "Failed to write file"
+      );
+    }
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Media Hash Service
+ * Perceptual hashes of images, for finding the same picture saved twice
+ */
+
+import { ImageFormat } from "../../domain/entities/Media";
+import { MediaError, MediaErrorCode } from "../../domain/entities/MediaError";
+import {
+  PerceptualHash,
+  DHASH_HEIGHT,
+  DHASH_WIDTH,
+} from "../../domain/utils/PerceptualHash";
+import { PngCodec } from "../../domain/utils/PngCodec";
+import { MediaFileService } from "./MediaFileService";
+import { MediaManipulationService } from "./MediaManipulationService";
+
+/**
+ * Native resizers sample rather than average when shrinking this far,
+ * so they stop at 8x the grid and the hash averages the rest
+ */
+const HASH_PREVIEW_SCALE = 8;
+
+/**
+ * Service for perceptual image hashing
+ */
+export class MediaHashService {
+  /**
+   * dHash of an image as displayed (EXIF orientation applied)
+   */
+  static async getPerceptualHash(uri: string): Promise<string> {
+    const preview = await MediaManipulationService.manipulateUri(
+      uri,
+      [
+        {
+          resize: {
+            width: DHASH_WIDTH * HASH_PREVIEW_SCALE,
+            height: DHASH_HEIGHT * HASH_PREVIEW_SCALE,
+          },
+        },
+      ],
+      { format: ImageFormat.PNG }
+    );
+
+    try {
+      const image = PngCodec.decode(
+        await MediaFileService.readFile(preview.uri)
+      );
+      if (!image) {
+        throw new MediaError(
+          MediaErrorCode.INVALID_FILE,
+          "Unreadable hash preview"
+        );
+      }
+      return PerceptualHash.dHash(image);
+    } catch (error) {
+      throw MediaError.from(
+        error,
+        MediaErrorCode.INVALID_FILE,
+        "Failed to hash image"
+      );
+    } finally {
+      await MediaFileService.deleteFile(preview.uri);
+    }
+  }
+}
@@ -0,0 +1,187 @@
+/**
+ * Media Library Service
+ * Paginated browsing of the device gallery for in-app pickers
+ */
+
+import {
+  MediaLibraryPermission,
+  MediaType,
+  MEDIA_CONSTANTS,
+} from "../../domain/entities/Media";
+import type { MediaPermissionDetails } from "../../domain/entities/MediaPermission";
+import { MediaPermissionUtils } from "../../domain/entities/MediaPermission";
+import { MediaError, MediaErrorCode } from "../../domain/entities/MediaError";
+import type { MediaAsset } from "../../domain/entities/Media";
+import type {
+  MediaLibraryAdapter,
+  MediaLibraryChange,
+  MediaLibraryPage,
+  MediaLibraryQuery,
+} from "../../domain/entities/MediaLibraryAdapter.types";
+import { ExpoMediaLibraryAdapter } from "../adapters/ExpoMediaLibraryAdapter";
+
+/**
+ * Service for listing gallery assets
+ */
+export class MediaLibraryService {
+  private static adapter: MediaLibraryAdapter | null = null;
+
+  /**
+   * Install the adapter used to read the gallery
+   */
+  static setAdapter(adapter: MediaLibraryAdapter): void {
+    MediaLibraryService.adapter = adapter;
+  }
+
+  /**
+   * Get the installed adapter, creating the expo adapter on first use
+   */
+  static getAdapter(): MediaLibraryAdapter {
+    if (!MediaLibraryService.adapter) {
+      MediaLibraryService.adapter = new ExpoMediaLibraryAdapter();
+    }
+    return MediaLibraryService.adapter;
+  }
+
+  /**
+   * Restore the default expo-media-library adapter
+   */
+  static resetAdapter(): void {
+    MediaLibraryService.adapter = null;
+  }
+
+  static async requestPermission(): Promise<MediaPermissionDetails> {
+    try {
+      return await MediaLibraryService.getAdapter().requestPermission();
+    } catch {
+      return MediaPermissionUtils.fromStatus(MediaLibraryPermission.DENIED);
+    }
+  }
+
+  static async getPermission(): Promise<MediaPermissionDetails> {
+    try {
+      return await MediaLibraryService.getAdapter().getPermission();
+    } catch {
+      return MediaPermissionUtils.fromStatus(MediaLibraryPermission.DENIED);
+    }
+  }
+
+  /**
+   * One page of assets, newest first unless sorted otherwise.
+   * Pass the returned `endCursor` as `after` for the next page.
+   * Throws PERMISSION_DENIED until read access is granted.
+   */
+  static async getAssets(query?: MediaLibraryQuery): Promise<MediaLibraryPage> {
+    const permission = await MediaLibraryService.getPermission();
+    if (!permission.granted) {
+      throw new MediaError(
+        MediaErrorCode.PERMISSION_DENIED,
+        permission.blocked
+          ? "Media library permission is blocked, enable it in settings"
+          : "Media library permission denied"
+      );
+    }
+
+    const mediaType = query?.mediaType ?? MediaType.ALL;
+    try {
+      return await MediaLibraryService.getAdapter().getAssets({
+        first: Math.max(
+          1,
+          query?.pageSize ?? MEDIA_CONSTANTS.LIBRARY_PAGE_SIZE
+        ),
+        after: query?.after,
+        mediaTypes:
+          mediaType === MediaType.ALL
+            ? [MediaType.IMAGE, MediaType.VIDEO]
+            : [mediaType],
+        albumId: query?.albumId,
+        createdAfter: MediaLibraryService.toTime(query?.createdAfter),
+        createdBefore: MediaLibraryService.toTime(query?.createdBefore),
+        sortBy: query?.sortBy ?? "creationTime",
+        ascending: query?.ascending ?? false,
+      });
+    } catch (error) {
+      throw MediaError.from(
+        error,
+        MediaErrorCode.LIBRARY_FAILED,
+        "Failed to list media library"
+      );
+    }
+  }
+
+  /**
+   * Listen for gallery changes, including our own saves and deletions;
+   * returns the unsubscribe function
+   */
+  static addChangeListener(
+    listener: (change: MediaLibraryChange) => void
+  ): () => void {
+    return MediaLibraryService.getAdapter().addChangeListener(listener);
+  }
+
+  /**
+   * Bring a cached asset list up to date. Deletions are applied in
+   * place; null means assets were added or changed (or the change is
+   * not incremental) and the list has to be reloaded.
+   */
+  static applyChange(
+    assets: MediaAsset[],
+    change: MediaLibraryChange
+  ): MediaAsset[] | null {
+    if (
+      !change.incremental ||
+      change.insertedAssetIds.length > 0 ||
+      change.updatedAssetIds.length > 0
+    ) {
+      return null;
+    }
+    const deleted = new Set(change.deletedAssetIds);
+    return assets.filter(
+      (asset) => !asset.assetId || !deleted.has(asset.assetId)
+    );
+  }
+
+  /**
+   * One change equivalent to `first` followed by `second`, for applying
+   * a burst of notifications at once
+   */
+  static combineChanges(
+    first: MediaLibraryChange,
+    second: MediaLibraryChange
+  ): MediaLibraryChange {
+    if (!first.incremental || !second.incremental) {
+      return {
+        incremental: false,
+        insertedAssetIds: [],
+        deletedAssetIds: [],
+        updatedAssetIds: [],
+      };
+    }
+    const union = (a: string[], b: string[]) => [...new Set([...a, ...b])];
+    return {
+      incremental: true,
+      insertedAssetIds: union(first.insertedAssetIds, second.insertedAssetIds),
+      deletedAssetIds: union(first.deletedAssetIds, second.deletedAssetIds),
+      updatedAssetIds: union(first.updatedAssetIds, second.updatedAssetIds),
+    };
+  }
+
+  /**
+   * Put a freshly loaded first page in front of a cached list, replacing
+   * stale copies, so inserts show up without dropping later pages
+   */
+  static mergeFirstPage(
+    assets: MediaAsset[],
+    page: MediaLibraryPage
+  ): MediaAsset[] {
+    const fresh = new Set(page.assets.map((asset) => asset.assetId));
+    return [
+      ...page.assets,
+      ...assets.filter((asset) => !asset.assetId || !fresh.has(asset.assetId)),
+    ];
+  }
+
+  private static toTime(value?: Date | number): number | undefined {
+    return value instanceof Date ? value.getTime() : value;
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * Media Manipulation Service
+ * Applies ImageManipulationActions to images through a pluggable adapter
+ */
+
+import type {
+  ImageDimensions,
+  ImageManipulationActions,
+  ImageSaveOptions,
+  MediaAsset,
+} from "../../domain/entities/Media";
+import {
+  MediaType,
+  MediaUtils,
+  MEDIA_CONSTANTS,
+} from "../../domain/entities/Media";
+import type { ImageManipulatorAdapter } from "../../domain/entities/ImageManipulatorAdapter.types";
+import { MediaError, MediaErrorCode } from "../../domain/entities/MediaError";
+import { ExpoImageManipulatorAdapter } from "../adapters/ExpoImageManipulatorAdapter";
+
+/**
+ * Service for resizing, cropping, rotating and flipping images
+ */
+export class MediaManipulationService {
+  private static adapter: ImageManipulatorAdapter | null = null;
+
+  /**
+   * Install the adapter used for every manipulation
+   */
+  static setAdapter(adapter: ImageManipulatorAdapter): void {
+    MediaManipulationService.adapter = adapter;
+  }
+
+  /**
+   * Get the installed adapter, creating the expo adapter on first use
+   */
+  static getAdapter(): ImageManipulatorAdapter {
+    if (!MediaManipulationService.adapter) {
+      MediaManipulationService.adapter = new ExpoImageManipulatorAdapter();
+    }
+    return MediaManipulationService.adapter;
+  }
+
+  /**
+   * Restore the default expo-image-manipulator adapter
+   */
+  static resetAdapter(): void {
+    MediaManipulationService.adapter = null;
+  }
+
+  /**
+   * Apply actions in order to an image asset and return the new asset
+   */
+  static async manipulate(
+    asset: MediaAsset,
+    actions: ImageManipulationActions[],
+    options?: ImageSaveOptions
+  ): Promise<MediaAsset> {
+    if (asset.type !== MediaType.IMAGE) {
+      throw new MediaError(
+        MediaErrorCode.UNSUPPORTED_TYPE,
+        `Cannot manipulate ${asset.type} assets`
+      );
+    }
+
+    const format = options?.format ?? MEDIA_CONSTANTS.DEFAULT_FORMAT;
+    const result = await MediaManipulationService.manipulateUri(
+      asset.uri,
+      actions,
+      options
+    );
+
+    return {
+      ...asset,
+      ...result,
+      fileName: asset.fileName
+        ? MediaUtils.getFileNameForFormat(asset.fileName, format)
+        : undefined,
+    };
+  }
+
+  /**
+   * Apply actions in order to an image URI
+   */
+  static async manipulateUri(
+    uri: string,
+    actions: ImageManipulationActions[],
+    options?: ImageSaveOptions
+  ): Promise<MediaAsset> {
+    const saveOptions: Required<ImageSaveOptions> = {
+      quality: options?.quality ?? MEDIA_CONSTANTS.DEFAULT_QUALITY,
+      format: options?.format ?? MEDIA_CONSTANTS.DEFAULT_FORMAT,
+      base64: options?.base64 ?? false,
+    };
+
+    if (!MediaUtils.isEncodableFormat(saveOptions.format)) {
+      throw new MediaError(
+        MediaErrorCode.UNSUPPORTED_TYPE,
+        `Cannot save images as ${saveOptions.format}`
+      );
+    }
+
+    try {
+      const adapter = MediaManipulationService.getAdapter();
+      const image = await adapter.manipulate(
+        uri,
+        MediaManipulationService.expandActions(actions),
+        saveOptions
+      );
+      const fileSize = await adapter
+        .getFileSize(image.uri)
+        .catch(() => undefined);
+
+      return {
+        uri: image.uri,
+        width: image.width,
+        height: image.height,
+        type: MediaType.IMAGE,
+        fileSize,
+        base64: image.base64,
+        mimeType: MediaUtils.getImageMimeType(saveOptions.format),
+      };
+    } catch (error) {
+      throw MediaError.from(
+        error,
+        MediaErrorCode.MANIPULATION_FAILED,
+        "Failed to manipulate image"
+      );
+    }
+  }
+
+  /**
+   * Resize keeping the aspect ratio when only one side is given
+   */
+  static async resize(
+    asset: MediaAsset,
+    size: Partial<ImageDimensions>,
+    options?: ImageSaveOptions
+  ): Promise<MediaAsset> {
+    const aspectRatio = MediaUtils.calculateAspectRatio(
+      asset.width,
+      asset.height
+    );
+    const width =
+      size.width ?? Math.round((size.height ?? asset.height) * aspectRatio);
+    const height = size.height ?? Math.round(width / aspectRatio);
+    return MediaManipulationService.manipulate(
+      asset,
+      [{ resize: { width, height } }],
+      options
+    );
+  }
+
+  /**
+   * Split combined action objects into single-operation steps.
+   * Within one object the order is resize, crop, rotate, flip.
+   */
+  private static expandActions(
+    actions: ImageManipulationActions[]
+  ): ImageManipulationActions[] {
+    const steps: ImageManipulationActions[] = [];
+
+    for (const action of actions) {
+      if (action.resize) {
+        steps.push({ resize: action.resize });
+      }
+      if (action.crop) {
+        steps.push({ crop: action.crop });
+      }
+      if (action.rotate) {
+        steps.push({ rotate: action.rotate });
+      }
+      if (action.flip?.horizontal) {
+        steps.push({ flip: { horizontal: true } });
+      }
+      if (action.flip?.vertical) {
+        steps.push({ flip: { vertical: true } });
+      }
+    }
+
+    return steps;
+  }
+}
@@ -0,0 +1,186 @@
+/**
+ * Media Metadata Service
+ * Reads EXIF / XMP metadata and strips it before media leaves the device
+ */
+
+import type { MediaAsset } from "../../domain/entities/Media";
+import {
+  ImageFormat,
+  MediaType,
+  MediaUtils,
+  MEDIA_CONSTANTS,
+} from "../../domain/entities/Media";
+import type { MediaMetadata } from "../../domain/entities/MediaMetadata";
+import { MediaError, MediaErrorCode } from "../../domain/entities/MediaError";
+import { ExifReader } from "../../domain/utils/ExifReader";
+import { MetadataStripper } from "../../domain/utils/MetadataStripper";
+import { MediaFileService } from "./MediaFileService";
+import { MediaManipulationService } from "./MediaManipulationService";
+import { MimeDetectionService } from "./MimeDetectionService";
+
+/**
+ * Output of a metadata strip
+ */
+export interface MetadataStripResult {
+  uri: string;
+  mimeType: string | null;
+  fileSize?: number;
+  /** True when the image had to be re-encoded to JPEG (HEIC, AVIF ...) */
+  reencoded: boolean;
+  /** Set when re-encoding, which bakes the orientation into the pixels */
+  width?: number;
+  height?: number;
+}
+
+/**
+ * JPEG metadata lives in APP segments (64KB max each) before the image data
+ */
+const JPEG_METADATA_SCAN_LENGTH = 256 * 1024;
+
+/**
+ * Formats whose metadata is rewritten byte for byte
+ */
+const REWRITABLE_FORMATS = [
+  ImageFormat.JPEG,
+  ImageFormat.PNG,
+  ImageFormat.WEBP,
+];
+
+/**
+ * Service for image metadata
+ */
+export class MediaMetadataService {
+  /**
+   * Read capture date, orientation, camera and location.
+   * Returns null when the file has none or cannot be read.
+   */
+  static async read(uri: string): Promise<MediaMetadata | null> {
+    try {
+      const { mimeType } = await MimeDetectionService.detect(uri);
+      const format = mimeType ? MediaUtils.getImageFormat(mimeType) : undefined;
+      if (!format || !REWRITABLE_FORMATS.includes(format)) {
+        return null;
+      }
+
+      // PNG and WebP may store metadata after the image data
+      const bytes =
+        format === ImageFormat.JPEG
+          ? await MediaFileService.readHeader(uri, JPEG_METADATA_SCAN_LENGTH)
+          : await MediaMetadataService.readFile(uri);
+      return ExifReader.read(bytes);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Fill in `asset.metadata` for images
+   */
+  static async readAsset(asset: MediaAsset): Promise<MediaAsset> {
+    if (asset.type !== MediaType.IMAGE) {
+      return asset;
+    }
+    const metadata = await MediaMetadataService.read(asset.uri);
+    return { ...asset, metadata: metadata ?? undefined };
+  }
+
+  /**
+   * Write a copy of the image without location, device and author data.
+   * JPEG, PNG and WebP are rewritten losslessly keeping the orientation;
+   * other still formats are re-encoded to JPEG. GIFs and non-images carry
+   * no EXIF and are returned unchanged.
+   */
+  static async strip(
+    uri: string,
+    declaredMimeType?: string
+  ): Promise<MetadataStripResult> {
+    const { mimeType, category } = await MimeDetectionService.detect(
+      uri,
+      declaredMimeType
+    );
+    const format = mimeType ? MediaUtils.getImageFormat(mimeType) : undefined;
+
+    if (category !== "image" || format === ImageFormat.GIF) {
+      return { uri, mimeType, reencoded: false };
+    }
+
+    try {
+      // Rewriting needs the whole file, so its size must be known
+      const fileSize = await MediaFileService.getFileSize(uri);
+      if (format && REWRITABLE_FORMATS.includes(format) && fileSize) {
+        const bytes = await MediaFileService.readBytes(uri, 0, fileSize);
+        const stripped = MetadataStripper.strip(bytes);
+        if (stripped) {
+          const extension = MediaUtils.getExtension(uri) ?? format;
+          return {
+            uri: await MediaFileService.writeBytes(stripped, extension),
+            mimeType,
+            fileSize: stripped.length,
+            reencoded: false,
+          };
+        }
+      }
+
+      // The image manipulator never writes metadata
+      const reencoded = await MediaManipulationService.manipulateUri(uri, [], {
+        format: ImageFormat.JPEG,
+      });
+      return {
+        uri: reencoded.uri,
+        mimeType: reencoded.mimeType ?? null,
+        fileSize: reencoded.fileSize,
+        reencoded: true,
+        width: reencoded.width,
+        height: reencoded.height,
+      };
+    } catch (error) {
+      throw MediaError.from(
+        error,
+        MediaErrorCode.METADATA_FAILED,
+        "Failed to strip metadata"
+      );
+    }
+  }
+
+  /**
+   * Strip an image asset. Only the orientation survives in
+   * `asset.metadata`, and `base64` is dropped as it holds the original.
+   */
+  static async stripAsset(asset: MediaAsset): Promise<MediaAsset> {
+    if (asset.type !== MediaType.IMAGE) {
+      return asset;
+    }
+
+    const result = await MediaMetadataService.strip(asset.uri, asset.mimeType);
+    const orientation = result.reencoded
+      ? undefined
+      : asset.metadata?.orientation;
+
+    return {
+      ...asset,
+      uri: result.uri,
+      width: result.width ?? asset.width,
+      height: result.height ?? asset.height,
+      fileSize: result.fileSize ?? asset.fileSize,
+      mimeType: result.mimeType ?? asset.mimeType,
+      fileName:
+        result.reencoded && asset.fileName
+          ? MediaUtils.getFileNameForFormat(asset.fileName, ImageFormat.JPEG)
+          : asset.fileName,
+      base64: undefined,
+      metadata: orientation ? { orientation } : undefined,
+    };
+  }
+
+  /**
+   * Whole file, or its first MAX_IMAGE_SIZE bytes when the size is unknown
+   */
+  private static async readFile(uri: string): Promise<Uint8Array> {
+    const fileSize = await MediaFileService.getFileSize(uri);
+    return MediaFileService.readBytes(
+      uri,
+      0,
+      fileSize ?? MEDIA_CONSTANTS.MAX_IMAGE_SIZE
+    );
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * Media Orientation Service
+ * Bakes EXIF orientation into image pixels so dimensions match the display
+ */
+
+import type { MediaAsset, MediaQuality } from "../../domain/entities/Media";
+import {
+  ImageFormat,
+  MediaType,
+  MediaUtils,
+} from "../../domain/entities/Media";
+import {
+  ExifOrientation,
+  ExifOrientationUtils,
+} from "../../domain/entities/MediaMetadata";
+import {
+  ImageHeaderParser,
+  IMAGE_HEADER_SCAN_LENGTH,
+} from "../../domain/utils/ImageHeaderParser";
+import { MediaFileService } from "./MediaFileService";
+import { MediaManipulationService } from "./MediaManipulationService";
+import { MediaMetadataService } from "./MediaMetadataService";
+
+/**
+ * Service for EXIF orientation normalisation
+ */
+export class MediaOrientationService {
+  /**
+   * EXIF orientation of an image, NORMAL when it has none
+   */
+  static async getOrientation(uri: string): Promise<ExifOrientation> {
+    const metadata = await MediaMetadataService.read(uri);
+    return metadata?.orientation ?? ExifOrientation.NORMAL;
+  }
+
+  /**
+   * Re-encode a rotated / flipped image upright, in its own format when
+   * the manipulator can write it (JPEG otherwise), at the quality the
+   * asset was picked with. When re-encoding fails, only the reported
+   * dimensions are corrected.
+   * Animated images and non-images are returned unchanged.
+   */
+  static async normalizeAsset(
+    asset: MediaAsset,
+    options?: { quality?: MediaQuality }
+  ): Promise<MediaAsset> {
+    if (asset.type !== MediaType.IMAGE || asset.animation) {
+      return asset;
+    }
+
+    const orientation =
+      asset.metadata?.orientation ??
+      (await MediaOrientationService.getOrientation(asset.uri));
+    if (orientation === ExifOrientation.NORMAL) {
+      return asset;
+    }
+
+    const metadata = asset.metadata && {
+      ...asset.metadata,
+      orientation: ExifOrientation.NORMAL,
+    };
+
+    try {
+      const sourceFormat = asset.mimeType
+        ? MediaUtils.getImageFormat(asset.mimeType)
+        : undefined;
+      const format =
+        sourceFormat && MediaUtils.isEncodableFormat(sourceFormat)
+          ? sourceFormat
+          : ImageFormat.JPEG;
+
+      // The manipulator decodes upright, so no explicit rotation is needed
+      const upright = await MediaManipulationService.manipulate(asset, [], {
+        format,
+        quality: options?.quality,
+        base64: asset.base64 !== undefined,
+      });
+      return { ...upright, metadata };
+    } catch {
+      return MediaOrientationService.correctDimensions(asset, orientation);
+    }
+  }
+
+  /**
+   * Report upright dimensions without touching the pixels
+   */
+  private static async correctDimensions(
+    asset: MediaAsset,
+    orientation: ExifOrientation
+  ): Promise<MediaAsset> {
+    try {
+      const header = await MediaFileService.readHeader(
+        asset.uri,
+        IMAGE_HEADER_SCAN_LENGTH
+      );
+      const stored = ImageHeaderParser.readDimensions(header);
+      if (!stored) {
+        return asset;
+      }
+      return {
+        ...asset,
+        ...ExifOrientationUtils.getDisplayDimensions(stored, orientation),
+      };
+    } catch {
+      return asset;
+    }
+  }
+}
@@ -1,133 +1,235 @@
 /**
  * Media Domain - Media Picker Service
  *
- * Service for picking images/videos using expo-image-picker.
- * Handles camera, gallery, and media library permissions.
+ * Service for picking images/videos through a pluggable picker backend.
+ * Uses expo-image-picker unless another backend is installed.
  */
 
-import * as ImagePicker from "expo-image-picker";
 import type {
   MediaPickerOptions,
   MediaPickerResult,
   CameraOptions,
+  DocumentPickerOptions,
   MediaAsset,
+  ImageFormat,
+  MediaQuality,
 } from "../../domain/entities/Media";
 import {
   MediaLibraryPermission,
   MediaType,
   MEDIA_CONSTANTS,
+  MediaUtils,
 } from "../../domain/entities/Media";
+import type { MediaPermissionDetails } from "../../domain/entities/MediaPermission";
+import { MediaPermissionUtils } from "../../domain/entities/MediaPermission";
+import type { MediaAssetConstraints } from "../../domain/entities/MediaConstraints";
+import { MediaConstraintUtils } from "../../domain/entities/MediaConstraints";
+import { MediaError, MediaErrorCode } from "../../domain/entities/MediaError";
+import type {
+  MediaBackendResult,
+  MediaPickerBackend,
+} from "../../domain/entities/MediaPickerBackend.types";
+import type {
+  DocumentPickerAdapter,
+  PickedDocument,
+} from "../../domain/entities/DocumentPickerAdapter.types";
+import type { MediaManipulationOptions } from "../../domain/entities/ImageManipulatorAdapter.types";
+import { ExpoImagePickerBackend } from "../adapters/ExpoImagePickerBackend";
+import { ExpoDocumentPickerAdapter } from "../adapters/ExpoDocumentPickerAdapter";
+import { ImageFormatService } from "./ImageFormatService";
+import { MediaManipulationService } from "./MediaManipulationService";
+import { MediaMetadataService } from "./MediaMetadataService";
+import { MediaOrientationService } from "./MediaOrientationService";
+import { MediaPlaceholderService } from "./MediaPlaceholderService";
+import { MediaProbeService } from "./MediaProbeService";
 
 /**
  * Media picker service for selecting images/videos
  */
 export class MediaPickerService {
+  private static backend: MediaPickerBackend | null = null;
+  private static documentPicker: DocumentPickerAdapter | null = null;
+
+  /**
+   * Install the backend used by every picker call
+   */
+  static setBackend(backend: MediaPickerBackend): void {
+    MediaPickerService.backend = backend;
+  }
+
+  /**
+   * Get the installed backend, creating the expo backend on first use
+   */
+  static getBackend(): MediaPickerBackend {
+    if (!MediaPickerService.backend) {
+      MediaPickerService.backend = new ExpoImagePickerBackend();
+    }
+    return MediaPickerService.backend;
+  }
+
+  /**
+   * Restore the default expo-image-picker backend
+   */
+  static resetBackend(): void {
+    MediaPickerService.backend = null;
+  }
+
+  /**
+   * Install the adapter used by pickAudio / pickDocument
+   */
+  static setDocumentPickerAdapter(adapter: DocumentPickerAdapter): void {
+    MediaPickerService.documentPicker = adapter;
+  }
+
+  /**
+   * Get the installed document picker, creating the expo adapter on first use
+   */
+  static getDocumentPickerAdapter(): DocumentPickerAdapter {
+    if (!MediaPickerService.documentPicker) {
+      MediaPickerService.documentPicker = new ExpoDocumentPickerAdapter();
+    }
+    return MediaPickerService.documentPicker;
+  }
+
+  /**
+   * Restore the default expo-document-picker adapter
+   */
+  static resetDocumentPickerAdapter(): void {
+    MediaPickerService.documentPicker = null;
+  }
+
   static async requestCameraPermission(): Promise<MediaLibraryPermission> {
+    const details = await MediaPickerService.requestCameraPermissionDetails();
+    return details.status;
+  }
+
+  static async requestMediaLibraryPermission(): Promise<MediaLibraryPermission> {
+    const details =
+      await MediaPickerService.requestMediaLibraryPermissionDetails();
+    return details.status;
+  }
+
+  static async getCameraPermissionStatus(): Promise<MediaLibraryPermission> {
+    const details = await MediaPickerService.getCameraPermissionDetails();
+    return details.status;
+  }
+
+  static async getMediaLibraryPermissionStatus(): Promise<MediaLibraryPermission> {
+    const details = await MediaPickerService.getMediaLibraryPermissionDetails();
+    return details.status;
+  }
+
+  /**
+   * Request camera permission with canAskAgain / blocked information
+   */
+  static async requestCameraPermissionDetails(): Promise<MediaPermissionDetails> {
     try {
-      const { status } = await ImagePicker.requestCameraPermissionsAsync();
-      return MediaPickerService.mapPermissionStatus(status);
+      return await MediaPickerService.getBackend().requestCameraPermission();
     } catch {
-      return MediaLibraryPermission.DENIED;
+      return MediaPermissionUtils.fromStatus(MediaLibraryPermission.DENIED);
     }
   }
 
-  static async requestMediaLibraryPermission(): Promise<MediaLibraryPermission> {
+  /**
+   * Request media library permission, including limited access
+   */
+  static async requestMediaLibraryPermissionDetails(): Promise<MediaPermissionDetails> {
     try {
-      const { status } =
-        await ImagePicker.requestMediaLibraryPermissionsAsync();
-      return MediaPickerService.mapPermissionStatus(status);
+      return await MediaPickerService.getBackend().requestMediaLibraryPermission();
     } catch {
-      return MediaLibraryPermission.DENIED;
+      return MediaPermissionUtils.fromStatus(MediaLibraryPermission.DENIED);
     }
   }
 
-  static async getCameraPermissionStatus(): Promise<MediaLibraryPermission> {
+  static async getCameraPermissionDetails(): Promise<MediaPermissionDetails> {
     try {
-      const { status } = await ImagePicker.getCameraPermissionsAsync();
-      return MediaPickerService.mapPermissionStatus(status);
+      return await MediaPickerService.getBackend().getCameraPermission();
     } catch {
-      return MediaLibraryPermission.DENIED;
+      return MediaPermissionUtils.fromStatus(MediaLibraryPermission.DENIED);
     }
   }
 
-  static async getMediaLibraryPermissionStatus(): Promise<MediaLibraryPermission> {
+  static async getMediaLibraryPermissionDetails(): Promise<MediaPermissionDetails> {
     try {
-      const { status } = await ImagePicker.getMediaLibraryPermissionsAsync();
-      return MediaPickerService.mapPermissionStatus(status);
+      return await MediaPickerService.getBackend().getMediaLibraryPermission();
     } catch {
-      return MediaLibraryPermission.DENIED;
+      return MediaPermissionUtils.fromStatus(MediaLibraryPermission.DENIED);
     }
   }
 
   static async launchCamera(
     options?: CameraOptions
   ): Promise<MediaPickerResult> {
-    try {
-      const permission = await MediaPickerService.requestCameraPermission();
-      if (permission === MediaLibraryPermission.DENIED) {
-        return { canceled: true };
-      }
+    const permission =
+      await MediaPickerService.requestCameraPermissionDetails();
+    if (!permission.granted) {
+      return MediaPickerService.permissionDeniedResult(permission, "Camera");
+    }
 
-      const result = await ImagePicker.launchCameraAsync({
-        mediaTypes: ["images"],
+    try {
+      const result = await MediaPickerService.getBackend().launchCamera({
+        mediaTypes: MediaType.IMAGE,
         allowsEditing: options?.allowsEditing ?? false,
+        allowsMultipleSelection: false,
         aspect: options?.aspect,
         quality: options?.quality ?? MEDIA_CONSTANTS.DEFAULT_QUALITY,
         base64: options?.base64 ?? false,
       });
-
-      return MediaPickerService.mapPickerResult(result);
-    } catch {
-      return { canceled: true };
+      return await MediaPickerService.finalizeResult(result, options);
+    } catch (error) {
+      return MediaPickerService.errorResult(error, "Failed to launch camera");
     }
   }
 
   static async launchCameraForVideo(
     options?: CameraOptions
   ): Promise<MediaPickerResult> {
-    try {
-      const permission = await MediaPickerService.requestCameraPermission();
-      if (permission === MediaLibraryPermission.DENIED) {
-        return { canceled: true };
-      }
+    const permission =
+      await MediaPickerService.requestCameraPermissionDetails();
+    if (!permission.granted) {
+      return MediaPickerService.permissionDeniedResult(permission, "Camera");
+    }
 
-      const result = await ImagePicker.launchCameraAsync({
-        mediaTypes: ["videos"],
+    try {
+      const result = await MediaPickerService.getBackend().launchCamera({
+        mediaTypes: MediaType.VIDEO,
         allowsEditing: options?.allowsEditing ?? false,
+        allowsMultipleSelection: false,
         quality: options?.quality ?? MEDIA_CONSTANTS.DEFAULT_QUALITY,
+        base64: false,
         videoMaxDuration: options?.videoMaxDuration,
       });
-
-      return MediaPickerService.mapPickerResult(result);
-    } catch {
-      return { canceled: true };
+      return await MediaPickerService.finalizeResult(result, options);
+    } catch (error) {
+      return MediaPickerService.errorResult(error, "Failed to record video");
     }
   }
 
   static async pickImage(
     options?: MediaPickerOptions
   ): Promise<MediaPickerResult> {
+    const permission =
+      await MediaPickerService.requestMediaLibraryPermissionDetails();
+    if (!permission.granted) {
+      return MediaPickerService.permissionDeniedResult(
+        permission,
+        "Media library"
+      );
+    }
+
     try {
-      const permission =
-        await MediaPickerService.requestMediaLibraryPermission();
-      if (permission === MediaLibraryPermission.DENIED) {
-        return { canceled: true };
-      }
-
-      const result = await ImagePicker.launchImageLibraryAsync({
-        mediaTypes: MediaPickerService.mapMediaType(options?.mediaTypes),
+      const result = await MediaPickerService.getBackend().launchLibrary({
+        mediaTypes: options?.mediaTypes ?? MediaType.IMAGE,
         allowsEditing: options?.allowsEditing ?? false,
         allowsMultipleSelection: options?.allowsMultipleSelection ?? false,
         aspect: options?.aspect,
         quality: options?.quality ?? MEDIA_CONSTANTS.DEFAULT_QUALITY,
-        selectionLimit:
-          options?.selectionLimit ?? MEDIA_CONSTANTS.DEFAULT_SELECTION_LIMIT,
+        selectionLimit: MediaPickerService.getSelectionLimit(options),
         base64: options?.base64 ?? false,
       });
-
-      return MediaPickerService.mapPickerResult(result);
-    } catch {
-      return { canceled: true };
+      return await MediaPickerService.finalizeResult(result, options);
+    } catch (error) {
+      return MediaPickerService.errorResult(error, "Failed to pick media");
     }
   }
 
@@ -167,58 +269,217 @@ export class MediaPickerService {
     });
   }
 
-  private static mapPermissionStatus(
-    status: ImagePicker.PermissionStatus
-  ): MediaLibraryPermission {
-    switch (status) {
-      case ImagePicker.PermissionStatus.GRANTED:
-        return MediaLibraryPermission.GRANTED;
-      case ImagePicker.PermissionStatus.DENIED:
-        return MediaLibraryPermission.DENIED;
-      case ImagePicker.PermissionStatus.UNDETERMINED:
-        return MediaLibraryPermission.DENIED;
-      default:
-        return MediaLibraryPermission.DENIED;
+  /**
+   * Pick audio files (e.g. pronunciation recordings)
+   */
+  static async pickAudio(
+    options?: DocumentPickerOptions
+  ): Promise<MediaPickerResult> {
+    return MediaPickerService.pickDocument({
+      ...options,
+      mimeTypes: options?.mimeTypes ?? ["audio/*"],
+    });
+  }
+
+  /**
+   * Pick arbitrary files through the document picker adapter
+   */
+  static async pickDocument(
+    options?: DocumentPickerOptions
+  ): Promise<MediaPickerResult> {
+    try {
+      const adapter = MediaPickerService.getDocumentPickerAdapter();
+      const result = await adapter.pickDocuments({
+        mimeTypes: options?.mimeTypes ?? ["*/*"],
+        multiple: options?.allowsMultipleSelection ?? false,
+        copyToCacheDirectory: options?.copyToCacheDirectory ?? true,
+      });
+
+      const assets =
+        result.canceled || !result.documents
+          ? undefined
+          : await Promise.all(
+              result.documents.map((document) =>
+                MediaPickerService.mapDocument(document, adapter)
+              )
+            );
+
+      return await MediaPickerService.finalizeResult(
+        { canceled: result.canceled, assets },
+        options
+      );
+    } catch (error) {
+      return MediaPickerService.errorResult(error, "Failed to pick file");
     }
   }
 
-  private static mapMediaType(
-    type?: MediaType
-  ): ImagePicker.MediaType[] {
-    switch (type) {
-      case MediaType.IMAGE:
-        return ["images"];
-      case MediaType.VIDEO:
-        return ["videos"];
-      case MediaType.ALL:
-        return ["images", "videos"];
-      default:
-        return ["images"];
+  private static async mapDocument(
+    document: PickedDocument,
+    adapter: DocumentPickerAdapter
+  ): Promise<MediaAsset> {
+    const type = document.mimeType
+      ? MediaUtils.parseMediaType(document.mimeType)
+      : MediaType.ALL;
+
+    const isTimed = type === MediaType.AUDIO || type === MediaType.VIDEO;
+    const duration =
+      isTimed && adapter.getDuration
+        ? await adapter.getDuration(document.uri).catch(() => undefined)
+        : undefined;
+    // Fall back to header probing when the adapter cannot tell
+    const probed =
+      (isTimed && duration === undefined) || type === MediaType.IMAGE
+        ? await MediaProbeService.probe(document.uri, document.mimeType)
+        : undefined;
+
+    return {
+      uri: document.uri,
+      width: probed?.width ?? 0,
+      height: probed?.height ?? 0,
+      type,
+      fileSize: document.size,
+      fileName: document.name,
+      duration: duration ?? probed?.duration,
+      mimeType: document.mimeType,
+    };
+  }
+
+  private static getSelectionLimit(options?: MediaPickerOptions): number {
+    const limit =
+      options?.selectionLimit ?? MEDIA_CONSTANTS.DEFAULT_SELECTION_LIMIT;
+    const maxCount = options?.constraints?.maxCount;
+    return maxCount !== undefined && maxCount > 0
+      ? Math.min(limit, maxCount)
+      : limit;
+  }
+
+  /**
+   * Post-process backend assets: format detection and conversion,
+   * metadata and orientation, then manipulation and placeholders,
+   * then constraints
+   */
+  private static async finalizeResult(
+    result: MediaBackendResult,
+    options?: {
+      constraints?: MediaAssetConstraints;
+      manipulation?: MediaManipulationOptions;
+      imageFormats?: ImageFormat[];
+      quality?: MediaQuality;
+      normalizeOrientation?: boolean;
+      includeMetadata?: boolean;
+      stripMetadata?: boolean;
+      includePlaceholder?: boolean;
     }
+  ): Promise<MediaPickerResult> {
+    if (result.canceled || !result.assets || result.assets.length === 0) {
+      return { status: "canceled", canceled: true };
+    }
+
+    const quality = options?.quality ?? MEDIA_CONSTANTS.DEFAULT_QUALITY;
+    const prepared = await Promise.all(
+      result.assets.map(async (asset) => {
+        let processed = await ImageFormatService.prepareAsset(
+          asset,
+          options?.imageFormats,
+          { quality }
+        );
+        // A converted image was re-encoded upright already
+        const converted = processed.uri !== asset.uri;
+        if (options?.includeMetadata) {
+          processed = await MediaMetadataService.readAsset(processed);
+        }
+        if ((options?.normalizeOrientation ?? true) && !converted) {
+          processed = await MediaOrientationService.normalizeAsset(processed, {
+            quality,
+          });
+        }
+        if (options?.stripMetadata) {
+          processed = await MediaMetadataService.stripAsset(processed);
+        }
+        return processed;
+      })
+    );
+
+    const manipulation = options?.manipulation;
+    const manipulated = manipulation
+      ? await Promise.all(
+          prepared.map((asset) =>
+            // Animated images are left alone, manipulating would flatten them
+            asset.type === MediaType.IMAGE && !asset.animation
+              ? MediaManipulationService.manipulate(
+                  asset,
+                  manipulation.actions,
+                  manipulation.save
+                )
+              : asset
+          )
+        )
+      : prepared;
+
+    // Hashed last so placeholders match the final pixels
+    const assets = options?.includePlaceholder
+      ? await Promise.all(manipulated.map(MediaPlaceholderService.hashAsset))
+      : manipulated;
+
+    const constraints = options?.constraints;
+    if (!constraints) {
+      return { status: "success", canceled: false, assets };
+    }
+
+    const { accepted, rejected } = MediaConstraintUtils.apply(
+      assets,
+      constraints
+    );
+
+    if (
+      accepted.length === 0 ||
+      (constraints.mode === "reject" && rejected.length > 0)
+    ) {
+      return {
+        status: "error",
+        canceled: true,
+        error: new MediaError(
+          MediaErrorCode.CONSTRAINT_VIOLATION,
+          rejected[0]?.reasons[0]?.message ??
+            "Picked media does not meet the constraints"
+        ),
+        rejected,
+      };
+    }
+
+    return {
+      status: "success",
+      canceled: false,
+      assets: accepted,
+      rejected: rejected.length > 0 ? rejected : undefined,
+    };
   }
 
-  private static mapPickerResult(
-    result: ImagePicker.ImagePickerResult
+  private static permissionDeniedResult(
+    permission: MediaPermissionDetails,
+    source: string
   ): MediaPickerResult {
-    if (result.canceled) {
-      return { canceled: true };
-    }
-
-    const assets: MediaAsset[] = result.assets.map((asset) => ({
-      uri: asset.uri,
-      width: asset.width,
-      height: asset.height,
-      type: asset.type === "video" ? MediaType.VIDEO : MediaType.IMAGE,
-      fileSize: asset.fileSize,
-      fileName: asset.fileName ?? undefined,
-      duration: asset.duration ?? undefined,
-      base64: asset.base64 ?? undefined,
-      mimeType: asset.mimeType ?? undefined,
-    }));
+    return {
+      status: "permission_denied",
+      canceled: true,
+      permission,
+      error: new MediaError(
+        MediaErrorCode.PERMISSION_DENIED,
+        permission.blocked
+          ? `${source} permission is blocked, enable it in settings`
+          : `${source} permission denied`
+      ),
+    };
+  }
 
+  private static errorResult(
+    error: unknown,
+    message: string
+  ): MediaPickerResult {
     return {
-      canceled: false,
-      assets,
+      status: "error",
+      canceled: true,
+      error: MediaError.from(error, MediaErrorCode.PICKER_FAILED, message),
     };
   }
 }
@@ -0,0 +1,105 @@
+/**
+ * Media Placeholder Service
+ * ThumbHash placeholders painted while the full image loads
+ */
+
+import type { MediaAsset } from "../../domain/entities/Media";
+import { ImageFormat, MediaType } from "../../domain/entities/Media";
+import { MediaError, MediaErrorCode } from "../../domain/entities/MediaError";
+import { Base64 } from "../../domain/utils/Base64";
+import { PngCodec, type RgbaImage } from "../../domain/utils/PngCodec";
+import {
+  ThumbHash,
+  THUMBHASH_MAX_DIMENSION,
+} from "../../domain/utils/ThumbHash";
+import { MediaFileService } from "./MediaFileService";
+import { MediaThumbnailService } from "./MediaThumbnailService";
+
+/**
+ * Service for encoding and decoding placeholder hashes.
+ * Hashes are base64 ThumbHashes of about 35 characters.
+ */
+export class MediaPlaceholderService {
+  /**
+   * Hash of an image, or of a video's poster frame
+   */
+  static async createHash(uri: string, mimeType?: string): Promise<string> {
+    // A tiny PNG is the only pixel data readable without native code
+    const preview = await MediaThumbnailService.generate(uri, {
+      maxDimension: THUMBHASH_MAX_DIMENSION,
+      format: ImageFormat.PNG,
+      mimeType,
+    });
+
+    try {
+      const image = PngCodec.decode(
+        await MediaFileService.readFile(preview.uri)
+      );
+      if (!image) {
+        throw new MediaError(
+          MediaErrorCode.THUMBNAIL_FAILED,
+          "Unreadable placeholder preview"
+        );
+      }
+      return Base64.encode(ThumbHash.encode(image));
+    } catch (error) {
+      throw MediaError.from(
+        error,
+        MediaErrorCode.THUMBNAIL_FAILED,
+        "Failed to create placeholder"
+      );
+    } finally {
+      await MediaFileService.deleteFile(preview.uri);
+    }
+  }
+
+  /**
+   * Set `thumbHash` on image and video assets.
+   * Assets are returned unchanged when hashing fails.
+   */
+  static async hashAsset(asset: MediaAsset): Promise<MediaAsset> {
+    if (asset.type !== MediaType.IMAGE && asset.type !== MediaType.VIDEO) {
+      return asset;
+    }
+    try {
+      const thumbHash = await MediaPlaceholderService.createHash(
+        asset.uri,
+        asset.mimeType
+      );
+      return { ...asset, thumbHash };
+    } catch {
+      return asset;
+    }
+  }
+
+  /**
+   * Placeholder pixels, at most 32 pixels on the longest side
+   */
+  static decode(hash: string): RgbaImage {
+    return ThumbHash.decode(Base64.decode(hash));
+  }
+
+  /**
+   * Placeholder as a PNG data URL, usable as an image source
+   */
+  static toDataUrl(hash: string): string {
+    const png = PngCodec.encode(MediaPlaceholderService.decode(hash));
+    return `data:image/png;base64,${Base64.encode(png)}`;
+  }
+
+  /**
+   * Average color as a CSS rgba() string, for solid backgrounds
+   */
+  static getAverageColor(hash: string): string {
+    const { r, g, b, a } = ThumbHash.getAverageColor(Base64.decode(hash));
+    const channel = (value: number) => Math.round(value * 255);
+    return `rgba(${channel(r)}, ${channel(g)}, ${channel(b)}, ${Math.round(a * 100) / 100})`;
+  }
+
+  /**
+   * Approximate width / height of the original image
+   */
+  static getAspectRatio(hash: string): number {
+    return ThumbHash.getAspectRatio(Base64.decode(hash));
+  }
+}
@@ -0,0 +1,188 @@
+/**
+ * Media Probe Service
+ * Reads durations and pixel dimensions from file headers
+ */
+
+import type { ImageDimensions } from "../../domain/entities/Media";
+import type { MimeCategory } from "../../domain/entities/MimeRegistry";
+import {
+  ImageHeaderParser,
+  IMAGE_HEADER_SCAN_LENGTH,
+} from "../../domain/utils/ImageHeaderParser";
+import {
+  MediaDurationParser,
+  MPEG_FRAME_SCAN_LENGTH,
+} from "../../domain/utils/MediaDurationParser";
+import { MediaFileService } from "./MediaFileService";
+import { MimeDetectionService } from "./MimeDetectionService";
+
+export interface MediaProbeResult {
+  mimeType: string | null;
+  category?: MimeCategory;
+  duration?: number; // milliseconds, audio / video
+  width?: number; // pixels as stored, images
+  height?: number;
+}
+
+const ISO_BMFF_TYPES = [
+  "video/mp4",
+  "video/quicktime",
+  "video/3gpp",
+  "audio/mp4",
+];
+
+/**
+ * WAV fmt and data headers follow any LIST / metadata chunks
+ */
+const WAV_HEADER_SCAN_LENGTH = 64 * 1024;
+
+/**
+ * The mvhd box is the first child of moov
+ */
+const MOOV_SCAN_LENGTH = 64 * 1024;
+
+/**
+ * Guards against walking corrupt files box by box forever
+ */
+const MAX_TOP_LEVEL_BOXES = 64;
+
+/**
+ * Service for header-based media probing
+ */
+export class MediaProbeService {
+  /**
+   * Detect the MIME type and read the duration or dimensions it has
+   */
+  static async probe(
+    uri: string,
+    declaredMimeType?: string
+  ): Promise<MediaProbeResult> {
+    const { mimeType, category } = await MimeDetectionService.detect(
+      uri,
+      declaredMimeType
+    );
+
+    if (category === "image") {
+      const dimensions = await MediaProbeService.getDimensions(uri);
+      return { mimeType, category, ...dimensions };
+    }
+    if (mimeType && (category === "audio" || category === "video")) {
+      const duration = await MediaProbeService.getDuration(uri, mimeType);
+      return { mimeType, category, duration };
+    }
+    return { mimeType, category };
+  }
+
+  /**
+   * Duration in milliseconds, undefined when the format is not supported
+   * or the header cannot be read
+   */
+  static async getDuration(
+    uri: string,
+    mimeType?: string
+  ): Promise<number | undefined> {
+    const type =
+      mimeType ?? (await MimeDetectionService.detect(uri)).mimeType ?? "";
+
+    try {
+      if (ISO_BMFF_TYPES.includes(type)) {
+        return await MediaProbeService.getIsoBmffDuration(uri);
+      }
+      if (type === "audio/wav") {
+        const header = await MediaFileService.readHeader(
+          uri,
+          WAV_HEADER_SCAN_LENGTH
+        );
+        const fileSize = await MediaFileService.getFileSize(uri);
+        return MediaDurationParser.parseWav(header, fileSize) ?? undefined;
+      }
+      if (type === "audio/mpeg") {
+        return await MediaProbeService.getMp3Duration(uri);
+      }
+    } catch {
+      // Unreadable header
+    }
+    return undefined;
+  }
+
+  /**
+   * Stored pixel dimensions of a JPEG, PNG, GIF or WebP image
+   */
+  static async getDimensions(
+    uri: string
+  ): Promise<ImageDimensions | undefined> {
+    try {
+      const header = await MediaFileService.readHeader(
+        uri,
+        IMAGE_HEADER_SCAN_LENGTH
+      );
+      return ImageHeaderParser.readDimensions(header) ?? undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Walk top-level boxes to moov, which may sit after the media data
+   */
+  private static async getIsoBmffDuration(
+    uri: string
+  ): Promise<number | undefined> {
+    const fileSize = await MediaFileService.getFileSize(uri);
+    let offset = 0;
+
+    for (let i = 0; i < MAX_TOP_LEVEL_BOXES; i++) {
+      const header = await MediaFileService.readBytes(uri, offset, 16);
+      const box = MediaDurationParser.readBoxHeader(header);
+      if (!box) {
+        return undefined;
+      }
+
+      if (box.type === "moov") {
+        const length =
+          box.size === 0
+            ? MOOV_SCAN_LENGTH
+            : Math.min(box.size - box.headerSize, MOOV_SCAN_LENGTH);
+        const moov = await MediaFileService.readBytes(
+          uri,
+          offset + box.headerSize,
+          length
+        );
+        return MediaDurationParser.parseMoov(moov) ?? undefined;
+      }
+
+      if (box.size < box.headerSize) {
+        return undefined;
+      }
+      offset += box.size;
+      if (fileSize !== undefined && offset >= fileSize) {
+        return undefined;
+      }
+    }
+
+    return undefined;
+  }
+
+  private static async getMp3Duration(
+    uri: string
+  ): Promise<number | undefined> {
+    const id3Header = await MediaFileService.readHeader(uri, 10);
+    const audioStart = MediaDurationParser.getId3Size(id3Header);
+    const bytes = await MediaFileService.readBytes(
+      uri,
+      audioStart,
+      MPEG_FRAME_SCAN_LENGTH
+    );
+    const frame = MediaDurationParser.findMpegFrame(bytes);
+    if (!frame) {
+      return undefined;
+    }
+
+    const fileSize = await MediaFileService.getFileSize(uri);
+    if (!frame.frameCount && fileSize === undefined) {
+      return undefined;
+    }
+    const audioSize = (fileSize ?? 0) - audioStart - frame.offset;
+    return MediaDurationParser.parseMpegAudio(frame, audioSize);
+  }
+}
@@ -4,16 +4,92 @@
  */
 
 import * as MediaLibrary from "expo-media-library";
-import { MediaType, MediaLibraryPermission } from "../../domain/entities/Media";
+import type { MediaAlbum } from "../../domain/entities/Media";
+import {
+  MediaType,
+  MediaLibraryPermission,
+  MediaUtils,
+} from "../../domain/entities/Media";
+import type { MediaPermissionDetails } from "../../domain/entities/MediaPermission";
+import { MediaPermissionUtils } from "../../domain/entities/MediaPermission";
+import { MediaError, MediaErrorCode } from "../../domain/entities/MediaError";
+import { MimeRegistry } from "../../domain/entities/MimeRegistry";
+import type { MediaManipulationOptions } from "../../domain/entities/ImageManipulatorAdapter.types";
+import { Base64 } from "../../domain/utils/Base64";
+import { MediaFileService } from "./MediaFileService";
+import { MediaManipulationService } from "./MediaManipulationService";
+import { MediaMetadataService } from "./MediaMetadataService";
+import { MimeDetectionService } from "./MimeDetectionService";
 
 export interface SaveResult {
   success: boolean;
+  /** Also set on ALBUM_FAILED, when the asset was saved outside the album */
   assetId?: string;
   error?: string;
+  code?: MediaErrorCode;
+  cause?: unknown;
+  permission?: MediaPermissionDetails;
+}
+
+export interface DeleteResult {
+  success: boolean;
+  deletedIds: string[];
+  error?: string;
+  code?: MediaErrorCode;
+  cause?: unknown;
+  permission?: MediaPermissionDetails;
 }
 
 export interface SaveOptions {
   album?: string;
+  /** Image pipeline applied before saving (ignored for non-image files) */
+  manipulation?: MediaManipulationOptions;
+  /** Remove location and device identifiers from images, keeping orientation */
+  stripMetadata?: boolean;
+  /** Request headers for http(s) sources */
+  headers?: Record<string, string>;
+  /** Byte size the source must have */
+  expectedSize?: number;
+  /** Hex MD5 digest the source must have */
+  expectedMd5?: string;
+}
+
+/**
+ * Progress of a batch save, reported after each item
+ */
+export interface SaveProgress {
+  completed: number;
+  total: number;
+  failed: number;
+  uri: string;
+  result: SaveResult;
+}
+
+export interface SaveManyOptions extends SaveOptions {
+  mediaType?: MediaType;
+  /** Items saved at once, default 3 */
+  concurrency?: number;
+  onProgress?: (progress: SaveProgress) => void;
+  /** Items not yet started when aborted resolve as canceled */
+  signal?: AbortSignal;
+}
+
+export interface AlbumListOptions {
+  /** iOS smart albums such as Favorites and Recents */
+  includeSmartAlbums?: boolean;
+}
+
+const DEFAULT_SAVE_CONCURRENCY = 3;
+
+const REMOTE_URI = /^https?:\/\//i;
+const DATA_URI = /^data:([^;,]*)((?:;[^;,]*)*),/i;
+
+/**
+ * A source resolved to a local file; temporary files are ours to delete
+ */
+interface LocalSource {
+  uri: string;
+  temporary: boolean;
 }
 
 /**
@@ -24,23 +100,39 @@ export class MediaSaveService {
    * Request media library write permission
    */
   static async requestPermission(): Promise<MediaLibraryPermission> {
+    const details = await MediaSaveService.requestPermissionDetails();
+    return details.status;
+  }
+
+  /**
+   * Get current permission status
+   */
+  static async getPermissionStatus(): Promise<MediaLibraryPermission> {
+    const details = await MediaSaveService.getPermissionDetails();
+    return details.status;
+  }
+
+  /**
+   * Request permission with canAskAgain, access privileges and expiry
+   */
+  static async requestPermissionDetails(): Promise<MediaPermissionDetails> {
     try {
-      const { status } = await MediaLibrary.requestPermissionsAsync();
-      return MediaSaveService.mapPermissionStatus(status);
+      const response = await MediaLibrary.requestPermissionsAsync();
+      return MediaPermissionUtils.fromNativeResponse(response);
     } catch {
-      return MediaLibraryPermission.DENIED;
+      return MediaPermissionUtils.fromStatus(MediaLibraryPermission.DENIED);
     }
   }
 
   /**
-   * Get current permission status
+   * Get current permission with canAskAgain, access privileges and expiry
    */
-  static async getPermissionStatus(): Promise<MediaLibraryPermission> {
+  static async getPermissionDetails(): Promise<MediaPermissionDetails> {
     try {
-      const { status } = await MediaLibrary.getPermissionsAsync();
-      return MediaSaveService.mapPermissionStatus(status);
+      const response = await MediaLibrary.getPermissionsAsync();
+      return MediaPermissionUtils.fromNativeResponse(response);
     } catch {
-      return MediaLibraryPermission.DENIED;
+      return MediaPermissionUtils.fromStatus(MediaLibraryPermission.DENIED);
     }
   }
 
@@ -65,29 +157,174 @@ export class MediaSaveService {
   }
 
   /**
-   * Save media (image or video) to gallery
+   * Save base64 data of the given MIME type, e.g. from a generator API
+   */
+  static async saveBase64(
+    base64: string,
+    mimeType: string,
+    options?: SaveOptions
+  ): Promise<SaveResult> {
+    const category = MimeRegistry.getCategory(mimeType);
+    return MediaSaveService.saveToGallery(
+      `data:${mimeType};base64,${base64}`,
+      category === "image"
+        ? MediaType.IMAGE
+        : category === "video"
+          ? MediaType.VIDEO
+          : MediaType.ALL,
+      options
+    );
+  }
+
+  /**
+   * Save media (image or video) to gallery.
+   * Local files, http(s) URLs and base64 `data:` URIs are accepted;
+   * downloaded and decoded copies are deleted afterwards.
    */
   static async saveToGallery(
     uri: string,
     mediaType: MediaType = MediaType.ALL,
     options?: SaveOptions
   ): Promise<SaveResult> {
-    try {
-      const permission = await MediaSaveService.requestPermission();
+    const permission = await MediaSaveService.requestPermissionDetails();
+    if (!permission.granted) {
+      return MediaSaveService.permissionDenied(permission);
+    }
+
+    return MediaSaveService.saveAsset(
+      uri,
+      mediaType,
+      options,
+      MediaSaveService.placeInAlbum
+    );
+  }
+
+  /**
+   * Save several files after a single permission check. Results are in
+   * input order; one failed item never stops the others.
+   */
+  static async saveMany(
+    uris: string[],
+    options?: SaveManyOptions
+  ): Promise<SaveResult[]> {
+    if (uris.length === 0) {
+      return [];
+    }
 
-      if (permission === MediaLibraryPermission.DENIED) {
-        return {
+    const permission = await MediaSaveService.requestPermissionDetails();
+    if (!permission.granted) {
+      return uris.map(() => MediaSaveService.permissionDenied(permission));
+    }
+
+    // The first saved item finds or creates the album, the rest join it.
+    // When that fails, the next waiting item tries again with its asset.
+    let album: Promise<MediaLibrary.Album> | null = null;
+    const addToAlbum = async (name: string, asset: MediaLibrary.Asset) => {
+      for (;;) {
+        const current = album;
+        if (!current) {
+          const placing = MediaSaveService.placeInAlbum(name, asset);
+          album = placing;
+          try {
+            await placing;
+          } catch (error) {
+            if (album === placing) album = null;
+            throw error;
+          }
+          return;
+        }
+        const existing = await current.catch(() => null);
+        if (existing) {
+          await MediaLibrary.addAssetsToAlbumAsync([asset], existing, false);
+          return;
+        }
+        if (album === current) album = null;
+      }
+    };
+
+    const results: SaveResult[] = new Array(uris.length);
+    let next = 0;
+    let completed = 0;
+    let failed = 0;
+
+    const worker = async () => {
+      while (next < uris.length && !options?.signal?.aborted) {
+        const index = next++;
+        const result = await MediaSaveService.saveAsset(
+          uris[index],
+          options?.mediaType ?? MediaType.ALL,
+          options,
+          addToAlbum
+        );
+        results[index] = result;
+        completed++;
+        if (!result.success) failed++;
+        options?.onProgress?.({
+          completed,
+          total: uris.length,
+          failed,
+          uri: uris[index],
+          result,
+        });
+      }
+    };
+
+    const concurrency = Math.max(
+      1,
+      Math.min(options?.concurrency ?? DEFAULT_SAVE_CONCURRENCY, uris.length)
+    );
+    await Promise.all(Array.from({ length: concurrency }, worker));
+
+    for (let i = 0; i < results.length; i++) {
+      if (!results[i]) {
+        results[i] = {
           success: false,
-          error: "Permission denied to save media",
+          error: "Save canceled",
+          code: MediaErrorCode.CANCELED,
         };
       }
+    }
+    return results;
+  }
 
-      const asset = await MediaLibrary.createAssetAsync(uri);
+  /**
+   * Save one file once permission is granted
+   */
+  private static async saveAsset(
+    uri: string,
+    mediaType: MediaType,
+    options: SaveOptions | undefined,
+    addToAlbum: (name: string, asset: MediaLibrary.Asset) => Promise<unknown>
+  ): Promise<SaveResult> {
+    let local: LocalSource | null = null;
+    let source: { uri: string } | null = null;
+    try {
+      local = await MediaSaveService.resolveSource(uri, options);
+      await MediaSaveService.verifySource(local.uri, options);
+
+      source = await MediaSaveService.prepareSource(
+        local.uri,
+        mediaType,
+        options
+      );
+
+      const asset = await MediaLibrary.createAssetAsync(
+        source?.uri ?? local.uri
+      );
 
       if (options?.album) {
-        const album = await MediaSaveService.getOrCreateAlbum(options.album);
-        if (album) {
-          await MediaLibrary.addAssetsToAlbumAsync([asset], album, false);
+        try {
+          await addToAlbum(options.album, asset);
+        } catch (error) {
+          const message =
+            error instanceof Error ? error.message : "Unknown error";
+          return {
+            success: false,
+            assetId: asset.id,
+            error: `Saved, but failed to add to album: ${message}`,
+            code: MediaErrorCode.ALBUM_FAILED,
+            cause: error,
+          };
         }
       }
 
@@ -100,55 +337,350 @@ export class MediaSaveService {
       return {
         success: false,
         error: `Failed to save media: ${message}`,
+        code:
+          error instanceof MediaError ? error.code : MediaErrorCode.SAVE_FAILED,
+        cause: error,
       };
+    } finally {
+      // Re-encoded and stripped copies are ours, like downloads
+      if (source && source.uri !== local?.uri) {
+        await MediaFileService.deleteFile(source.uri);
+      }
+      if (local?.temporary) {
+        await MediaFileService.deleteFile(local.uri);
+      }
     }
   }
 
   /**
-   * Get or create album
+   * Download remote URLs and decode data: URIs into temporary files
+   * named with the extension the gallery expects
    */
-  private static async getOrCreateAlbum(
-    albumName: string
-  ): Promise<MediaLibrary.Album | null> {
+  private static async resolveSource(
+    uri: string,
+    options?: SaveOptions
+  ): Promise<LocalSource> {
+    const data = DATA_URI.exec(uri);
+    if (data) {
+      const mimeType = MimeRegistry.normalize(data[1]);
+      const extension = MimeRegistry.getExtension(mimeType);
+      if (!/;base64$/i.test(data[2])) {
+        throw new MediaError(
+          MediaErrorCode.UNSUPPORTED_TYPE,
+          "Only base64 data URIs can be saved"
+        );
+      }
+      if (!extension) {
+        throw new MediaError(
+          MediaErrorCode.UNSUPPORTED_TYPE,
+          `Cannot save ${mimeType || "untyped"} data`
+        );
+      }
+      const bytes = Base64.decode(uri.slice(data[0].length));
+      if (bytes.length === 0) {
+        throw new MediaError(MediaErrorCode.INVALID_FILE, "Empty data URI");
+      }
+      return {
+        uri: await MediaFileService.writeBytes(bytes, extension),
+        temporary: true,
+      };
+    }
+
+    if (!REMOTE_URI.test(uri)) {
+      return { uri, temporary: false };
+    }
+
+    const declared = MediaUtils.getMimeTypeFromUri(uri);
+    const downloaded = await MediaFileService.downloadFile(
+      uri,
+      (declared && MimeRegistry.getExtension(declared)) ?? "tmp",
+      options?.headers
+    );
     try {
-      const albums = await MediaLibrary.getAlbumsAsync();
-      const existingAlbum = albums.find((album) => album.title === albumName);
+      return {
+        uri: await MediaSaveService.renameToContent(downloaded),
+        temporary: true,
+      };
+    } catch (error) {
+      await MediaFileService.deleteFile(downloaded);
+      throw error;
+    }
+  }
+
+  /**
+   * URLs such as `/image?id=1` say nothing about the file type, so the
+   * extension follows the downloaded content
+   */
+  private static async renameToContent(uri: string): Promise<string> {
+    const { mimeType, source } = await MimeDetectionService.detect(uri);
+    const extension = mimeType ? MimeRegistry.getExtension(mimeType) : null;
+    if (!extension) {
+      throw new MediaError(
+        MediaErrorCode.UNSUPPORTED_TYPE,
+        "Downloaded file is not a known media type"
+      );
+    }
+    if (source === "extension" || MediaUtils.getExtension(uri) === extension) {
+      return uri;
+    }
+
+    const renamed = uri.replace(/\.[^./]*$/, `.${extension}`);
+    await MediaFileService.moveFile(uri, renamed);
+    return renamed;
+  }
 
-      if (existingAlbum) {
-        return existingAlbum;
+  /**
+   * Check the expected size and MD5 digest, when given
+   */
+  private static async verifySource(
+    uri: string,
+    options?: SaveOptions
+  ): Promise<void> {
+    if (options?.expectedSize !== undefined) {
+      const size = await MediaFileService.getFileSize(uri);
+      if (size !== options.expectedSize) {
+        throw new MediaError(
+          MediaErrorCode.INVALID_FILE,
+          `Source is ${size ?? "an unknown number of"} bytes, expected ${options.expectedSize}`
+        );
       }
+    }
 
-      const asset = await MediaLibrary.getAssetsAsync({ first: 1 });
-      if (asset.assets.length > 0) {
-        const newAlbum = await MediaLibrary.createAlbumAsync(
-          albumName,
-          asset.assets[0],
-          false
+    if (options?.expectedMd5) {
+      const md5 = await MediaFileService.getMd5(uri);
+      if (md5 !== options.expectedMd5.toLowerCase()) {
+        throw new MediaError(
+          MediaErrorCode.INVALID_FILE,
+          md5 ? "Source checksum does not match" : "Cannot checksum source"
         );
-        return newAlbum;
       }
+    }
+  }
+
+  private static permissionDenied(
+    permission: MediaPermissionDetails
+  ): SaveResult {
+    return {
+      success: false,
+      error: "Permission denied to save media",
+      code: MediaErrorCode.PERMISSION_DENIED,
+      permission,
+    };
+  }
 
+  /**
+   * Apply the image pipeline. Manipulated images are re-encoded and
+   * carry no metadata, so stripping is only needed without manipulation.
+   * Sources that are not images (mixed `saveMany` batches) are left as is.
+   */
+  private static async prepareSource(
+    uri: string,
+    mediaType: MediaType,
+    options?: SaveOptions
+  ): Promise<{ uri: string } | null> {
+    if (!options?.manipulation && !options?.stripMetadata) {
       return null;
-    } catch {
+    }
+    if (!(await MediaSaveService.isImage(uri, mediaType))) {
       return null;
     }
+    if (options.manipulation) {
+      return MediaManipulationService.manipulateUri(
+        uri,
+        options.manipulation.actions,
+        options.manipulation.save
+      );
+    }
+    return MediaMetadataService.strip(uri);
+  }
+
+  /**
+   * Whether a source is an image; with MediaType.ALL the file content
+   * decides, falling back to its extension
+   */
+  private static async isImage(
+    uri: string,
+    mediaType: MediaType
+  ): Promise<boolean> {
+    if (mediaType !== MediaType.ALL) {
+      return mediaType === MediaType.IMAGE;
+    }
+    const { category } = await MimeDetectionService.detect(uri);
+    return category === "image";
   }
 
   /**
-   * Map permission status
+   * Delete assets from the device library. iOS asks the user to
+   * confirm; declining resolves as CANCELED with nothing deleted.
    */
-  private static mapPermissionStatus(
-    status: MediaLibrary.PermissionStatus
-  ): MediaLibraryPermission {
-    switch (status) {
-      case MediaLibrary.PermissionStatus.GRANTED:
-        return MediaLibraryPermission.GRANTED;
-      case MediaLibrary.PermissionStatus.DENIED:
-        return MediaLibraryPermission.DENIED;
-      case MediaLibrary.PermissionStatus.UNDETERMINED:
-        return MediaLibraryPermission.DENIED;
-      default:
-        return MediaLibraryPermission.DENIED;
+  static async deleteAssets(assetIds: string[]): Promise<DeleteResult> {
+    if (assetIds.length === 0) {
+      return { success: true, deletedIds: [] };
+    }
+
+    const permission = await MediaSaveService.requestPermissionDetails();
+    if (!permission.granted) {
+      return {
+        success: false,
+        deletedIds: [],
+        error: "Permission denied to delete media",
+        code: MediaErrorCode.PERMISSION_DENIED,
+        permission,
+      };
+    }
+
+    try {
+      const deleted = await MediaLibrary.deleteAssetsAsync(assetIds);
+      return deleted
+        ? { success: true, deletedIds: [...assetIds] }
+        : {
+            success: false,
+            deletedIds: [],
+            error: "Deletion was not confirmed",
+            code: MediaErrorCode.CANCELED,
+          };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      return {
+        success: false,
+        deletedIds: [],
+        error: `Failed to delete media: ${message}`,
+        code:
+          error instanceof MediaError
+            ? error.code
+            : MediaErrorCode.DELETE_FAILED,
+        cause: error,
+      };
     }
   }
+
+  /**
+   * List gallery albums
+   */
+  static async getAlbums(options?: AlbumListOptions): Promise<MediaAlbum[]> {
+    try {
+      const albums = await MediaLibrary.getAlbumsAsync({
+        includeSmartAlbums: options?.includeSmartAlbums ?? false,
+      });
+      return albums.map(MediaSaveService.toMediaAlbum);
+    } catch (error) {
+      throw MediaError.from(
+        error,
+        MediaErrorCode.SAVE_FAILED,
+        "Failed to list albums"
+      );
+    }
+  }
+
+  /**
+   * Album with exactly this title, or null
+   */
+  static async findAlbum(title: string): Promise<MediaAlbum | null> {
+    try {
+      const album = await MediaLibrary.getAlbumAsync(title);
+      return album ? MediaSaveService.toMediaAlbum(album) : null;
+    } catch (error) {
+      throw MediaError.from(
+        error,
+        MediaErrorCode.SAVE_FAILED,
+        "Failed to find album"
+      );
+    }
+  }
+
+  /**
+   * Create an album holding `assetId`. Android cannot create empty
+   * albums, so the first asset is required; it is moved, not copied.
+   */
+  static async createAlbum(
+    title: string,
+    assetId: string
+  ): Promise<MediaAlbum> {
+    try {
+      const album = await MediaLibrary.createAlbumAsync(title, assetId, false);
+      return MediaSaveService.toMediaAlbum(album);
+    } catch (error) {
+      throw MediaError.from(
+        error,
+        MediaErrorCode.SAVE_FAILED,
+        "Failed to create album"
+      );
+    }
+  }
+
+  static async addAssetsToAlbum(
+    assetIds: string[],
+    albumId: string
+  ): Promise<void> {
+    try {
+      await MediaLibrary.addAssetsToAlbumAsync(assetIds, albumId, false);
+    } catch (error) {
+      throw MediaError.from(
+        error,
+        MediaErrorCode.SAVE_FAILED,
+        "Failed to add assets to album"
+      );
+    }
+  }
+
+  /**
+   * Take assets out of an album, keeping them in the library
+   */
+  static async removeAssetsFromAlbum(
+    assetIds: string[],
+    albumId: string
+  ): Promise<boolean> {
+    try {
+      return await MediaLibrary.removeAssetsFromAlbumAsync(assetIds, albumId);
+    } catch (error) {
+      throw MediaError.from(
+        error,
+        MediaErrorCode.SAVE_FAILED,
+        "Failed to remove assets from album"
+      );
+    }
+  }
+
+  /**
+   * Delete an album. Android always deletes its assets too; iOS only
+   * when `deleteAssets` is set.
+   */
+  static async deleteAlbum(
+    albumId: string,
+    deleteAssets = false
+  ): Promise<boolean> {
+    try {
+      return await MediaLibrary.deleteAlbumsAsync([albumId], deleteAssets);
+    } catch (error) {
+      throw MediaError.from(
+        error,
+        MediaErrorCode.SAVE_FAILED,
+        "Failed to delete album"
+      );
+    }
+  }
+
+  /**
+   * Add a saved asset to the named album, creating the album around
+   * that asset when it does not exist yet
+   */
+  private static async placeInAlbum(
+    albumName: string,
+    asset: MediaLibrary.Asset
+  ): Promise<MediaLibrary.Album> {
+    const existing = await MediaLibrary.getAlbumAsync(albumName);
+    if (existing) {
+      await MediaLibrary.addAssetsToAlbumAsync([asset], existing, false);
+      return existing;
+    }
+    return MediaLibrary.createAlbumAsync(albumName, asset, false);
+  }
+
+  private static toMediaAlbum(album: MediaLibrary.Album): MediaAlbum {
+    return {
+      id: album.id,
+      title: album.title,
+      assetCount: album.assetCount,
+    };
+  }
 }
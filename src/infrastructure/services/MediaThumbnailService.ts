@@ -0,0 +1,305 @@
+/**
+ * Media Thumbnail Service
+ * Video poster frames and downscaled image previews, cached on disk or
+ * saved alongside the attachments they belong to
+ */
+
+import type { ImageDimensions } from "../../domain/entities/Media";
+import {
+  ImageFormat,
+  MediaUtils,
+  MEDIA_CONSTANTS,
+} from "../../domain/entities/Media";
+import { MediaError, MediaErrorCode } from "../../domain/entities/MediaError";
+import { ExifOrientationUtils } from "../../domain/entities/MediaMetadata";
+import type { VideoThumbnailAdapter } from "../../domain/entities/VideoThumbnailAdapter.types";
+import { ExpoVideoThumbnailsAdapter } from "../adapters/ExpoVideoThumbnailsAdapter";
+import { MediaCache } from "./MediaCache";
+import { MediaFileService } from "./MediaFileService";
+import { MediaManipulationService } from "./MediaManipulationService";
+import { MediaOrientationService } from "./MediaOrientationService";
+import { MediaProbeService } from "./MediaProbeService";
+import { MimeDetectionService } from "./MimeDetectionService";
+
+export interface ThumbnailOptions {
+  /** Longest side in pixels */
+  maxDimension?: number;
+  quality?: number; // 0-1
+  /** Poster frame position for videos, milliseconds */
+  time?: number;
+  /** Output format, JPEG by default */
+  format?: ImageFormat;
+  mimeType?: string;
+}
+
+/**
+ * Thumbnail written to the app cache
+ */
+export interface MediaThumbnail {
+  uri: string;
+  width: number;
+  height: number;
+  fileSize?: number;
+}
+
+/**
+ * Service for generating and caching thumbnails
+ */
+export class MediaThumbnailService {
+  private static adapter: VideoThumbnailAdapter | null = null;
+  private static cache: MediaCache | null = null;
+  private static store: MediaCache | null = null;
+
+  /**
+   * Install the adapter used to extract video frames
+   */
+  static setAdapter(adapter: VideoThumbnailAdapter): void {
+    MediaThumbnailService.adapter = adapter;
+  }
+
+  /**
+   * Get the installed adapter, creating the expo adapter on first use
+   */
+  static getAdapter(): VideoThumbnailAdapter {
+    if (!MediaThumbnailService.adapter) {
+      MediaThumbnailService.adapter = new ExpoVideoThumbnailsAdapter();
+    }
+    return MediaThumbnailService.adapter;
+  }
+
+  /**
+   * Restore the default expo-video-thumbnails adapter
+   */
+  static resetAdapter(): void {
+    MediaThumbnailService.adapter = null;
+  }
+
+  /**
+   * Thumbnail cache, bounded to MEDIA_CONSTANTS.THUMBNAIL_CACHE_SIZE
+   * unless resized with setCacheSize
+   */
+  static getCache(): MediaCache {
+    if (!MediaThumbnailService.cache) {
+      MediaThumbnailService.cache = new MediaCache({
+        name: "thumbnails",
+        maxSize: MEDIA_CONSTANTS.THUMBNAIL_CACHE_SIZE,
+      });
+    }
+    return MediaThumbnailService.cache;
+  }
+
+  /**
+   * Saved attachment thumbnails in the app documents, bounded and
+   * evicted like the cache but never purged by the OS
+   */
+  private static getStore(): MediaCache {
+    if (!MediaThumbnailService.store) {
+      MediaThumbnailService.store = new MediaCache({
+        name: "thumbnails",
+        maxSize: MediaThumbnailService.getCache().getMaxSize(),
+        persistent: true,
+      });
+    }
+    return MediaThumbnailService.store;
+  }
+
+  /**
+   * Bound both the cache and the saved thumbnails
+   */
+  static async setCacheSize(maxSize: number): Promise<void> {
+    await Promise.all([
+      MediaThumbnailService.getCache().setMaxSize(maxSize),
+      MediaThumbnailService.getStore().setMaxSize(maxSize),
+    ]);
+  }
+
+  /**
+   * Thumbnail URI for `key` (an attachment id): the saved one, else a
+   * cached one, generating and caching it from `uri` on a miss. Cached
+   * URIs may be evicted; resolve them again rather than storing them.
+   */
+  static async getThumbnail(
+    key: string,
+    uri: string,
+    options?: ThumbnailOptions
+  ): Promise<string> {
+    const existing = await MediaThumbnailService.getCachedThumbnail(key);
+    if (existing) {
+      return existing;
+    }
+    return MediaThumbnailService.createInto(
+      MediaThumbnailService.getCache(),
+      key,
+      uri,
+      options
+    );
+  }
+
+  /**
+   * Generate a thumbnail for `key` outside the OS-purgeable cache, so its
+   * URI can be stored with the attachment. Replaces any saved one. The
+   * least recently used saved thumbnails are evicted beyond the size
+   * bound; resolve an evicted one again with getThumbnail.
+   */
+  static async saveThumbnail(
+    key: string,
+    uri: string,
+    options?: ThumbnailOptions
+  ): Promise<string> {
+    return MediaThumbnailService.createInto(
+      MediaThumbnailService.getStore(),
+      key,
+      uri,
+      options
+    );
+  }
+
+  static async getCachedThumbnail(key: string): Promise<string | null> {
+    const saved = await MediaThumbnailService.getStore().get(key);
+    if (saved) {
+      return saved.uri;
+    }
+    const cached = await MediaThumbnailService.getCache().get(key);
+    return cached?.uri ?? null;
+  }
+
+  /**
+   * Remove the saved and cached thumbnails for `key`
+   */
+  static async removeThumbnail(key: string): Promise<void> {
+    await Promise.all([
+      MediaThumbnailService.getStore().remove(key),
+      MediaThumbnailService.getCache().remove(key),
+    ]);
+  }
+
+  static async clearCache(): Promise<void> {
+    await MediaThumbnailService.getCache().clear();
+  }
+
+  /**
+   * Generate an uncached thumbnail: a poster frame for videos,
+   * an upright downscaled preview for images
+   */
+  static async generate(
+    uri: string,
+    options?: ThumbnailOptions
+  ): Promise<MediaThumbnail> {
+    const { category } = await MimeDetectionService.detect(
+      uri,
+      options?.mimeType
+    );
+    if (category !== "image" && category !== "video") {
+      throw new MediaError(
+        MediaErrorCode.UNSUPPORTED_TYPE,
+        `Cannot create thumbnails for ${category ?? "unknown"} files`
+      );
+    }
+
+    try {
+      return category === "video"
+        ? await MediaThumbnailService.createPosterFrame(uri, options)
+        : await MediaThumbnailService.createImagePreview(uri, options);
+    } catch (error) {
+      throw MediaError.from(
+        error,
+        MediaErrorCode.THUMBNAIL_FAILED,
+        "Failed to generate thumbnail"
+      );
+    }
+  }
+
+  private static async createInto(
+    cache: MediaCache,
+    key: string,
+    uri: string,
+    options?: ThumbnailOptions
+  ): Promise<string> {
+    const format = options?.format ?? ImageFormat.JPEG;
+    const thumbnail = await MediaThumbnailService.generate(uri, options);
+    const entry = await cache.put(
+      key,
+      thumbnail.uri,
+      format === ImageFormat.JPEG ? "jpg" : format
+    );
+    return entry.uri;
+  }
+
+  private static async createPosterFrame(
+    uri: string,
+    options?: ThumbnailOptions
+  ): Promise<MediaThumbnail> {
+    const frame = await MediaThumbnailService.getAdapter().getFrame(uri, {
+      time: options?.time ?? 0,
+      quality: 1,
+    });
+
+    try {
+      return await MediaThumbnailService.downscale(frame.uri, frame, options);
+    } finally {
+      await MediaFileService.deleteFile(frame.uri);
+    }
+  }
+
+  private static async createImagePreview(
+    uri: string,
+    options?: ThumbnailOptions
+  ): Promise<MediaThumbnail> {
+    const stored = await MediaProbeService.getDimensions(uri);
+    if (stored) {
+      const orientation = await MediaOrientationService.getOrientation(uri);
+      return MediaThumbnailService.downscale(
+        uri,
+        ExifOrientationUtils.getDisplayDimensions(stored, orientation),
+        options
+      );
+    }
+
+    // No parsable header (HEIC, AVIF): decode once to learn the size
+    const decoded = await MediaManipulationService.manipulateUri(uri, [], {
+      format: ImageFormat.JPEG,
+    });
+    try {
+      return await MediaThumbnailService.downscale(
+        decoded.uri,
+        decoded,
+        options
+      );
+    } finally {
+      await MediaFileService.deleteFile(decoded.uri);
+    }
+  }
+
+  /**
+   * Re-encode, shrinking to fit `maxDimension` when larger
+   */
+  private static async downscale(
+    uri: string,
+    size: ImageDimensions,
+    options?: ThumbnailOptions
+  ): Promise<MediaThumbnail> {
+    const maxDimension =
+      options?.maxDimension ?? MEDIA_CONSTANTS.THUMBNAIL_MAX_DIMENSION;
+    const target = MediaUtils.getScaledDimensions(
+      size.width,
+      size.height,
+      maxDimension,
+      maxDimension
+    );
+    const actions =
+      target.width < size.width || target.height < size.height
+        ? [{ resize: target }]
+        : [];
+
+    const image = await MediaManipulationService.manipulateUri(uri, actions, {
+      format: options?.format ?? ImageFormat.JPEG,
+      quality: options?.quality ?? MEDIA_CONSTANTS.THUMBNAIL_QUALITY,
+    });
+    return {
+      uri: image.uri,
+      width: image.width,
+      height: image.height,
+      fileSize: image.fileSize,
+    };
+  }
+}
@@ -0,0 +1,187 @@
+/**
+ * Media Variant Service
+ * Width-bounded copies of an image for responsive display
+ */
+
+import type { ImageDimensions } from "../../domain/entities/Media";
+import {
+  ImageFormat,
+  MediaUtils,
+  MEDIA_CONSTANTS,
+} from "../../domain/entities/Media";
+import { MediaError, MediaErrorCode } from "../../domain/entities/MediaError";
+import { ExifOrientationUtils } from "../../domain/entities/MediaMetadata";
+import { MediaFileService } from "./MediaFileService";
+import { MediaManipulationService } from "./MediaManipulationService";
+import { MediaOrientationService } from "./MediaOrientationService";
+import { MediaProbeService } from "./MediaProbeService";
+
+export interface ImageVariantOptions {
+  /** Target widths in pixels, default MEDIA_CONSTANTS.VARIANT_WIDTHS */
+  widths?: number[];
+  /** Output formats, JPEG by default */
+  formats?: ImageFormat[];
+  quality?: number; // 0-1, clamped
+}
+
+/**
+ * Variant written to the app cache
+ */
+export interface ImageVariant {
+  uri: string;
+  width: number;
+  height: number;
+  format: ImageFormat;
+  fileSize?: number;
+}
+
+/**
+ * Anything with a pixel width and a format can be selected from
+ */
+export type SelectableVariant = Pick<ImageVariant, "width" | "format"> & {
+  fileSize?: number;
+};
+
+/**
+ * Service for generating and choosing responsive image variants
+ */
+export class MediaVariantService {
+  /**
+   * Encode one copy per width and format, smallest first. Widths wider
+   * than the image collapse into a single full-size copy.
+   */
+  static async generate(
+    uri: string,
+    options?: ImageVariantOptions
+  ): Promise<ImageVariant[]> {
+    const formats = [...new Set(options?.formats ?? [ImageFormat.JPEG])];
+    const quality = MediaUtils.toQuality(
+      options?.quality ?? MEDIA_CONSTANTS.VARIANT_QUALITY
+    );
+    const variants: ImageVariant[] = [];
+
+    try {
+      const source = await MediaVariantService.getDisplayDimensions(uri);
+      const sizes = MediaVariantService.getVariantSizes(
+        source,
+        options?.widths ?? MEDIA_CONSTANTS.VARIANT_WIDTHS
+      );
+
+      for (const size of sizes) {
+        const actions =
+          size.width < source.width || size.height < source.height
+            ? [{ resize: size }]
+            : [];
+        for (const format of formats) {
+          const image = await MediaManipulationService.manipulateUri(
+            uri,
+            actions,
+            { format, quality }
+          );
+          variants.push({
+            uri: image.uri,
+            width: image.width,
+            height: image.height,
+            format,
+            fileSize: image.fileSize,
+          });
+        }
+      }
+      return variants;
+    } catch (error) {
+      await Promise.all(
+        variants.map((variant) => MediaFileService.deleteFile(variant.uri))
+      );
+      throw MediaError.from(
+        error,
+        MediaErrorCode.MANIPULATION_FAILED,
+        "Failed to generate image variants"
+      );
+    }
+  }
+
+  /**
+   * Best variant for a slot `width` points wide: the narrowest one with
+   * at least width * dpr pixels, else the widest. Equal widths prefer
+   * the earlier entry of `formats`, then the smaller file.
+   */
+  static select<T extends SelectableVariant>(
+    variants: readonly T[],
+    width: number,
+    dpr = 1,
+    formats?: readonly ImageFormat[]
+  ): T | undefined {
+    const required = width * dpr;
+    const preferred = formats?.length
+      ? variants.filter((variant) => formats.includes(variant.format))
+      : [];
+    const candidates = preferred.length ? preferred : variants;
+    const rank = (variant: T) =>
+      formats?.includes(variant.format)
+        ? formats.indexOf(variant.format)
+        : Number.MAX_SAFE_INTEGER;
+
+    let best: T | undefined;
+    for (const variant of candidates) {
+      if (!best) {
+        best = variant;
+        continue;
+      }
+      const fits = variant.width >= required;
+      const bestFits = best.width >= required;
+      if (variant.width === best.width) {
+        const better =
+          rank(variant) - rank(best) ||
+          (variant.fileSize ?? Infinity) - (best.fileSize ?? Infinity);
+        if (better < 0) best = variant;
+      } else if (fits && (!bestFits || variant.width < best.width)) {
+        best = variant;
+      } else if (!fits && !bestFits && variant.width > best.width) {
+        best = variant;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Distinct output sizes for the requested widths, never enlarged
+   */
+  private static getVariantSizes(
+    source: ImageDimensions,
+    widths: number[]
+  ): ImageDimensions[] {
+    const sizes: ImageDimensions[] = [];
+    for (const width of [...widths].sort((a, b) => a - b)) {
+      const { width: w, height: h } = MediaUtils.getScaledDimensions(
+        source.width,
+        source.height,
+        width,
+        MediaUtils.getMaxImageDimension()
+      );
+      if (!sizes.some((size) => size.width === w)) {
+        sizes.push({ width: w, height: h });
+      }
+    }
+    return sizes;
+  }
+
+  /**
+   * Upright size from the file header, or from one decode when the
+   * header cannot be parsed (HEIC, AVIF)
+   */
+  private static async getDisplayDimensions(
+    uri: string
+  ): Promise<ImageDimensions> {
+    const stored = await MediaProbeService.getDimensions(uri);
+    if (stored) {
+      const orientation = await MediaOrientationService.getOrientation(uri);
+      return ExifOrientationUtils.getDisplayDimensions(stored, orientation);
+    }
+
+    const decoded = await MediaManipulationService.manipulateUri(uri, [], {
+      format: ImageFormat.JPEG,
+    });
+    await MediaFileService.deleteFile(decoded.uri);
+    return { width: decoded.width, height: decoded.height };
+  }
+}
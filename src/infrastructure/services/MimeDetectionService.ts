@@ -0,0 +1,66 @@
+/**
+ * MIME Detection Service
+ * Resolves the real MIME type of a file from its content
+ */
+
+import type { MimeCategory } from "../../domain/entities/MimeRegistry";
+import { MimeRegistry } from "../../domain/entities/MimeRegistry";
+import { MediaUtils } from "../../domain/entities/Media";
+import { MimeSniffer, MIME_SNIFF_LENGTH } from "../../domain/utils/MimeSniffer";
+import { MediaFileService } from "./MediaFileService";
+
+export interface MimeDetectionResult {
+  mimeType: string | null;
+  category?: MimeCategory;
+  /** Where the MIME type came from, in order of trust */
+  source: "content" | "extension" | "declared" | "unknown";
+}
+
+/**
+ * Service for content-based MIME detection
+ */
+export class MimeDetectionService {
+  /**
+   * Detect a MIME type: file header first, then extension, then the
+   * declared type (e.g. `file.type` from a picker).
+   */
+  static async detect(
+    uri: string,
+    declaredMimeType?: string
+  ): Promise<MimeDetectionResult> {
+    try {
+      const header = await MediaFileService.readHeader(uri, MIME_SNIFF_LENGTH);
+      const sniffed = MimeSniffer.sniff(header);
+      if (sniffed) {
+        return MimeDetectionService.toResult(sniffed, "content");
+      }
+    } catch {
+      // Unreadable file - fall back to the name and declared type
+    }
+
+    const fromExtension = MediaUtils.getMimeTypeFromUri(uri);
+    if (fromExtension) {
+      return MimeDetectionService.toResult(fromExtension, "extension");
+    }
+
+    if (declaredMimeType) {
+      return MimeDetectionService.toResult(
+        MimeRegistry.normalize(declaredMimeType),
+        "declared"
+      );
+    }
+
+    return { mimeType: null, source: "unknown" };
+  }
+
+  private static toResult(
+    mimeType: string,
+    source: MimeDetectionResult["source"]
+  ): MimeDetectionResult {
+    return {
+      mimeType,
+      category: MimeRegistry.getCategory(mimeType),
+      source,
+    };
+  }
+}
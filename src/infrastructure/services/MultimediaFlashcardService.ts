@@ -12,7 +12,10 @@ import type {
   MediaUploadProgress,
   MediaType,
   MediaPosition,
-} from "../domain/entities/MultimediaFlashcard.types";
+} from "../../domain/entities/MultimediaFlashcard.types";
+import { MimeRegistry } from "../../domain/entities/MimeRegistry";
+import { MediaProbeService } from "./MediaProbeService";
+import { MediaThumbnailService } from "./MediaThumbnailService";
 
 export class MultimediaFlashcardService {
   private static instance: MultimediaFlashcardService;
@@ -35,16 +38,17 @@ export class MultimediaFlashcardService {
       // Simulate upload process
       await new Promise((resolve) => setTimeout(resolve, 2000));
 
+      const id = `media_${Date.now()}`;
       const attachment: MediaAttachment = {
-        id: `media_${Date.now()}`,
+        id,
         type: this.getMediaType(file.type),
         position: "both" as MediaPosition,
         url: `https://storage.example.com/media/${Date.now()}_${file.name}`,
         filename: file.name,
         fileSize: file.size || 100000,
         mimeType: file.type,
-        duration: this.getMediaDuration(file),
-        thumbnailUrl: this.generateThumbnail(file),
+        duration: await this.getMediaDuration(file),
+        thumbnailUrl: await this.generateThumbnail(id, file),
         caption: "",
         isDownloaded: true,
         createdAt: new Date().toISOString(),
@@ -95,7 +99,7 @@ export class MultimediaFlashcardService {
             url: `https://example.com/audio_${Date.now()}.mp3`,
             filename: `ai_generated_${Date.now()}.mp3`,
             fileSize: 80000, // 80KB
-            mimeType: "audio/mp3",
+            mimeType: "audio/mpeg",
             duration: 10, // 10 seconds
             isDownloaded: false,
             createdAt: new Date().toISOString(),
@@ -164,19 +168,10 @@ export class MultimediaFlashcardService {
         recommendations.push("Consider compressing file");
       }
 
-      // File type validation
-      const supportedTypes = [
-        "image/jpeg",
-        "image/png",
-        "image/webp",
-        "audio/mp3",
-        "audio/wav",
-        "audio/m4a",
-        "video/mp4",
-        "video/mov",
-      ];
-
-      if (!supportedTypes.includes(file.type)) {
+      // File type validation (aliases such as audio/mp3 are accepted)
+      const supportedTypes = MimeRegistry.getMimeTypes();
+
+      if (!supportedTypes.includes(MimeRegistry.normalize(file.type))) {
         errors.push(`Unsupported file type: ${file.type}`);
       }
 
@@ -190,7 +185,6 @@ export class MultimediaFlashcardService {
       }
 
       if (file.type.startsWith("audio/")) {
-        // Simulate audio duration check
         const duration = await this.getMediaDuration(file);
         if (duration && duration > 300) {
           // 5 minutes
@@ -223,18 +217,34 @@ export class MultimediaFlashcardService {
   }
 
   private async getMediaDuration(file: any): Promise<number | undefined> {
-    // Mock duration calculation
-    if (file.type.startsWith("audio/") || file.type.startsWith("video/")) {
-      return Math.floor(Math.random() * 60) + 10; // 10-70 seconds
+    // Duration in seconds, read from the file header
+    if (
+      file.uri &&
+      (file.type.startsWith("audio/") || file.type.startsWith("video/"))
+    ) {
+      const duration = await MediaProbeService.getDuration(
+        file.uri,
+        MimeRegistry.normalize(file.type),
+      );
+      return duration !== undefined ? duration / 1000 : undefined;
     }
     return undefined;
   }
 
-  private generateThumbnail(file: any): string | undefined {
-    if (file.type.startsWith("video/")) {
-      return `https://picsum.photos/200/150?random=${Date.now()}`;
+  private async generateThumbnail(
+    attachmentId: string,
+    file: any,
+  ): Promise<string | undefined> {
+    if (!file.uri || this.getMediaType(file.type) === "audio") {
+      return undefined;
+    }
+    try {
+      return await MediaThumbnailService.saveThumbnail(attachmentId, file.uri, {
+        mimeType: file.type,
+      });
+    } catch {
+      return undefined;
     }
-    return undefined;
   }
 
   private formatFileSize(bytes: number): string {
@@ -9,16 +9,25 @@ import type {
   CardMediaGenerationRequest,
   CardMediaGenerationResult,
   CardMediaCompressionOptions,
+  CardMediaUploadOptions,
   CardMediaValidation,
   CardMediaUploadProgress,
   CardMultimediaFlashcard,
-  CardMultimediaFlashcardService,
 } from "../../domain/entities/CardMultimedia.types";
+import { MediaError, MediaErrorCode } from "../../domain/entities/MediaError";
+import { CardMultimediaFlashcardService } from "../../infrastructure/services/CardMultimediaService";
 
 export interface UseCardMediaUploadResult {
   uploadMedia: (
     file: any,
     options?: CardMediaCompressionOptions,
+    uploadOptions?: CardMediaUploadOptions,
+  ) => Promise<CardMediaAttachment>;
+  /** Pause the running upload; uploadMedia rejects with CANCELED */
+  pauseUpload: () => Promise<void>;
+  resumeUpload: (
+    fileId: string,
+    uploadOptions?: CardMediaUploadOptions,
   ) => Promise<CardMediaAttachment>;
   isUploading: boolean;
   uploadProgress: CardMediaUploadProgress | null;
@@ -43,11 +52,16 @@ export interface UseCardMediaValidationResult {
 
 export interface UseCardMultimediaFlashcardResult {
   createCardMultimedia: (cardData: any) => Promise<CardMultimediaFlashcard>;
+  /**
+   * Replace a card's media; attachments no longer on the card are deleted
+   * from storage along with their thumbnails
+   */
   updateCardMedia: (
-    cardId: string,
+    card: CardMultimediaFlashcard,
     media: CardMediaAttachment[],
   ) => Promise<CardMultimediaFlashcard>;
-  deleteCardMedia: (attachmentId: string) => Promise<void>;
+  /** Pass the attachment rather than its id to also delete its variants */
+  deleteCardMedia: (attachment: string | CardMediaAttachment) => Promise<void>;
   isProcessing: boolean;
   error: string | null;
 }
@@ -74,63 +88,87 @@ export const useCardMediaUpload = (): UseCardMediaUploadResult => {
     React.useState<CardMediaUploadProgress | null>(null);
   const [error, setError] = React.useState<string | null>(null);
 
-  const uploadMedia = React.useCallback(
-    async (file: any, options?: CardMediaCompressionOptions) => {
+  const currentFileId = React.useRef<string | null>(null);
+
+  const runUpload = React.useCallback(
+    async (
+      upload: (
+        uploadOptions: CardMediaUploadOptions,
+      ) => Promise<CardMediaAttachment>,
+      uploadOptions?: CardMediaUploadOptions,
+    ) => {
       try {
         setIsUploading(true);
         setError(null);
-
-        // Simulate upload progress
-        setUploadProgress({
-          fileId: `upload_${Date.now()}`,
-          progress: 0,
-          status: "uploading",
+        setUploadProgress(null);
+
+        return await upload({
+          ...uploadOptions,
+          onProgress: (progress) => {
+            currentFileId.current = progress.fileId;
+            setUploadProgress(progress);
+            uploadOptions?.onProgress?.(progress);
+          },
         });
-
-        // Simulate progress updates
-        for (let i = 1; i <= 100; i += 10) {
-          await new Promise((resolve) => setTimeout(resolve, 50));
-          setUploadProgress((prev) => (prev ? { ...prev, progress: i } : null));
-        }
-
-        const attachment: CardMediaAttachment = {
-          id: `card_media_${Date.now()}`,
-          type: getMediaType(file.type),
-          position: "both",
-          url: `https://storage.example.com/media/${Date.now()}_${file.name}`,
-          filename: file.name,
-          fileSize: file.size || 100000,
-          mimeType: file.type,
-          duration: await getMediaDuration(file),
-          thumbnailUrl: generateThumbnail(file),
-          caption: "",
-          isDownloaded: true,
-          createdAt: new Date().toISOString(),
-        };
-
-        setUploadProgress({
-          fileId: `upload_${Date.now()}`,
-          progress: 100,
-          status: "completed",
-          url: attachment.url,
-        });
-
-        return attachment;
       } catch (err) {
-        const errorMessage =
-          err instanceof Error ? err.message : "Upload failed";
-        setError(errorMessage);
-        setIsUploading(false);
+        // A pause shows as the "paused" progress status
+        if (!(
+          err instanceof MediaError && err.code === MediaErrorCode.CANCELED
+        )) {
+          setError(err instanceof Error ? err.message : "Upload failed");
+        }
         throw err;
       } finally {
+        currentFileId.current = null;
         setIsUploading(false);
       }
     },
     [],
   );
 
+  const uploadMedia = React.useCallback(
+    (
+      file: any,
+      options?: CardMediaCompressionOptions,
+      uploadOptions?: CardMediaUploadOptions,
+    ) =>
+      runUpload(
+        (tracked) =>
+          CardMultimediaFlashcardService.getInstance().uploadMedia(
+            file,
+            options,
+            tracked,
+          ),
+        uploadOptions,
+      ),
+    [runUpload],
+  );
+
+  const resumeUpload = React.useCallback(
+    (fileId: string, uploadOptions?: CardMediaUploadOptions) =>
+      runUpload(
+        (tracked) =>
+          CardMultimediaFlashcardService.getInstance().resumeUpload(
+            fileId,
+            tracked,
+          ),
+        uploadOptions,
+      ),
+    [runUpload],
+  );
+
+  const pauseUpload = React.useCallback(async () => {
+    if (currentFileId.current) {
+      await CardMultimediaFlashcardService.getInstance().pauseUpload(
+        currentFileId.current,
+      );
+    }
+  }, []);
+
   return {
     uploadMedia,
+    pauseUpload,
+    resumeUpload,
     isUploading,
     uploadProgress,
     error,
@@ -181,7 +219,7 @@ export const useCardMediaGeneration = (): UseCardMediaGenerationResult => {
               url: `https://example.com/audio_${Date.now()}.mp3`,
               filename: `ai_generated_${Date.now()}.mp3`,
               fileSize: 80000, // 80KB
-              mimeType: "audio/mp3",
+              mimeType: "audio/mpeg",
               duration: 10, // 10 seconds
               isDownloaded: false,
               createdAt: new Date().toISOString(),
@@ -232,6 +270,7 @@ export const useCardMediaGeneration = (): UseCardMediaGenerationResult => {
           creditsUsed: 0,
           processingTime: 0,
           error: errorMessage,
+          errorCode: MediaErrorCode.GENERATION_FAILED,
           requestId: "",
         };
       } finally {
@@ -261,56 +300,10 @@ export const useCardMediaValidation = (): UseCardMediaValidationResult => {
         setIsValidating(true);
         setError(null);
 
-        // Simulate validation
-        await new Promise((resolve) => setTimeout(resolve, 500));
-
-        const errors: string[] = [];
-        const warnings: string[] = [];
-        const recommendations: string[] = [];
-
-        // File size validation
-        const maxSize = 50 * 1024 * 1024; // 50MB
-        if (file.size > maxSize) {
-          errors.push(
-            `File size (${formatFileSize(file.size)}) exceeds maximum allowed size (${formatFileSize(maxSize)})`,
+        const result =
+          await CardMultimediaFlashcardService.getInstance().validateMedia(
+            file,
           );
-        } else if (file.size > 10 * 1024 * 1024) {
-          // 10MB
-          warnings.push(`Large file size may impact performance`);
-          recommendations.push("Consider compressing file");
-        }
-
-        // File type validation
-        const supportedTypes = [
-          "image/jpeg",
-          "image/png",
-          "image/webp",
-          "audio/mp3",
-          "audio/wav",
-          "audio/m4a",
-          "video/mp4",
-          "video/mov",
-        ];
-
-        if (!supportedTypes.includes(file.type)) {
-          errors.push(`Unsupported file type: ${file.type}`);
-        }
-
-        // Media-specific validations
-        if (file.type.startsWith("image/")) {
-          if (file.size > 5 * 1024 * 1024) {
-            // 5MB for images
-            warnings.push("Very large image may cause performance issues");
-            recommendations.push("Consider resizing image to under 5MB");
-          }
-        }
-
-        const result: CardMediaValidation = {
-          isValid: errors.length === 0,
-          errors,
-          warnings,
-          recommendations,
-        };
 
         setValidation(result);
         return result;
@@ -387,20 +380,58 @@ export const useCardMultimediaFlashcard =
 
     const updateCardMedia = React.useCallback(
       async (
-        cardId: string,
+        card: CardMultimediaFlashcard,
         media: CardMediaAttachment[],
       ): Promise<CardMultimediaFlashcard> => {
-        // Mock implementation
-        await new Promise((resolve) => setTimeout(resolve, 500));
-        return {} as CardMultimediaFlashcard;
+        try {
+          setIsProcessing(true);
+          setError(null);
+
+          const kept = new Set(media.map((attachment) => attachment.id));
+          const service = CardMultimediaFlashcardService.getInstance();
+          for (const attachment of card.media) {
+            if (!kept.has(attachment.id)) {
+              await service.deleteMedia(attachment);
+            }
+          }
+
+          return {
+            ...card,
+            media,
+            hasMedia: media.length > 0,
+            mediaType: extractMediaTypes(media),
+            isDownloaded: media.every((m) => m.isDownloaded),
+            estimatedSize: calculateTotalSize(media),
+            updatedAt: new Date().toISOString(),
+          };
+        } catch (err) {
+          const errorMessage =
+            err instanceof Error ? err.message : "Media update failed";
+          setError(errorMessage);
+          throw err;
+        } finally {
+          setIsProcessing(false);
+        }
       },
       [],
     );
 
     const deleteCardMedia = React.useCallback(
-      async (attachmentId: string): Promise<void> => {
-        // Mock implementation
-        await new Promise((resolve) => setTimeout(resolve, 500));
+      async (attachment: string | CardMediaAttachment): Promise<void> => {
+        try {
+          setIsProcessing(true);
+          setError(null);
+          await CardMultimediaFlashcardService.getInstance().deleteMedia(
+            attachment,
+          );
+        } catch (err) {
+          const errorMessage =
+            err instanceof Error ? err.message : "Media deletion failed";
+          setError(errorMessage);
+          throw err;
+        } finally {
+          setIsProcessing(false);
+        }
       },
       [],
     );
@@ -415,27 +446,6 @@ export const useCardMultimediaFlashcard =
   };
 
 // Helper functions
-const getMediaType = (mimeType: string): "image" | "audio" | "video" => {
-  if (mimeType.startsWith("image/")) return "image";
-  if (mimeType.startsWith("audio/")) return "audio";
-  if (mimeType.startsWith("video/")) return "video";
-  return "image"; // Default fallback
-};
-
-const getMediaDuration = async (file: any): Promise<number | undefined> => {
-  if (file.type.startsWith("audio/") || file.type.startsWith("video/")) {
-    return Math.floor(Math.random() * 60) + 10;
-  }
-  return undefined;
-};
-
-const generateThumbnail = (file: any): string | undefined => {
-  if (file.type.startsWith("video/")) {
-    return `https://picsum.photos/200/150?random=${Date.now()}`;
-  }
-  return undefined;
-};
-
 const extractMediaTypes = (
   media: CardMediaAttachment[],
 ): ("image" | "audio" | "video")[] => {
@@ -447,10 +457,3 @@ const extractMediaTypes = (
 const calculateTotalSize = (media: CardMediaAttachment[]): number => {
   return media.reduce((total, m) => total + m.fileSize, 0);
 };
-
-const formatFileSize = (bytes: number): string => {
-  const sizes = ["Bytes", "KB", "MB", "GB"];
-  if (bytes === 0) return "0 Bytes";
-  const i = Math.floor(Math.log(bytes) / Math.log(1024));
-  return Math.round((bytes / Math.pow(1024, i)) * 100) / 100 + " " + sizes[i];
-};
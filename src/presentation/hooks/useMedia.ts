@@ -1,18 +1,23 @@
 /**
  * Media Domain - useMedia Hook
  *
- * React hook for media picking operations (images, videos).
+ * React hook for media picking operations (images, videos, audio).
  * Provides camera, gallery picking functionality.
  */
 
 import { useState, useCallback } from "react";
+import { Linking } from "react-native";
 import { MediaPickerService } from "../../infrastructure/services/MediaPickerService";
 import type {
   MediaPickerOptions,
   MediaPickerResult,
   CameraOptions,
+  DocumentPickerOptions,
 } from "../../domain/entities/Media";
 import { MediaLibraryPermission } from "../../domain/entities/Media";
+import { MediaError, MediaErrorCode } from "../../domain/entities/MediaError";
+import type { MediaPermissionDetails } from "../../domain/entities/MediaPermission";
+import { MediaPermissionUtils } from "../../domain/entities/MediaPermission";
 
 /**
  * useMedia hook for complete media workflow
@@ -29,8 +34,10 @@ import { MediaLibraryPermission } from "../../domain/entities/Media";
  *
  * const handlePickImage = async () => {
  *   const result = await pickImage({ allowsEditing: true });
- *   if (!result.canceled && result.assets) {
+ *   if (result.status === 'success') {
  *     console.log('Picked:', result.assets[0].uri);
+ *   } else if (result.status === 'permission_denied' && result.permission.blocked) {
+ *     openSettings();
  *   }
  * };
  * ```
@@ -38,100 +45,150 @@ import { MediaLibraryPermission } from "../../domain/entities/Media";
 export const useMedia = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [errorCode, setErrorCode] = useState<MediaErrorCode | null>(null);
+
+  const handleResult = useCallback(
+    (result: MediaPickerResult): MediaPickerResult => {
+      if (result.status === "error" || result.status === "permission_denied") {
+        setError(result.error.message);
+        setErrorCode(result.error.code);
+      }
+      return result;
+    },
+    []
+  );
+
+  const handleFailure = useCallback(
+    (err: unknown, fallbackMessage: string): MediaPickerResult => {
+      const mediaError = new MediaError(
+        MediaErrorCode.PICKER_FAILED,
+        err instanceof Error ? err.message : fallbackMessage,
+        err
+      );
+      setError(mediaError.message);
+      setErrorCode(mediaError.code);
+      return { status: "error", canceled: true, error: mediaError };
+    },
+    []
+  );
 
   const pickImage = useCallback(
     async (options?: MediaPickerOptions): Promise<MediaPickerResult> => {
       setIsLoading(true);
       setError(null);
+      setErrorCode(null);
       try {
         const result = await MediaPickerService.pickSingleImage(options);
-        return result;
+        return handleResult(result);
       } catch (err) {
-        const errorMessage =
-          err instanceof Error ? err.message : "Failed to pick image";
-        setError(errorMessage);
-        return { canceled: true };
+        return handleFailure(err, "Failed to pick image");
       } finally {
         setIsLoading(false);
       }
     },
-    []
+    [handleResult, handleFailure]
   );
 
   const pickMultipleImages = useCallback(
     async (options?: MediaPickerOptions): Promise<MediaPickerResult> => {
       setIsLoading(true);
       setError(null);
+      setErrorCode(null);
       try {
         const result = await MediaPickerService.pickMultipleImages(options);
-        return result;
+        return handleResult(result);
       } catch (err) {
-        const errorMessage =
-          err instanceof Error ? err.message : "Failed to pick images";
-        setError(errorMessage);
-        return { canceled: true };
+        return handleFailure(err, "Failed to pick images");
       } finally {
         setIsLoading(false);
       }
     },
-    []
+    [handleResult, handleFailure]
   );
 
   const pickVideo = useCallback(
     async (options?: MediaPickerOptions): Promise<MediaPickerResult> => {
       setIsLoading(true);
       setError(null);
+      setErrorCode(null);
       try {
         const result = await MediaPickerService.pickVideo(options);
-        return result;
+        return handleResult(result);
       } catch (err) {
-        const errorMessage =
-          err instanceof Error ? err.message : "Failed to pick video";
-        setError(errorMessage);
-        return { canceled: true };
+        return handleFailure(err, "Failed to pick video");
       } finally {
         setIsLoading(false);
       }
     },
-    []
+    [handleResult, handleFailure]
   );
 
   const launchCamera = useCallback(
     async (options?: CameraOptions): Promise<MediaPickerResult> => {
       setIsLoading(true);
       setError(null);
+      setErrorCode(null);
       try {
         const result = await MediaPickerService.launchCamera(options);
-        return result;
+        return handleResult(result);
       } catch (err) {
-        const errorMessage =
-          err instanceof Error ? err.message : "Failed to launch camera";
-        setError(errorMessage);
-        return { canceled: true };
+        return handleFailure(err, "Failed to launch camera");
       } finally {
         setIsLoading(false);
       }
     },
-    []
+    [handleResult, handleFailure]
   );
 
   const launchCameraForVideo = useCallback(
     async (options?: CameraOptions): Promise<MediaPickerResult> => {
       setIsLoading(true);
       setError(null);
+      setErrorCode(null);
       try {
         const result = await MediaPickerService.launchCameraForVideo(options);
-        return result;
+        return handleResult(result);
       } catch (err) {
-        const errorMessage =
-          err instanceof Error ? err.message : "Failed to record video";
-        setError(errorMessage);
-        return { canceled: true };
+        return handleFailure(err, "Failed to record video");
       } finally {
         setIsLoading(false);
       }
     },
-    []
+    [handleResult, handleFailure]
+  );
+
+  const pickAudio = useCallback(
+    async (options?: DocumentPickerOptions): Promise<MediaPickerResult> => {
+      setIsLoading(true);
+      setError(null);
+      setErrorCode(null);
+      try {
+        const result = await MediaPickerService.pickAudio(options);
+        return handleResult(result);
+      } catch (err) {
+        return handleFailure(err, "Failed to pick audio");
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [handleResult, handleFailure]
+  );
+
+  const pickDocument = useCallback(
+    async (options?: DocumentPickerOptions): Promise<MediaPickerResult> => {
+      setIsLoading(true);
+      setError(null);
+      setErrorCode(null);
+      try {
+        const result = await MediaPickerService.pickDocument(options);
+        return handleResult(result);
+      } catch (err) {
+        return handleFailure(err, "Failed to pick file");
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [handleResult, handleFailure]
   );
 
   const requestCameraPermission =
@@ -170,17 +227,74 @@ export const useMedia = () => {
       }
     }, []);
 
+  const requestCameraPermissionDetails =
+    useCallback(async (): Promise<MediaPermissionDetails> => {
+      try {
+        return await MediaPickerService.requestCameraPermissionDetails();
+      } catch {
+        return MediaPermissionUtils.fromStatus(MediaLibraryPermission.DENIED);
+      }
+    }, []);
+
+  const requestMediaLibraryPermissionDetails =
+    useCallback(async (): Promise<MediaPermissionDetails> => {
+      try {
+        return await MediaPickerService.requestMediaLibraryPermissionDetails();
+      } catch {
+        return MediaPermissionUtils.fromStatus(MediaLibraryPermission.DENIED);
+      }
+    }, []);
+
+  const getCameraPermissionDetails =
+    useCallback(async (): Promise<MediaPermissionDetails> => {
+      try {
+        return await MediaPickerService.getCameraPermissionDetails();
+      } catch {
+        return MediaPermissionUtils.fromStatus(MediaLibraryPermission.DENIED);
+      }
+    }, []);
+
+  const getMediaLibraryPermissionDetails =
+    useCallback(async (): Promise<MediaPermissionDetails> => {
+      try {
+        return await MediaPickerService.getMediaLibraryPermissionDetails();
+      } catch {
+        return MediaPermissionUtils.fromStatus(MediaLibraryPermission.DENIED);
+      }
+    }, []);
+
+  /**
+   * Open the app settings, e.g. when a permission is blocked
+   */
+  const openSettings = useCallback(async (): Promise<void> => {
+    try {
+      await Linking.openSettings();
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to open settings";
+      setError(errorMessage);
+    }
+  }, []);
+
   return {
     pickImage,
     pickMultipleImages,
     pickVideo,
     launchCamera,
     launchCameraForVideo,
+    pickAudio,
+    pickDocument,
     requestCameraPermission,
     requestMediaLibraryPermission,
     getCameraPermissionStatus,
     getMediaLibraryPermissionStatus,
+    requestCameraPermissionDetails,
+    requestMediaLibraryPermissionDetails,
+    getCameraPermissionDetails,
+    getMediaLibraryPermissionDetails,
+    openSettings,
     isLoading,
     error,
+    errorCode,
   };
 };
@@ -0,0 +1,322 @@
+/**
+ * Media Domain - useMediaLibrary Hook
+ *
+ * React hook for in-app gallery grids: infinite scrolling, multi-select
+ * and automatic refresh when the device library changes.
+ */
+
+import { useState, useCallback, useEffect, useRef } from "react";
+import { MediaLibraryService } from "../../infrastructure/services/MediaLibraryService";
+import type { MediaAsset } from "../../domain/entities/Media";
+import { MEDIA_CONSTANTS } from "../../domain/entities/Media";
+import type {
+  MediaLibraryChange,
+  MediaLibraryQuery,
+} from "../../domain/entities/MediaLibraryAdapter.types";
+import type { MediaPermissionDetails } from "../../domain/entities/MediaPermission";
+import { MediaError, MediaErrorCode } from "../../domain/entities/MediaError";
+
+export interface UseMediaLibraryOptions {
+  /** Largest selection; toggling more assets is ignored */
+  maxSelection?: number;
+  /**
+   * Follow library changes, default true. Bursts are applied together:
+   * deletions are removed from the list and selection, inserts and
+   * updates merge a fresh first page in, and broader changes reload
+   * every loaded asset, dropping selected assets that are gone.
+   */
+  refreshOnChange?: boolean;
+}
+
+const getKey = (asset: MediaAsset) => asset.assetId ?? asset.uri;
+
+/**
+ * useMediaLibrary hook for custom gallery pickers
+ *
+ * USAGE:
+ * ```typescript
+ * const { assets, loadMore, toggleSelection, isSelected, selectedAssets } =
+ *   useMediaLibrary({ mediaType: MediaType.IMAGE }, { maxSelection: 10 });
+ *
+ * <FlatList
+ *   data={assets}
+ *   onEndReached={loadMore}
+ *   renderItem={({ item }) => (
+ *     <Tile asset={item} selected={isSelected(item)} onPress={() => toggleSelection(item)} />
+ *   )}
+ * />
+ * ```
+ */
+export const useMediaLibrary = (
+  query?: Omit<MediaLibraryQuery, "after">,
+  options?: UseMediaLibraryOptions
+) => {
+  const [assets, setAssets] = useState<MediaAsset[]>([]);
+  const [selection, setSelection] = useState<Map<string, MediaAsset>>(
+    () => new Map()
+  );
+  const [permission, setPermission] = useState<MediaPermissionDetails | null>(
+    null
+  );
+  const [hasNextPage, setHasNextPage] = useState(true);
+  const [totalCount, setTotalCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [errorCode, setErrorCode] = useState<MediaErrorCode | null>(null);
+
+  // Inline query objects change identity every render; compare by value
+  const queryKey = JSON.stringify(query ?? {});
+  const queryRef = useRef(query);
+  queryRef.current = query;
+  const assetsRef = useRef(assets);
+  assetsRef.current = assets;
+  const cursorRef = useRef<string | undefined>(undefined);
+  const loadingRef = useRef(false);
+  // Responses from superseded loads are dropped
+  const generationRef = useRef(0);
+
+  const handleFailure = useCallback((err: unknown) => {
+    const mediaError = MediaError.from(
+      err,
+      MediaErrorCode.LIBRARY_FAILED,
+      "Failed to load media library"
+    );
+    setError(mediaError.message);
+    setErrorCode(mediaError.code);
+  }, []);
+
+  /**
+   * Replace the list with its first `pageSize` assets, asking for
+   * permission when needed. With `pruneSelection`, selected assets
+   * missing from the new list are deselected.
+   */
+  const reload = useCallback(
+    async (pageSize?: number, pruneSelection = false): Promise<void> => {
+      const generation = ++generationRef.current;
+      loadingRef.current = true;
+      setIsRefreshing(true);
+      setError(null);
+      setErrorCode(null);
+      try {
+        let details = await MediaLibraryService.getPermission();
+        if (!details.granted && details.canAskAgain) {
+          details = await MediaLibraryService.requestPermission();
+        }
+        if (generation !== generationRef.current) return;
+        setPermission(details);
+
+        const page = await MediaLibraryService.getAssets({
+          ...queryRef.current,
+          ...(pageSize !== undefined && { pageSize }),
+        });
+        if (generation !== generationRef.current) return;
+        cursorRef.current = page.endCursor;
+        setAssets(page.assets);
+        setHasNextPage(page.hasNextPage);
+        setTotalCount(page.totalCount);
+        if (pruneSelection) {
+          const listed = new Set(page.assets.map(getKey));
+          setSelection((current) => {
+            const next = new Map(
+              [...current].filter(([key]) => listed.has(key))
+            );
+            return next.size === current.size ? current : next;
+          });
+        }
+      } catch (err) {
+        if (generation === generationRef.current) {
+          handleFailure(err);
+          setHasNextPage(false);
+        }
+      } finally {
+        if (generation === generationRef.current) {
+          loadingRef.current = false;
+          setIsRefreshing(false);
+        }
+      }
+    },
+    [handleFailure]
+  );
+
+  /**
+   * Load the first page again, asking for permission when needed
+   */
+  const refresh = useCallback((): Promise<void> => reload(), [reload]);
+
+  /**
+   * Append the next page; safe to call from onEndReached repeatedly
+   */
+  const loadMore = useCallback(async (): Promise<void> => {
+    if (loadingRef.current || !hasNextPage || !cursorRef.current) {
+      return;
+    }
+    const generation = generationRef.current;
+    loadingRef.current = true;
+    setIsLoading(true);
+    try {
+      const page = await MediaLibraryService.getAssets({
+        ...queryRef.current,
+        after: cursorRef.current,
+      });
+      if (generation !== generationRef.current) return;
+      cursorRef.current = page.endCursor;
+      setAssets((current) => {
+        const seen = new Set(current.map(getKey));
+        return [
+          ...current,
+          ...page.assets.filter((asset) => !seen.has(getKey(asset))),
+        ];
+      });
+      setHasNextPage(page.hasNextPage);
+      setTotalCount(page.totalCount);
+    } catch (err) {
+      if (generation === generationRef.current) {
+        handleFailure(err);
+      }
+    } finally {
+      if (generation === generationRef.current) {
+        loadingRef.current = false;
+      }
+      setIsLoading(false);
+    }
+  }, [hasNextPage, handleFailure]);
+
+  useEffect(() => {
+    refresh();
+  }, [queryKey, refresh]);
+
+  /**
+   * Bring the list up to date with a batch of library changes
+   */
+  const applyChange = useCallback(
+    async (change: MediaLibraryChange): Promise<void> => {
+      if (!change.incremental) {
+        // Reload everything loaded so far, so scrolled-to assets stay
+        await reload(
+          Math.max(
+            assetsRef.current.length,
+            queryRef.current?.pageSize ?? MEDIA_CONSTANTS.LIBRARY_PAGE_SIZE
+          ),
+          true
+        );
+        return;
+      }
+
+      const deleted = new Set(change.deletedAssetIds);
+      if (deleted.size > 0) {
+        setAssets((current) =>
+          current.filter(
+            (asset) => !asset.assetId || !deleted.has(asset.assetId)
+          )
+        );
+        setTotalCount((count) => Math.max(0, count - deleted.size));
+        setSelection((current) => {
+          const next = new Map(current);
+          deleted.forEach((assetId) => next.delete(assetId));
+          return next.size === current.size ? current : next;
+        });
+      }
+
+      if (
+        change.insertedAssetIds.length === 0 &&
+        change.updatedAssetIds.length === 0
+      ) {
+        return;
+      }
+      const generation = generationRef.current;
+      try {
+        const page = await MediaLibraryService.getAssets(queryRef.current);
+        if (generation !== generationRef.current) return;
+        if (!cursorRef.current) {
+          cursorRef.current = page.endCursor;
+          setHasNextPage(page.hasNextPage);
+        }
+        setAssets((current) =>
+          MediaLibraryService.mergeFirstPage(current, page)
+        );
+        setTotalCount(page.totalCount);
+      } catch (err) {
+        if (generation === generationRef.current) {
+          handleFailure(err);
+        }
+      }
+    },
+    [reload, handleFailure]
+  );
+
+  const refreshOnChange = options?.refreshOnChange ?? true;
+  useEffect(() => {
+    if (!refreshOnChange) return;
+    let pending: MediaLibraryChange | null = null;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const unsubscribe = MediaLibraryService.addChangeListener(
+      (change: MediaLibraryChange) => {
+        pending = pending
+          ? MediaLibraryService.combineChanges(pending, change)
+          : change;
+        clearTimeout(timer);
+        timer = setTimeout(() => {
+          const batch = pending;
+          pending = null;
+          if (batch) applyChange(batch);
+        }, MEDIA_CONSTANTS.LIBRARY_CHANGE_DELAY);
+      }
+    );
+    return () => {
+      clearTimeout(timer);
+      unsubscribe();
+    };
+  }, [refreshOnChange, applyChange]);
+
+  /**
+   * Select or deselect an asset; returns whether it is now selected
+   */
+  const toggleSelection = useCallback(
+    (asset: MediaAsset): boolean => {
+      const key = getKey(asset);
+      const next = new Map(selection);
+      if (next.has(key)) {
+        next.delete(key);
+      } else if (
+        options?.maxSelection === undefined ||
+        next.size < options.maxSelection
+      ) {
+        next.set(key, asset);
+      } else {
+        return false;
+      }
+      setSelection(next);
+      return next.has(key);
+    },
+    [selection, options?.maxSelection]
+  );
+
+  const isSelected = useCallback(
+    (asset: MediaAsset): boolean => selection.has(getKey(asset)),
+    [selection]
+  );
+
+  const clearSelection = useCallback(() => {
+    setSelection(new Map());
+  }, []);
+
+  return {
+    assets,
+    /** In the order they were selected; kept until deleted or deselected */
+    selectedAssets: [...selection.values()],
+    toggleSelection,
+    isSelected,
+    clearSelection,
+    loadMore,
+    refresh,
+    permission,
+    hasNextPage,
+    totalCount,
+    isLoading,
+    isRefreshing,
+    error,
+    errorCode,
+  };
+};
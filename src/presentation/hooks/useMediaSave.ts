@@ -0,0 +1,133 @@
+/**
+ * Media Domain - useMediaSave Hook
+ *
+ * React hook for saving images and videos to the device gallery,
+ * one at a time or as a cancellable batch with progress.
+ */
+
+import { useState, useCallback, useEffect, useRef } from "react";
+import { MediaSaveService } from "../../infrastructure/services/MediaSaveService";
+import type {
+  SaveManyOptions,
+  SaveOptions,
+  SaveProgress,
+  SaveResult,
+} from "../../infrastructure/services/MediaSaveService";
+import { MediaType } from "../../domain/entities/Media";
+import { MediaErrorCode } from "../../domain/entities/MediaError";
+
+/**
+ * useMediaSave hook for gallery exports
+ *
+ * USAGE:
+ * ```typescript
+ * const { saveMany, cancel, progress, isSaving } = useMediaSave();
+ *
+ * const handleExport = async () => {
+ *   const results = await saveMany(deckImageUris, { album: 'Flashcards' });
+ *   const saved = results.filter((result) => result.success).length;
+ * };
+ *
+ * // progress?.completed / progress?.total while saving
+ * ```
+ */
+export const useMediaSave = () => {
+  const [isSaving, setIsSaving] = useState(false);
+  const [progress, setProgress] = useState<SaveProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [errorCode, setErrorCode] = useState<MediaErrorCode | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Stop a running batch when the component unmounts
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const handleResults = useCallback((results: SaveResult[]) => {
+    const failure = results.find(
+      (result) => !result.success && result.code !== MediaErrorCode.CANCELED
+    );
+    setError(failure?.error ?? null);
+    setErrorCode(failure?.code ?? null);
+  }, []);
+
+  const save = useCallback(
+    async (
+      uri: string,
+      mediaType: MediaType = MediaType.ALL,
+      options?: SaveOptions
+    ): Promise<SaveResult> => {
+      setIsSaving(true);
+      setError(null);
+      setErrorCode(null);
+      try {
+        const result = await MediaSaveService.saveToGallery(
+          uri,
+          mediaType,
+          options
+        );
+        handleResults([result]);
+        return result;
+      } finally {
+        setIsSaving(false);
+      }
+    },
+    [handleResults]
+  );
+
+  /**
+   * Save a batch, replacing any batch still running
+   */
+  const saveMany = useCallback(
+    async (
+      uris: string[],
+      options?: Omit<SaveManyOptions, "signal">
+    ): Promise<SaveResult[]> => {
+      controllerRef.current?.abort();
+      const controller = new AbortController();
+      controllerRef.current = controller;
+
+      setIsSaving(true);
+      setProgress(null);
+      setError(null);
+      setErrorCode(null);
+      try {
+        const results = await MediaSaveService.saveMany(uris, {
+          ...options,
+          signal: controller.signal,
+          onProgress: (update) => {
+            if (!controller.signal.aborted) {
+              setProgress(update);
+            }
+            options?.onProgress?.(update);
+          },
+        });
+        if (controllerRef.current === controller) {
+          handleResults(results);
+        }
+        return results;
+      } finally {
+        if (controllerRef.current === controller) {
+          controllerRef.current = null;
+          setIsSaving(false);
+        }
+      }
+    },
+    [handleResults]
+  );
+
+  /**
+   * Stop the running batch; items already saving still finish
+   */
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  return {
+    save,
+    saveMany,
+    cancel,
+    isSaving,
+    progress,
+    error,
+    errorCode,
+  };
+};
@@ -13,6 +13,9 @@ import type {
   MediaUploadProgress,
   MultimediaFlashcard,
 } from "../../domain/entities/MultimediaFlashcard.types";
+import { MimeRegistry } from "../../domain/entities/MimeRegistry";
+import { MediaProbeService } from "../../infrastructure/services/MediaProbeService";
+import { MediaThumbnailService } from "../../infrastructure/services/MediaThumbnailService";
 
 export interface UseMediaUploadResult {
   uploadMedia: (
@@ -92,16 +95,17 @@ export const useMediaUpload = (): UseMediaUploadResult => {
           setUploadProgress((prev) => (prev ? { ...prev, progress: i } : null));
         }
 
+        const id = `media_${Date.now()}`;
         const attachment: MediaAttachment = {
-          id: `media_${Date.now()}`,
+          id,
           type: getMediaType(file.type),
           position: "both",
           url: `https://storage.example.com/media/${Date.now()}_${file.name}`,
           filename: file.name,
           fileSize: file.size || 100000,
           mimeType: file.type,
-          duration: getMediaDuration(file),
-          thumbnailUrl: generateThumbnail(file),
+          duration: await getMediaDuration(file),
+          thumbnailUrl: await generateThumbnail(id, file),
           caption: "",
           isDownloaded: true,
           createdAt: new Date().toISOString(),
@@ -178,7 +182,7 @@ export const useMediaGeneration = (): UseMediaGenerationResult => {
               url: `https://example.com/audio_${Date.now()}.mp3`,
               filename: `ai_generated_${Date.now()}.mp3`,
               fileSize: 80000, // 80KB
-              mimeType: "audio/mp3",
+              mimeType: "audio/mpeg",
               duration: 10, // 10 seconds
               isDownloaded: false,
               createdAt: new Date().toISOString(),
@@ -257,19 +261,10 @@ export const useMediaValidation = (): UseMediaValidationResult => {
           recommendations.push("Consider compressing file");
         }
 
-        // File type validation
-        const supportedTypes = [
-          "image/jpeg",
-          "image/png",
-          "image/webp",
-          "audio/mp3",
-          "audio/wav",
-          "audio/m4a",
-          "video/mp4",
-          "video/mov",
-        ];
-
-        if (!supportedTypes.includes(file.type)) {
+        // File type validation (aliases such as audio/mp3 are accepted)
+        const supportedTypes = MimeRegistry.getMimeTypes();
+
+        if (!supportedTypes.includes(MimeRegistry.normalize(file.type))) {
           errors.push(`Unsupported file type: ${file.type}`);
         }
 
@@ -366,6 +361,7 @@ export const useMultimediaFlashcard = (): UseMultimediaFlashcardResult => {
 
   const deleteMedia = React.useCallback(
     async (attachmentId: string): Promise<void> => {
+      await MediaThumbnailService.removeThumbnail(attachmentId);
       // Mock implementation
       await new Promise((resolve) => setTimeout(resolve, 500));
     },
@@ -389,18 +385,34 @@ const getMediaType = (mimeType: string): "image" | "audio" | "video" => {
   return "image"; // Default fallback
 };
 
-const getMediaDuration = (file: any): number | undefined => {
-  if (file.type.startsWith("audio/") || file.type.startsWith("video/")) {
-    return Math.floor(Math.random() * 60) + 10; // 10-70 seconds
+const getMediaDuration = async (file: any): Promise<number | undefined> => {
+  if (
+    file.uri &&
+    (file.type.startsWith("audio/") || file.type.startsWith("video/"))
+  ) {
+    const duration = await MediaProbeService.getDuration(
+      file.uri,
+      MimeRegistry.normalize(file.type),
+    );
+    return duration !== undefined ? duration / 1000 : undefined; // seconds
   }
   return undefined;
 };
 
-const generateThumbnail = (file: any): string | undefined => {
-  if (file.type.startsWith("video/")) {
-    return `https://picsum.photos/200/150?random=${Date.now()}`;
+const generateThumbnail = async (
+  attachmentId: string,
+  file: any,
+): Promise<string | undefined> => {
+  if (!file.uri || getMediaType(file.type) === "audio") {
+    return undefined;
+  }
+  try {
+    return await MediaThumbnailService.saveThumbnail(attachmentId, file.uri, {
+      mimeType: file.type,
+    });
+  } catch {
+    return undefined;
   }
-  return undefined;
 };
 
 const extractMediaTypes = (